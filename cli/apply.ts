@@ -0,0 +1,115 @@
+import { Command } from "jsr:@cliffy/command@^1.0.0-rc.8";
+import { colors } from "jsr:@cliffy/ansi@^1.0.0-rc.8/colors";
+import type { ApplyResult, Manifest, ManifestChange } from "../database/manifest.ts";
+import { parseManifest, validateManifest } from "../database/manifest.ts";
+
+const SYMBOLS: Record<ManifestChange["action"], string> = {
+  create: colors.green("+"),
+  update: colors.yellow("~"),
+  replace: colors.magenta("-/+"),
+  delete: colors.red("-"),
+};
+
+// Reads the manifest and the code files its entries point to with `path`
+async function readManifest(manifestPath: string): Promise<Manifest> {
+  const manifestUrl = new URL(manifestPath, `file://${Deno.cwd()}/`);
+  const format = /\.ya?ml$/.test(manifestPath) ? "yaml" : "json";
+  const manifest = await parseManifest(await Deno.readTextFile(manifestUrl), format);
+  const entries = [
+    ...((manifest as Manifest)?.services ?? []),
+    ...((manifest as Manifest)?.functions ?? []),
+    ...((manifest as Manifest)?.tasks ?? []),
+  ];
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    if (entry?.path && !entry.code) {
+      entry.code = await Deno.readTextFile(new URL(entry.path, manifestUrl));
+    }
+  }
+  const validationError = validateManifest(manifest);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+  return manifest as Manifest;
+}
+
+function printPlan(changes: ManifestChange[]) {
+  if (changes.length === 0) {
+    console.log(colors.green("✅ No changes, the database matches the manifest"));
+    return;
+  }
+  console.log(colors.brightBlue("📋 NanoEdge will perform the following actions:\n"));
+  for (const { action, section, name, fields } of changes) {
+    const changed = fields?.length ? colors.dim(` (${fields.join(", ")})`) : "";
+    console.log(`  ${SYMBOLS[action]} ${section}.${name}${changed}`);
+  }
+  // a replaced API key is destroyed and added again
+  const count = (...actions: ManifestChange["action"][]) =>
+    changes.filter((change) => actions.includes(change.action)).length;
+  console.log(
+    `\nPlan: ${count("create", "replace")} to add, ${count("update")} to change, ${
+      count("delete", "replace")
+    } to destroy.`,
+  );
+}
+
+export const applyCommand = new Command()
+  .description(
+    `${colors.brightCyan("📐 Reconcile a running server with a project manifest")}\n\n` +
+      `${colors.brightYellow("💡 Example:")} ${
+        colors.brightGreen("nanocli apply nanoedge.yaml --prune")
+      }`,
+  )
+  .arguments("<manifest:string>")
+  .option("--prune", "Delete services, functions, tasks and API keys the manifest does not name")
+  .option("--dry-run", "Only show the plan")
+  .option("-y, --yes", "Apply without asking for confirmation")
+  .option("--token <token:string>", "Admin JWT, defaults to NANOEDGE_TOKEN or a localhost token")
+  // deno-lint-ignore no-explicit-any
+  .action(async (options: any, manifestPath: string) => {
+    const baseUrl = `http://${options.host}:${options.port}`;
+    try {
+      const manifest = await readManifest(manifestPath);
+      let token = options.token ?? Deno.env.get("NANOEDGE_TOKEN");
+      if (!token) {
+        const response = await fetch(`${baseUrl}/jwt/create`, { method: "POST", body: "{}" });
+        if (!response.ok) {
+          throw new Error(`Failed to create token: ${response.status} ${response.statusText}`);
+        }
+        token = (await response.json()).token;
+      }
+
+      const apply = async (dryRun: boolean): Promise<ApplyResult> => {
+        const params = new URLSearchParams({
+          prune: String(!!options.prune),
+          dry_run: String(dryRun),
+        });
+        const response = await fetch(`${baseUrl}/admin-api/v2/apply?${params}`, {
+          method: "POST",
+          headers: { "Authorization": `Bearer ${token}`, "Content-Type": "application/json" },
+          body: JSON.stringify(manifest),
+        });
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.message ?? body.error ?? `HTTP error! Status: ${response.status}`);
+        }
+        return body;
+      };
+
+      const plan = await apply(true);
+      printPlan(plan.changes);
+      if (plan.changes.length === 0 || options.dryRun) return;
+      if (!options.yes && !confirm("\nApply these changes?")) {
+        console.log(colors.dim("   Nothing was applied"));
+        return;
+      }
+
+      const result = await apply(false);
+      console.log(colors.green(`✅ Applied ${result.changes.length} changes`));
+      for (const [name, key] of Object.entries(result.api_keys)) {
+        console.log(`   🔑 ${name}: ${colors.dim(key)} ${colors.yellow("(shown only once)")}`);
+      }
+    } catch (error) {
+      console.error(colors.red("❌ Apply failed:"), (error as Error).message);
+      Deno.exit(1);
+    }
+  });
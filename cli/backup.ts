@@ -0,0 +1,80 @@
+import { Command } from "jsr:@cliffy/command@^1.0.0-rc.8";
+import { colors } from "jsr:@cliffy/ansi@^1.0.0-rc.8/colors";
+import { Table } from "jsr:@cliffy/table@^1.0.0-rc.8";
+import { createDatabaseContext } from "../database/config.ts";
+import { createOrLoadDatabase } from "../database/tables/index.ts";
+import { exportArchive, IMPORT_MODES, importArchive, ImportReport } from "../database/backup.ts";
+
+function printReport(report: ImportReport) {
+  const table = new Table()
+    .header(["Table", "Inserted", "Skipped", "Conflicts"])
+    .border(true);
+  for (const [name, { inserted, skipped, conflicts }] of Object.entries(report.tables)) {
+    table.push([name, inserted.toString(), skipped.toString(), conflicts.join(", ")]);
+  }
+  table.render();
+  if (report.static.written.length > 0) {
+    console.log(`   📁 Static directories: ${report.static.written.join(", ")}`);
+  }
+  if (report.static.skipped.length > 0) {
+    console.log(
+      colors.yellow(`   ⚠️  Existing static directories: ${report.static.skipped.join(", ")}`),
+    );
+  }
+}
+
+const backupExportCommand = new Command()
+  .description("📦 Export the state of a database and the static files to a zip archive")
+  .arguments("<dbPath:string> <archive:string>")
+  .action(async (_options: unknown, dbPath: string, archive: string) => {
+    const dbInstance = await createOrLoadDatabase(dbPath);
+    try {
+      const context = await createDatabaseContext(dbInstance);
+      await Deno.writeFile(archive, await exportArchive(context));
+      console.log(colors.green(`✅ Backup written to ${archive}`));
+    } catch (error) {
+      console.error(colors.red("❌ Export failed:"), (error as Error).message);
+      Deno.exit(1);
+    } finally {
+      await dbInstance.destroy();
+    }
+  });
+
+const backupImportCommand = new Command()
+  .description("📥 Import a backup archive into a database")
+  .arguments("<dbPath:string> <archive:string>")
+  .option("--mode <mode:string>", "merge keeps existing rows, replace clears the tables first", {
+    default: "merge",
+  })
+  .option("--dry-run", "Only report what would be imported and the conflicts")
+  // deno-lint-ignore no-explicit-any
+  .action(async (options: any, dbPath: string, archive: string) => {
+    if (!IMPORT_MODES.includes(options.mode)) {
+      console.error(colors.red(`❌ --mode must be one of ${IMPORT_MODES.join(", ")}`));
+      Deno.exit(1);
+    }
+    const dbInstance = await createOrLoadDatabase(dbPath);
+    try {
+      const context = await createDatabaseContext(dbInstance);
+      const report = await importArchive(context, await Deno.readFile(archive), {
+        mode: options.mode,
+        dry_run: !!options.dryRun,
+      });
+      printReport(report);
+      console.log(
+        report.dry_run
+          ? colors.dim("   Dry run, nothing was imported")
+          : colors.green(`✅ Backup from ${report.created_at} imported`),
+      );
+    } catch (error) {
+      console.error(colors.red("❌ Import failed:"), (error as Error).message);
+      Deno.exit(1);
+    } finally {
+      await dbInstance.destroy();
+    }
+  });
+
+export const backupCommand = new Command()
+  .description(colors.brightCyan("💾 Export and import backups of the runtime state"))
+  .command("export", backupExportCommand)
+  .command("import", backupImportCommand);
@@ -0,0 +1,120 @@
+import { Command } from "jsr:@cliffy/command@^1.0.0-rc.8";
+import { colors } from "jsr:@cliffy/ansi@^1.0.0-rc.8/colors";
+import { Table } from "jsr:@cliffy/table@^1.0.0-rc.8";
+import { Kysely } from "kysely";
+import {
+  createDatabase,
+  DEFAULT_DB_INIT_CONFIG,
+  getMigrations,
+  initializeDatabase,
+} from "../database/tables/index.ts";
+import { createQueueBase, QUEUE_MIGRATIONS } from "../database/task_tables/queue.ts";
+import {
+  getMigrationStatus,
+  migrateDown,
+  migrateToLatest,
+  Migration,
+} from "../database/migrations.ts";
+
+// The main database, or the queue database with --queue
+function openDatabase(dbPath: string, queue: boolean) {
+  if (queue) {
+    const dbInstance = createQueueBase(dbPath);
+    return {
+      dbInstance: dbInstance as Kysely<unknown>,
+      migrations: QUEUE_MIGRATIONS as Migration<unknown>[],
+      migrate: () => migrateToLatest(dbInstance, QUEUE_MIGRATIONS),
+    };
+  }
+  const dbInstance = createDatabase(dbPath);
+  return {
+    dbInstance: dbInstance as Kysely<unknown>,
+    migrations: getMigrations() as Migration<unknown>[],
+    // the main database also gets its default config, ports and signing key
+    migrate: () => initializeDatabase(dbInstance, DEFAULT_DB_INIT_CONFIG),
+  };
+}
+
+function printMigrations(prefix: string, migrations: Migration<unknown>[]) {
+  if (migrations.length === 0) {
+    console.log(colors.dim("   Nothing to do, the schema is up to date"));
+  }
+  for (const migration of migrations) {
+    console.log(`   ${prefix} ${migration.module}@${migration.version} ${migration.name}`);
+  }
+}
+
+const migrateStatusCommand = new Command()
+  .description("📋 List the migrations of a database and whether they are applied")
+  .arguments("<dbPath:string>")
+  .option("--queue", "The path is a queue database")
+  // deno-lint-ignore no-explicit-any
+  .action(async (options: any, dbPath: string) => {
+    const { dbInstance, migrations } = openDatabase(dbPath, !!options.queue);
+    try {
+      const table = new Table()
+        .header(["Status", "Module", "Version", "Name", "Applied At"])
+        .border(true);
+      for (const migration of await getMigrationStatus(dbInstance, migrations)) {
+        table.push([
+          migration.applied_at ? colors.green("✅ Applied") : colors.yellow("⏳ Pending"),
+          migration.module,
+          migration.version.toString(),
+          migration.name,
+          migration.applied_at ?? "",
+        ]);
+      }
+      table.render();
+    } finally {
+      await dbInstance.destroy();
+    }
+  });
+
+const migrateUpCommand = new Command()
+  .description("⬆️  Apply the pending migrations of a database")
+  .arguments("<dbPath:string>")
+  .option("--queue", "The path is a queue database")
+  // deno-lint-ignore no-explicit-any
+  .action(async (options: any, dbPath: string) => {
+    const { dbInstance, migrate } = openDatabase(dbPath, !!options.queue);
+    try {
+      printMigrations("⬆️ ", (await migrate()) as Migration<unknown>[]);
+      console.log(colors.green("✅ Database migrated"));
+    } catch (error) {
+      console.error(colors.red("❌ Migration failed:"), (error as Error).message);
+      Deno.exit(1);
+    } finally {
+      await dbInstance.destroy();
+    }
+  });
+
+const migrateDownCommand = new Command()
+  .description("⬇️  Revert the last applied migrations of a database")
+  .arguments("<dbPath:string>")
+  .option("--queue", "The path is a queue database")
+  .option("-m, --module <module:string>", "Only revert migrations of this module")
+  .option("-s, --steps <steps:integer>", "Number of migrations to revert", { default: 1 })
+  // deno-lint-ignore no-explicit-any
+  .action(async (options: any, dbPath: string) => {
+    const { dbInstance, migrations } = openDatabase(dbPath, !!options.queue);
+    try {
+      printMigrations(
+        "⬇️ ",
+        await migrateDown(dbInstance, migrations, {
+          module: options.module,
+          steps: options.steps,
+        }),
+      );
+    } catch (error) {
+      console.error(colors.red("❌ Revert failed:"), (error as Error).message);
+      Deno.exit(1);
+    } finally {
+      await dbInstance.destroy();
+    }
+  });
+
+export const migrateCommand = new Command()
+  .description(colors.brightCyan("🗄️  Show and run the schema migrations of a database"))
+  .command("status", migrateStatusCommand)
+  .command("up", migrateUpCommand)
+  .command("down", migrateDownCommand);
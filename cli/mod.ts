@@ -4,6 +4,9 @@ import { newCommand } from "./new.ts";
 import { deployCommand } from "./deploy.ts";
 import { tokenCommand } from "./token.ts";
 import { startCommand } from "./start.ts";
+import { migrateCommand } from "./migrate.ts";
+import { backupCommand } from "./backup.ts";
+import { applyCommand } from "./apply.ts";
 const logo = `
         ███████╗██████╗  ██████╗ ███████╗
         ██╔════╝██╔══██╗██╔════╝ ██╔════╝
@@ -52,6 +55,9 @@ const cli = new Command()
   .command("start", startCommand)
   .command("token", tokenCommand)
   .command("status", statusCommand)
+  .command("migrate", migrateCommand)
+  .command("backup", backupCommand)
+  .command("apply", applyCommand)
   .command("new", newCommand)
   .command("deploy", deployCommand); // TODO:
 // .command("update", updateCommand)
@@ -5,12 +5,15 @@ export const startCommand = new Command()
   .description(
     `${colors.brightCyan("🚀 Start the NanoInfra Local Dev Engine")}\n\n` +
       `  ${colors.green("•")} ${colors.brightBlue("dbPath")}         ${
-        colors.dim("- the path of the db file, default :memory:")
+        colors.dim("- the path of the db file or a postgres:// URL, default :memory:")
       }\n`,
   )
   .arguments("[dbPath:string]")
+  .option("--queue-db <storage:string>", "Queue database path or postgres:// URL", {
+    default: ":memory:",
+  })
   // deno-lint-ignore no-explicit-any
-  .action(async (_options: any, dbPath?: string) => {
+  .action(async (options: any, dbPath?: string) => {
     if (!dbPath) {
       dbPath = ":memory:";
     }
@@ -27,7 +30,7 @@ export const startCommand = new Command()
       });
     }
 
-    const ac = await startNanoEdgeRT(dbPath);
+    const ac = await startNanoEdgeRT(dbPath, options.queueDb);
     console.log("NanoEdgeRT server is running. Press Ctrl+C to stop.");
     await new Promise((resolve) => ac.signal.addEventListener("abort", resolve));
   });
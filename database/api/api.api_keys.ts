@@ -0,0 +1,129 @@
+import type { Context } from "hono";
+import { Hono } from "hono";
+import { createAPIKey, deleteAPIKey, getAllAPIKeys, getAPIKey } from "../tables/api_keys.ts";
+import { isValidScope, parseScopes, uncoveredScopes } from "../../src/api/scopes.ts";
+
+// Setup API key routes
+export function setupAPIKeyAPIRoutes() {
+  const app = new Hono();
+  app.get("/", getAllAPIKeysHandler);
+  app.post("/", createAPIKeyHandler);
+  app.get("/:name", getAPIKeyHandler);
+  app.delete("/:name", deleteAPIKeyHandler);
+
+  return app;
+}
+
+async function getAllAPIKeysHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  try {
+    const keys = await getAllAPIKeys(dbContext);
+    return c.json({ keys });
+  } catch (error) {
+    console.error("Get API keys error:", error);
+    return c.json(
+      {
+        error: "Failed to get API keys",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function createAPIKeyHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+
+  try {
+    const body = await c.req.json();
+    const { name, scope, expires_at } = body;
+
+    if (!name || typeof name !== "string") {
+      return c.json({ error: "Name is required" }, 400);
+    }
+    const scopes = parseScopes(scope);
+    const invalidScopes = scopes.filter((s) => !isValidScope(s));
+    if (scopes.length === 0 || invalidScopes.length > 0) {
+      return c.json({
+        error: "Invalid scope",
+        message: `Unknown scopes: ${invalidScopes.join(" ") || "(none given)"}`,
+      }, 400);
+    }
+    // a key cannot grant more than the token creating it
+    const uncovered = uncoveredScopes(c.get("jwtPayload")?.scope, scopes);
+    if (uncovered.length > 0) {
+      return c.json(
+        { error: "Forbidden", message: `Token lacks the ${uncovered.join(", ")} scope` },
+        403,
+      );
+    }
+    if (expires_at !== undefined && isNaN(Date.parse(expires_at))) {
+      return c.json({ error: "expires_at must be an ISO 8601 date" }, 400);
+    }
+    if (await getAPIKey(dbContext, name)) {
+      return c.json({ error: "API key already exists" }, 409);
+    }
+
+    const { key, info } = await createAPIKey(dbContext, {
+      name,
+      scope: scopes.join(" "),
+      expires_at: expires_at !== undefined ? new Date(expires_at).toISOString() : undefined,
+    });
+    // the plain key is only returned here, it cannot be recovered later
+    return c.json({ ...info, key }, 201);
+  } catch (error) {
+    console.error("Create API key error:", error);
+    return c.json(
+      {
+        error: "Failed to create API key",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function getAPIKeyHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const name = c.req.param("name");
+
+  try {
+    const key = await getAPIKey(dbContext, name);
+    if (!key) {
+      return c.json({ error: "API key not found" }, 404);
+    }
+    return c.json(key);
+  } catch (error) {
+    console.error("Get API key error:", error);
+    return c.json(
+      {
+        error: "Failed to get API key",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function deleteAPIKeyHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const name = c.req.param("name");
+
+  try {
+    if (!await deleteAPIKey(dbContext, name)) {
+      return c.json({ error: "API key not found" }, 404);
+    }
+    return c.json({ message: "API key revoked successfully", name });
+  } catch (error) {
+    console.error("Delete API key error:", error);
+    return c.json(
+      {
+        error: "Failed to revoke API key",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+export type AppType = ReturnType<typeof setupAPIKeyAPIRoutes>;
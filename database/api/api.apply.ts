@@ -0,0 +1,96 @@
+import type { Context } from "hono";
+import { Hono } from "hono";
+import {
+  applyManifest,
+  Manifest,
+  MANIFEST_SECTIONS,
+  ManifestChange,
+  parseManifest,
+  validateManifest,
+} from "../manifest.ts";
+import { SECRET_CONFIG_KEYS } from "../tables/index.ts";
+import { hasScope, parseScopes, Scope, uncoveredScopes } from "../../src/api/scopes.ts";
+
+// Setup manifest routes
+export function setupApplyAPIRoutes() {
+  const app = new Hono();
+  app.post("/", applyManifestHandler);
+
+  return app;
+}
+
+// A plan needs the read scope of every section of the manifest, applying it the write scope
+function manifestScopes(manifest: Manifest, dryRun: boolean): Scope[] {
+  return MANIFEST_SECTIONS.filter((section) => manifest[section] !== undefined)
+    .map((section) => `${section}:${dryRun ? "read" : "write"}` as Scope);
+}
+
+// What the planned changes need beyond that: the write scope of every section they touch,
+// pruned ones included, full for secret config values and the scopes of the API keys they create
+function authorizeChanges(manifest: Manifest, scope: unknown) {
+  return (changes: ManifestChange[]): string | null => {
+    const missing = new Set<string>();
+    for (const { action, section, name } of changes) {
+      if (!hasScope(scope, `${section}:write` as Scope)) missing.add(`${section}:write`);
+      if (section === "config" && SECRET_CONFIG_KEYS.includes(name) && !hasScope(scope, "full")) {
+        missing.add("full");
+      }
+      if (section === "api_keys" && action !== "delete") {
+        const key = manifest.api_keys!.find((entry) => entry.name === name)!;
+        uncoveredScopes(scope, parseScopes(key.scope)).forEach((s) => missing.add(s));
+      }
+    }
+    return missing.size > 0 ? `Token lacks the ${[...missing].join(", ")} scope` : null;
+  };
+}
+
+// The manifest is the JSON body, or YAML with a YAML content type.
+// ?prune=true deletes what it does not name, ?dry_run=true only returns the plan.
+async function applyManifestHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const prune = ["true", "1"].includes(c.req.query("prune") ?? "");
+  const dryRun = ["true", "1"].includes(c.req.query("dry_run") ?? "");
+
+  let manifest: unknown;
+  try {
+    const format = /yaml/.test(c.req.header("Content-Type") ?? "") ? "yaml" : "json";
+    manifest = await parseManifest(await c.req.text(), format);
+  } catch (error) {
+    return c.json({ error: "Invalid manifest", message: (error as Error).message }, 400);
+  }
+  const validationError = validateManifest(manifest);
+  if (validationError) {
+    return c.json({ error: validationError }, 400);
+  }
+
+  const payload = c.get("jwtPayload");
+  const missing = manifestScopes(manifest as Manifest, dryRun)
+    .filter((scope) => !hasScope(payload?.scope, scope));
+  if (missing.length > 0) {
+    return c.json(
+      { error: "Forbidden", message: `Token lacks the ${missing.join(", ")} scope` },
+      403,
+    );
+  }
+
+  try {
+    const result = await applyManifest(dbContext, manifest as Manifest, {
+      prune,
+      dry_run: dryRun,
+      authorize: authorizeChanges(manifest as Manifest, payload?.scope),
+    });
+    if (result.forbidden) {
+      return c.json({ error: "Forbidden", message: result.forbidden }, 403);
+    }
+    return c.json(result);
+  } catch (error) {
+    console.error("Apply manifest error:", error);
+    return c.json(
+      {
+        error: "Failed to apply manifest",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import type { Context } from "hono";
+import { Hono } from "hono";
+import { exportArchive, IMPORT_MODES, importArchive, ImportMode, readArchive } from "../backup.ts";
+
+// Setup backup routes
+export function setupBackupAPIRoutes() {
+  const app = new Hono();
+  app.get("/", exportBackupHandler);
+  app.post("/import", importBackupHandler);
+
+  return app;
+}
+
+async function exportBackupHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  try {
+    const archive = await exportArchive(dbContext);
+    const filename = `nanoedge-backup-${new Date().toISOString().replace(/[:.]/g, "-")}.zip`;
+    return c.body(archive, 200, {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    });
+  } catch (error) {
+    console.error("Export backup error:", error);
+    return c.json(
+      {
+        error: "Failed to export backup",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+// The archive is the raw request body, ?mode=merge|replace and ?dry_run=true
+async function importBackupHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const mode = (c.req.query("mode") ?? "merge") as ImportMode;
+  if (!IMPORT_MODES.includes(mode)) {
+    return c.json({ error: `mode must be one of ${IMPORT_MODES.join(", ")}` }, 400);
+  }
+  const dryRun = ["true", "1"].includes(c.req.query("dry_run") ?? "");
+
+  const archive = new Uint8Array(await c.req.arrayBuffer());
+  try {
+    await readArchive(archive);
+  } catch (error) {
+    return c.json({ error: "Invalid backup archive", message: (error as Error).message }, 400);
+  }
+
+  try {
+    const report = await importArchive(dbContext, archive, {
+      mode,
+      dry_run: dryRun,
+      services: c.get("serviceManager"),
+    });
+    return c.json({ report });
+  } catch (error) {
+    console.error("Import backup error:", error);
+    return c.json(
+      {
+        error: "Failed to import backup",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
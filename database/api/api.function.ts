@@ -3,10 +3,30 @@ import { Hono } from "hono";
 import {
   createFunction,
   deleteFunction,
+  FUNCTION_AUTH_MODES,
   getAllFunctions,
   getFunction,
+  getFunctionRevision,
+  getFunctionRevisions,
+  pinFunctionRevision,
+  rollbackFunction,
   updateFunction,
 } from "../tables/functions.ts";
+import { diffLines, parseRevision } from "../../src/utils.ts";
+import { parseScopes, SCOPES } from "../../src/api/scopes.ts";
+
+// Returns an error message for an invalid auth mode or required scope, shared with tasks
+export function validateFunctionAuth(auth: unknown, authScope: unknown): string | null {
+  if (auth !== undefined && !(FUNCTION_AUTH_MODES as readonly unknown[]).includes(auth)) {
+    return `auth must be one of ${FUNCTION_AUTH_MODES.join(", ")}`;
+  }
+  if (authScope !== undefined && authScope !== null && typeof authScope !== "string") {
+    return "auth_scope must be a space separated string of scopes";
+  }
+  // required scopes must be concrete, wildcards are only meant for tokens
+  const unknown = parseScopes(authScope).filter((s) => !(SCOPES as readonly string[]).includes(s));
+  return unknown.length > 0 ? `Unknown scopes in auth_scope: ${unknown.join(" ")}` : null;
+}
 
 // Setup function API routes
 export function setupFunctionAPIRoutes() {
@@ -18,6 +38,14 @@ export function setupFunctionAPIRoutes() {
   app.put("/:name", updateFunctionHandler);
   app.delete("/:name", deleteFunctionHandler);
 
+  // Revision routes
+  app.get("/:name/revisions", getFunctionRevisionsHandler);
+  app.delete("/:name/revisions/pin", unpinFunctionRevisionHandler);
+  app.get("/:name/revisions/:revision", getFunctionRevisionHandler);
+  app.get("/:name/revisions/:revision/diff", diffFunctionRevisionHandler);
+  app.post("/:name/revisions/:revision/pin", pinFunctionRevisionHandler);
+  app.post("/:name/revisions/:revision/rollback", rollbackFunctionHandler);
+
   return app;
 }
 
@@ -66,11 +94,16 @@ async function createFunctionHandler(c: Context): Promise<Response> {
 
   try {
     const body = await c.req.json();
-    const { name, code, enabled = true, permissions, description } = body;
+    const { name, code, enabled = true, permissions, description, timeout, auth, auth_scope } =
+      body;
 
     if (!name || !code) {
       return c.json({ error: "Name and code are required" }, 400);
     }
+    const authError = validateFunctionAuth(auth, auth_scope);
+    if (authError) {
+      return c.json({ error: authError }, 400);
+    }
 
     await createFunction(dbContext, {
       name,
@@ -83,6 +116,9 @@ async function createFunctionHandler(c: Context): Promise<Response> {
         run: [],
       },
       description,
+      timeout,
+      auth,
+      auth_scope,
     });
 
     return c.json({ message: "Function created successfully", name }, 201);
@@ -104,13 +140,20 @@ async function updateFunctionHandler(c: Context): Promise<Response> {
 
   try {
     const body = await c.req.json();
-    const { code, enabled, permissions, description } = body;
+    const { code, enabled, permissions, description, timeout, auth, auth_scope } = body;
+    const authError = validateFunctionAuth(auth, auth_scope);
+    if (authError) {
+      return c.json({ error: authError }, 400);
+    }
 
     await updateFunction(dbContext, functionName, {
       code,
       enabled,
       permissions,
       description,
+      timeout,
+      auth,
+      auth_scope: auth_scope === null ? "" : auth_scope,
     });
 
     return c.json({ message: "Function updated successfully", ...body });
@@ -145,4 +188,185 @@ async function deleteFunctionHandler(c: Context): Promise<Response> {
   }
 }
 
+// Revision handlers
+async function getFunctionRevisionsHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const functionName = c.req.param("name");
+
+  try {
+    const func = await getFunction(dbContext, functionName);
+    if (!func) {
+      return c.json({ error: "Function not found" }, 404);
+    }
+    const revisions = await getFunctionRevisions(dbContext, functionName);
+    return c.json({
+      current_revision: func.revision,
+      pinned_revision: func.pinned_revision ?? null,
+      // code is only returned by the single revision route
+      revisions: revisions.map(({ code: _code, ...revision }) => revision),
+    });
+  } catch (error) {
+    console.error("Get function revisions error:", error);
+    return c.json(
+      {
+        error: "Failed to get function revisions",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function getFunctionRevisionHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const functionName = c.req.param("name");
+  const revision = parseRevision(c.req.param("revision"));
+
+  if (revision === null) {
+    return c.json({ error: "Invalid revision" }, 400);
+  }
+
+  try {
+    const functionRevision = await getFunctionRevision(dbContext, functionName, revision);
+    if (!functionRevision) {
+      return c.json({ error: "Revision not found" }, 404);
+    }
+    return c.json(functionRevision);
+  } catch (error) {
+    console.error("Get function revision error:", error);
+    return c.json(
+      {
+        error: "Failed to get function revision",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function diffFunctionRevisionHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const functionName = c.req.param("name");
+  const revision = parseRevision(c.req.param("revision"));
+  const againstParam = c.req.query("against");
+  // compare with the previous revision unless told otherwise
+  const against = againstParam !== undefined ? parseRevision(againstParam) : (revision ?? 1) - 1;
+
+  if (revision === null || against === null) {
+    return c.json({ error: "Invalid revision" }, 400);
+  }
+
+  try {
+    const to = await getFunctionRevision(dbContext, functionName, revision);
+    const from = against > 0 ? await getFunctionRevision(dbContext, functionName, against) : null;
+    if (!to || (against > 0 && !from)) {
+      return c.json({ error: "Revision not found" }, 404);
+    }
+
+    const fromPermissions = JSON.stringify(from?.permissions ?? null);
+    const toPermissions = JSON.stringify(to.permissions);
+    return c.json({
+      function_name: functionName,
+      from: from?.revision ?? null,
+      to: to.revision,
+      code: diffLines(from?.code ?? "", to.code),
+      permissions: fromPermissions !== toPermissions
+        ? { from: from?.permissions ?? null, to: to.permissions }
+        : null,
+      description: from?.description !== to.description
+        ? { from: from?.description ?? null, to: to.description ?? null }
+        : null,
+    });
+  } catch (error) {
+    console.error("Diff function revision error:", error);
+    return c.json(
+      {
+        error: "Failed to diff function revisions",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function pinFunctionRevisionHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const functionName = c.req.param("name");
+  const revision = parseRevision(c.req.param("revision"));
+
+  if (revision === null) {
+    return c.json({ error: "Invalid revision" }, 400);
+  }
+
+  try {
+    if (!(await getFunctionRevision(dbContext, functionName, revision))) {
+      return c.json({ error: "Revision not found" }, 404);
+    }
+    await pinFunctionRevision(dbContext, functionName, revision);
+    return c.json({ message: "Function revision pinned successfully", pinned_revision: revision });
+  } catch (error) {
+    console.error("Pin function revision error:", error);
+    return c.json(
+      {
+        error: "Failed to pin function revision",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function unpinFunctionRevisionHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const functionName = c.req.param("name");
+
+  try {
+    if (!(await getFunction(dbContext, functionName))) {
+      return c.json({ error: "Function not found" }, 404);
+    }
+    await pinFunctionRevision(dbContext, functionName, null);
+    return c.json({ message: "Function revision unpinned successfully" });
+  } catch (error) {
+    console.error("Unpin function revision error:", error);
+    return c.json(
+      {
+        error: "Failed to unpin function revision",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function rollbackFunctionHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const functionName = c.req.param("name");
+  const revision = parseRevision(c.req.param("revision"));
+
+  if (revision === null) {
+    return c.json({ error: "Invalid revision" }, 400);
+  }
+
+  try {
+    if (!(await getFunctionRevision(dbContext, functionName, revision))) {
+      return c.json({ error: "Revision not found" }, 404);
+    }
+    const func = await rollbackFunction(dbContext, functionName, revision);
+    return c.json({
+      message: "Function rolled back successfully",
+      rolled_back_to: revision,
+      current_revision: func.revision,
+    });
+  } catch (error) {
+    console.error("Rollback function error:", error);
+    return c.json(
+      {
+        error: "Failed to roll back function",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
 export type AppType = ReturnType<typeof setupFunctionAPIRoutes>;
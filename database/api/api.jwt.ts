@@ -0,0 +1,97 @@
+import type { Context } from "hono";
+import { Hono } from "hono";
+import { getAllJWTKeys, retireJWTKey, rotateJWTKey } from "../tables/jwt_keys.ts";
+import { hasScope } from "../../src/api/scopes.ts";
+
+// Setup JWT key API routes
+export function setupJWTKeyAPIRoutes() {
+  const app = new Hono();
+  app.get("/keys", getAllJWTKeysHandler);
+  app.post("/rotate", rotateJWTKeyHandler);
+  app.delete("/keys/:kid", retireJWTKeyHandler);
+
+  return app;
+}
+
+async function getAllJWTKeysHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  try {
+    const keys = await getAllJWTKeys(dbContext);
+    return c.json({ keys });
+  } catch (error) {
+    console.error("Get JWT keys error:", error);
+    return c.json(
+      {
+        error: "Failed to get JWT keys",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function rotateJWTKeyHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+
+  try {
+    // body is optional, an empty request rotates with the configured grace period
+    const body = await c.req.json().catch(() => ({}));
+    const { secret, grace_period } = body;
+    // whoever knows the signing secret can mint tokens of any scope
+    if (secret !== undefined && !hasScope(c.get("jwtPayload")?.scope, "full")) {
+      return c.json({ error: "Forbidden", message: "Token lacks the full scope" }, 403);
+    }
+
+    if (
+      grace_period !== undefined && (!Number.isInteger(grace_period) || grace_period < 0)
+    ) {
+      return c.json({ error: "grace_period must be a non-negative integer" }, 400);
+    }
+
+    const key = await rotateJWTKey(dbContext, { secret, gracePeriod: grace_period });
+    return c.json({
+      message: "JWT key rotated successfully",
+      kid: key.kid,
+      keys: await getAllJWTKeys(dbContext),
+    });
+  } catch (error) {
+    console.error("Rotate JWT key error:", error);
+    return c.json(
+      {
+        error: "Failed to rotate JWT key",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function retireJWTKeyHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const kid = c.req.param("kid");
+
+  try {
+    const keys = await getAllJWTKeys(dbContext);
+    const key = keys.find((key) => key.kid === kid);
+    if (!key) {
+      return c.json({ error: "JWT key not found" }, 404);
+    }
+    if (key.status === "active") {
+      return c.json({ error: "The signing key cannot be retired, rotate it first" }, 400);
+    }
+
+    await retireJWTKey(dbContext, kid);
+    return c.json({ message: "JWT key retired successfully", kid });
+  } catch (error) {
+    console.error("Retire JWT key error:", error);
+    return c.json(
+      {
+        error: "Failed to retire JWT key",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+export type AppType = ReturnType<typeof setupJWTKeyAPIRoutes>;
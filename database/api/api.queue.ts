@@ -0,0 +1,211 @@
+import type { Context } from "hono";
+import { Hono } from "hono";
+import {
+  getDeadLetterItems,
+  getQueueItem,
+  purgeDeadLetterItems,
+  replayDeadLetterItems,
+} from "../task_tables/queue.ts";
+import {
+  getWebhookDelivery,
+  listWebhookDeliveries,
+  replayWebhookDelivery,
+  WEBHOOK_DELIVERY_STATUSES,
+  WebhookDelivery,
+} from "../task_tables/webhooks.ts";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Setup queue admin routes, dead-letter items ran out of retries
+export function setupQueueAdminAPIRoutes() {
+  const app = new Hono();
+  app.get("/dead-letter", getDeadLetterItemsHandler);
+  app.post("/dead-letter/replay", replayDeadLetterItemsHandler);
+  app.delete("/dead-letter", purgeDeadLetterItemsHandler);
+  app.get("/dead-letter/:id", getDeadLetterItemHandler);
+  app.post("/dead-letter/:id/replay", replayDeadLetterItemsHandler);
+  app.delete("/dead-letter/:id", purgeDeadLetterItemsHandler);
+  // Webhook delivery log
+  app.get("/webhooks", listWebhookDeliveriesHandler);
+  app.get("/webhooks/:id", getWebhookDeliveryHandler);
+  app.post("/webhooks/:id/replay", replayWebhookDeliveryHandler);
+
+  return app;
+}
+
+async function getDeadLetterItemsHandler(c: Context): Promise<Response> {
+  const queueBase = c.get("queueBase");
+  try {
+    const items = await getDeadLetterItems(queueBase, c.req.query("task_id"));
+    return c.json({ items });
+  } catch (error) {
+    console.error("Get dead-letter items error:", error);
+    return c.json(
+      {
+        error: "Failed to get dead-letter items",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function getDeadLetterItemHandler(c: Context): Promise<Response> {
+  const queueBase = c.get("queueBase");
+  const id = c.req.param("id");
+
+  try {
+    const item = await getQueueItem(queueBase, id);
+    if (!item || item.status !== "dead") {
+      return c.json({ error: "Dead-letter item not found" }, 404);
+    }
+    return c.json(item);
+  } catch (error) {
+    console.error("Get dead-letter item error:", error);
+    return c.json(
+      {
+        error: "Failed to get dead-letter item",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+// Replays one item by ID, or every item optionally filtered by ?task_id=
+async function replayDeadLetterItemsHandler(c: Context): Promise<Response> {
+  const queueBase = c.get("queueBase");
+  const id = c.req.param("id");
+
+  try {
+    const replayed = await replayDeadLetterItems(queueBase, {
+      id,
+      task_id: c.req.query("task_id"),
+    });
+    if (id && replayed.length === 0) {
+      return c.json({ error: "Dead-letter item not found" }, 404);
+    }
+    return c.json({ message: "Dead-letter items queued again", replayed });
+  } catch (error) {
+    console.error("Replay dead-letter items error:", error);
+    return c.json(
+      {
+        error: "Failed to replay dead-letter items",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+// Purges one item by ID, or every item optionally filtered by ?task_id=
+async function purgeDeadLetterItemsHandler(c: Context): Promise<Response> {
+  const queueBase = c.get("queueBase");
+  const id = c.req.param("id");
+
+  try {
+    const purged = await purgeDeadLetterItems(queueBase, {
+      id,
+      task_id: c.req.query("task_id"),
+    });
+    if (id && purged.length === 0) {
+      return c.json({ error: "Dead-letter item not found" }, 404);
+    }
+    return c.json({ message: "Dead-letter items purged", purged });
+  } catch (error) {
+    console.error("Purge dead-letter items error:", error);
+    return c.json(
+      {
+        error: "Failed to purge dead-letter items",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+// Lists webhook deliveries newest first, filtered by ?queue_id and ?status, paginated with
+// ?limit and ?offset
+async function listWebhookDeliveriesHandler(c: Context): Promise<Response> {
+  const queueBase = c.get("queueBase");
+  const { queue_id, status } = c.req.query();
+  const limit = Number(c.req.query("limit") ?? DEFAULT_PAGE_SIZE);
+  const offset = Number(c.req.query("offset") ?? 0);
+  if (
+    status !== undefined &&
+    !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDelivery["status"])
+  ) {
+    return c.json({ error: `status must be one of ${WEBHOOK_DELIVERY_STATUSES.join(", ")}` }, 400);
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return c.json({ error: `limit must be an integer from 1 to ${MAX_PAGE_SIZE}` }, 400);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return c.json({ error: "offset must be a non-negative integer" }, 400);
+  }
+
+  try {
+    const { deliveries, total } = await listWebhookDeliveries(queueBase, {
+      queue_id,
+      status: status as WebhookDelivery["status"] | undefined,
+      limit,
+      offset,
+    });
+    return c.json({ deliveries, total, limit, offset });
+  } catch (error) {
+    console.error("List webhook deliveries error:", error);
+    return c.json(
+      {
+        error: "Failed to list webhook deliveries",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function getWebhookDeliveryHandler(c: Context): Promise<Response> {
+  const queueBase = c.get("queueBase");
+
+  try {
+    const delivery = await getWebhookDelivery(queueBase, c.req.param("id"));
+    if (!delivery) {
+      return c.json({ error: "Webhook delivery not found" }, 404);
+    }
+    return c.json(delivery);
+  } catch (error) {
+    console.error("Get webhook delivery error:", error);
+    return c.json(
+      {
+        error: "Failed to get webhook delivery",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+// Sends a delivery again with a fresh set of attempts, whatever its status
+async function replayWebhookDeliveryHandler(c: Context): Promise<Response> {
+  const queueBase = c.get("queueBase");
+  const id = c.req.param("id");
+
+  try {
+    if (!await replayWebhookDelivery(queueBase, id)) {
+      return c.json({ error: "Webhook delivery not found" }, 404);
+    }
+    return c.json({ message: "Webhook delivery queued again", delivery_id: id });
+  } catch (error) {
+    console.error("Replay webhook delivery error:", error);
+    return c.json(
+      {
+        error: "Failed to replay webhook delivery",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+export type AppType = ReturnType<typeof setupQueueAdminAPIRoutes>;
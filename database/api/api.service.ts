@@ -4,15 +4,25 @@ import { DatabaseContext, updateConfig } from "../config.ts";
 import {
   createService,
   deleteService,
+  deployServiceRevision,
   getAllServices,
   getService,
+  getServiceRevision,
+  getServiceRevisions,
+  rollbackService,
   updateService,
 } from "../tables/services.ts";
+import { rotateJWTKey } from "../tables/jwt_keys.ts";
+import { SECRET_CONFIG_KEYS } from "../tables/index.ts";
+import { parseRevision } from "../../src/utils.ts";
+import { hasScope } from "../../src/api/scopes.ts";
+import { applyDeployedRevision, ServiceManagerState } from "../../src/managers/service-manager.ts";
 
 // Extend Hono's Context to include our database context
 declare module "hono" {
   interface ContextVariableMap {
     dbContext: DatabaseContext;
+    serviceManager?: ServiceManagerState;
   }
 }
 
@@ -24,6 +34,14 @@ export function databaseMiddleware(dbContext: DatabaseContext) {
   };
 }
 
+// Middleware to inject the services running in this process
+export function serviceManagerMiddleware(state: ServiceManagerState) {
+  return async (c: Context, next: Next) => {
+    c.set("serviceManager", state);
+    return await next();
+  };
+}
+
 // Setup all API routes
 export function setupAPIRoutes() {
   const app = new Hono();
@@ -39,6 +57,13 @@ export function setupAPIRoutes() {
   app.put("/:name", updateServiceHandler);
   app.delete("/:name", deleteServiceHandler);
 
+  // Revision routes, a running service is switched over before they respond
+  app.post("/:name/deploy", deployLatestServiceHandler);
+  app.get("/:name/revisions", getServiceRevisionsHandler);
+  app.get("/:name/revisions/:revision", getServiceRevisionHandler);
+  app.post("/:name/revisions/:revision/deploy", deployServiceRevisionHandler);
+  app.post("/:name/revisions/:revision/rollback", rollbackServiceHandler);
+
   return app;
 }
 
@@ -146,7 +171,7 @@ async function updateServiceHandler(c: Context): Promise<Response> {
       }
     }
 
-    await updateService(dbContext, {
+    const updated = await updateService(dbContext, {
       name: serviceName,
       code,
       enabled,
@@ -155,7 +180,11 @@ async function updateServiceHandler(c: Context): Promise<Response> {
       schema,
     });
 
-    return c.json({ message: "Service updated successfully", ...body });
+    return c.json({
+      message: "Service updated successfully",
+      ...body,
+      revision: updated.revision,
+    });
   } catch (error) {
     console.error("Update service error:", error);
     return c.json(
@@ -187,7 +216,197 @@ async function deleteServiceHandler(c: Context): Promise<Response> {
   }
 }
 
-// Config handlers
+// Revision handlers
+async function getServiceRevisionsHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const serviceName = c.req.param("name");
+
+  try {
+    const service = await getService(dbContext, serviceName);
+    if (!service) {
+      return c.json({ error: "Service not found" }, 404);
+    }
+    const revisions = await getServiceRevisions(dbContext, serviceName);
+    return c.json({
+      current_revision: service.revision,
+      deployed_revision: service.deployed_revision ?? null,
+      // code is only returned by the single revision route
+      revisions: revisions.map(({ code: _code, ...revision }) => revision),
+    });
+  } catch (error) {
+    console.error("Get service revisions error:", error);
+    return c.json(
+      {
+        error: "Failed to get service revisions",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function getServiceRevisionHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const serviceName = c.req.param("name");
+  const revision = parseRevision(c.req.param("revision"));
+
+  if (revision === null) {
+    return c.json({ error: "Invalid revision" }, 400);
+  }
+
+  try {
+    const serviceRevision = await getServiceRevision(dbContext, serviceName, revision);
+    if (!serviceRevision) {
+      return c.json({ error: "Revision not found" }, 404);
+    }
+    return c.json(serviceRevision);
+  } catch (error) {
+    console.error("Get service revision error:", error);
+    return c.json(
+      {
+        error: "Failed to get service revision",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function deployServiceRevisionHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const serviceName = c.req.param("name");
+  const revision = parseRevision(c.req.param("revision"));
+
+  if (revision === null) {
+    return c.json({ error: "Invalid revision" }, 400);
+  }
+
+  try {
+    if (!(await getServiceRevision(dbContext, serviceName, revision))) {
+      return c.json({ error: "Revision not found" }, 404);
+    }
+    const running = runningRevision(c, serviceName);
+    await deployServiceRevision(dbContext, serviceName, revision);
+    const failed = await cutoverService(c, serviceName, running);
+    if (failed) return failed;
+    return c.json({
+      message: "Service revision deployed successfully",
+      deployed_revision: revision,
+    });
+  } catch (error) {
+    console.error("Deploy service revision error:", error);
+    return c.json(
+      {
+        error: "Failed to deploy service revision",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function deployLatestServiceHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const serviceName = c.req.param("name");
+
+  try {
+    const service = await getService(dbContext, serviceName);
+    if (!service) {
+      return c.json({ error: "Service not found" }, 404);
+    }
+    const running = runningRevision(c, serviceName);
+    await deployServiceRevision(dbContext, serviceName, null);
+    const failed = await cutoverService(c, serviceName, running);
+    if (failed) return failed;
+    return c.json({
+      message: "Latest service revision deployed successfully",
+      deployed_revision: service.revision,
+    });
+  } catch (error) {
+    console.error("Deploy service error:", error);
+    return c.json(
+      {
+        error: "Failed to deploy service",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function rollbackServiceHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const serviceName = c.req.param("name");
+  const revision = parseRevision(c.req.param("revision"));
+
+  if (revision === null) {
+    return c.json({ error: "Invalid revision" }, 400);
+  }
+
+  try {
+    if (!(await getServiceRevision(dbContext, serviceName, revision))) {
+      return c.json({ error: "Revision not found" }, 404);
+    }
+    const running = runningRevision(c, serviceName);
+    const service = await rollbackService(dbContext, serviceName, revision);
+    const failed = await cutoverService(c, serviceName, running);
+    if (failed) return failed;
+    return c.json({
+      message: "Service rolled back successfully",
+      rolled_back_to: revision,
+      current_revision: service.revision,
+    });
+  } catch (error) {
+    console.error("Rollback service error:", error);
+    return c.json(
+      {
+        error: "Failed to roll back service",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+// The revision a service serves in this process, undefined when it is not running
+function runningRevision(c: Context, serviceName: string): number | undefined {
+  return c.get("serviceManager")?.services.get(serviceName)?.revision;
+}
+
+// Starts the newly deployed revision of a running service. When it does not become healthy the
+// running revision stays deployed and the caller gets a 502.
+async function cutoverService(
+  c: Context,
+  serviceName: string,
+  running: number | undefined,
+): Promise<Response | null> {
+  const state = c.get("serviceManager");
+  if (!state || running === undefined) return null;
+
+  try {
+    await applyDeployedRevision(state, serviceName);
+    return null;
+  } catch (error) {
+    console.error(`Failed to deploy service ${serviceName}:`, error);
+    await deployServiceRevision(c.get("dbContext"), serviceName, running);
+    return c.json(
+      {
+        error: "Service revision did not start",
+        message: error instanceof Error ? error.message : String(error),
+        serving_revision: running,
+      },
+      502,
+    );
+  }
+}
+
+// Config handlers, secrets can be written but are never read back
+const REDACTED = "[redacted]";
+
+function redactConfigValue(key: string, value: unknown): unknown {
+  return SECRET_CONFIG_KEYS.includes(key) && value !== undefined ? REDACTED : value;
+}
+
 function getAllConfigHandler(c: Context): Response {
   const dbContext = c.get("dbContext");
 
@@ -196,7 +415,13 @@ function getAllConfigHandler(c: Context): Response {
     if (!dbContext.config) {
       return c.json({ error: "Config not loaded" }, 500);
     }
-    return c.json(dbContext.config);
+    return c.json(
+      Object.fromEntries(
+        Object.entries(dbContext.config).map((
+          [key, value],
+        ) => [key, redactConfigValue(key, value)]),
+      ),
+    );
   } catch (error) {
     console.error("Get all config error:", error);
     return c.json(
@@ -225,7 +450,7 @@ function getConfigHandler(c: Context): Response {
       return c.json({ error: "Config key not found" }, 404);
     }
 
-    return c.json({ key: configKey, value });
+    return c.json({ key: configKey, value: redactConfigValue(configKey, value) });
   } catch (error) {
     console.error("Get config error:", error);
     return c.json(
@@ -241,6 +466,11 @@ function getConfigHandler(c: Context): Response {
 async function updateConfigHandler(c: Context): Promise<Response> {
   const dbContext = c.get("dbContext");
   const configKey = c.req.param("key");
+  if (
+    SECRET_CONFIG_KEYS.includes(configKey) && !hasScope(c.get("jwtPayload")?.scope, "full")
+  ) {
+    return c.json({ error: "Forbidden", message: "Token lacks the full scope" }, 403);
+  }
 
   try {
     const body = await c.req.json();
@@ -251,6 +481,10 @@ async function updateConfigHandler(c: Context): Promise<Response> {
     }
 
     await updateConfig(dbContext, configKey, String(value));
+    if (configKey === "jwt_secret") {
+      // a new secret becomes the signing key, tokens signed with the old one stay valid for the grace period
+      await rotateJWTKey(dbContext, { secret: String(value) });
+    }
     return c.json({ message: "Config updated successfully" });
   } catch (error) {
     console.error("Update config error:", error);
@@ -1,18 +1,24 @@
 import type { Context } from "hono";
 import { Hono } from "hono";
 import {
+  CATCH_UP_POLICIES,
   createTask,
   deleteTask,
   getAllTasks,
   getTaskById,
   getTasksByName,
+  RETRY_STRATEGIES,
   type TaskConfig,
   updateTask,
 } from "../tables/tasks.ts";
 import type { FunctionConfig } from "../tables/functions.ts";
+import { validateFunctionAuth } from "./api.function.ts";
+import { isValidTimezone, parseCron } from "../../src/cron.ts";
 import { Kysely } from "kysely";
 import { Next } from "hono";
 import { QueueBase } from "../task_tables/queue.ts";
+import type { DatabaseContext } from "../config.ts";
+import { checkWebhookTarget } from "../../src/managers/webhook-manager.ts";
 
 // Middleware to inject database context
 export function queueBaseMiddleware(queueBase: Kysely<QueueBase>) {
@@ -22,6 +28,79 @@ export function queueBaseMiddleware(queueBase: Kysely<QueueBase>) {
   };
 }
 
+// Returns an error message for an invalid cron expression, timezone or catch-up policy
+function validateTaskSchedule(
+  cron: unknown,
+  timezone: unknown,
+  catchUp: unknown,
+): string | null {
+  if (cron !== undefined && cron !== null && cron !== "") {
+    if (typeof cron !== "string") return "cron must be a string";
+    try {
+      parseCron(cron);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+  if (timezone !== undefined && timezone !== null && timezone !== "") {
+    if (typeof timezone !== "string" || !isValidTimezone(timezone)) {
+      return `Unknown timezone: ${timezone}`;
+    }
+  }
+  if (catchUp !== undefined && !(CATCH_UP_POLICIES as readonly unknown[]).includes(catchUp)) {
+    return `catch_up must be one of ${CATCH_UP_POLICIES.join(", ")}`;
+  }
+  return null;
+}
+
+// Returns an error message unless the value is null or a positive integer
+function validatePositiveInteger(value: unknown, field: string): string | null {
+  if (value === undefined || value === null) return null;
+  return Number.isInteger(value) && (value as number) > 0
+    ? null
+    : `${field} must be a positive integer or null`;
+}
+
+function validateRetryStrategy(strategy: unknown): string | null {
+  if (strategy === undefined || (RETRY_STRATEGIES as readonly unknown[]).includes(strategy)) {
+    return null;
+  }
+  return `retry_strategy must be one of ${RETRY_STRATEGIES.join(", ")}`;
+}
+
+// Returns an error message unless the value is null or an http(s) URL
+export function validateWebhookUrl(value: unknown, field: string): string | null {
+  if (value === undefined || value === null || value === "") return null;
+  try {
+    const url = new URL(value as string);
+    if (url.protocol === "http:" || url.protocol === "https:") return null;
+  } catch {
+    // not a URL
+  }
+  return `${field} must be an http or https URL`;
+}
+
+// Returns an error message when a webhook URL points to a private address, see checkWebhookTarget
+export async function validateWebhookTarget(
+  dbContext: DatabaseContext,
+  value: unknown,
+  field: string,
+): Promise<string | null> {
+  if (value === undefined || value === null || value === "") return null;
+  const refused = await checkWebhookTarget(dbContext, value as string);
+  return refused ? `${field} is refused, ${refused}` : null;
+}
+
+// Returns an error message for invalid access control, schedule, limit, retry or webhook fields
+export function validateTaskFields(task: Record<string, unknown>): string | null {
+  return validateFunctionAuth(task.auth, task.auth_scope) ??
+    validateTaskSchedule(task.cron, task.timezone, task.catch_up) ??
+    validatePositiveInteger(task.concurrency_count, "concurrency_count") ??
+    validateRetryStrategy(task.retry_strategy) ??
+    validatePositiveInteger(task.retry_max_delay, "retry_max_delay") ??
+    validateWebhookUrl(task.webhook_url, "webhook_url");
+}
+
 // Setup task API routes
 export function setupTaskAPIRoutes() {
   const app = new Hono();
@@ -93,10 +172,21 @@ async function createTaskHandler(c: Context): Promise<Response> {
       name,
       retry_count = 0,
       retry_delay = 1000,
+      retry_strategy,
+      retry_max_delay,
+      concurrency_count,
+      cron,
+      timezone,
+      default_params,
+      catch_up,
+      webhook_url,
       // Function configuration
       code,
       permissions = {},
       description,
+      timeout,
+      auth,
+      auth_scope,
     } = body;
 
     if (!name) {
@@ -107,14 +197,31 @@ async function createTaskHandler(c: Context): Promise<Response> {
       return c.json({ error: "Function code is required" }, 400);
     }
 
+    const validationError = validateTaskFields(body) ??
+      await validateWebhookTarget(dbContext, webhook_url, "webhook_url");
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
     const task = await createTask(dbContext, {
       name,
       retry_count,
       retry_delay,
+      retry_strategy,
+      retry_max_delay,
+      concurrency_count,
+      cron,
+      timezone,
+      default_params: default_params !== undefined ? JSON.stringify(default_params) : undefined,
+      catch_up,
+      webhook_url,
       // Function configuration
       code,
       permissions,
       description,
+      timeout,
+      auth,
+      auth_scope,
     });
 
     return c.json({ message: "Task created successfully", task }, 201);
@@ -140,23 +247,59 @@ async function updateTaskHandler(c: Context): Promise<Response> {
       name,
       retry_count,
       retry_delay,
+      retry_strategy,
+      retry_max_delay,
+      concurrency_count,
+      cron,
+      timezone,
+      default_params,
+      catch_up,
+      webhook_url,
       // Function updates
       code,
       permissions,
       description,
+      timeout,
+      auth,
+      auth_scope,
     } = body;
 
+    const validationError = validateFunctionAuth(auth, auth_scope) ??
+      validateTaskSchedule(cron, timezone, catch_up) ??
+      validatePositiveInteger(concurrency_count, "concurrency_count") ??
+      validateRetryStrategy(retry_strategy) ??
+      validatePositiveInteger(retry_max_delay, "retry_max_delay") ??
+      validateWebhookUrl(webhook_url, "webhook_url") ??
+      await validateWebhookTarget(dbContext, webhook_url, "webhook_url");
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
     // Prepare task updates
     const taskUpdates: Partial<TaskConfig> = {};
     if (name !== undefined) taskUpdates.name = name;
     if (retry_count !== undefined) taskUpdates.retry_count = retry_count;
     if (retry_delay !== undefined) taskUpdates.retry_delay = retry_delay;
+    if (retry_strategy !== undefined) taskUpdates.retry_strategy = retry_strategy;
+    if (retry_max_delay !== undefined) taskUpdates.retry_max_delay = retry_max_delay;
+    if (concurrency_count !== undefined) taskUpdates.concurrency_count = concurrency_count;
+    // null or an empty string removes the schedule
+    if (cron !== undefined) taskUpdates.cron = cron ?? "";
+    if (timezone !== undefined) taskUpdates.timezone = timezone ?? "";
+    if (default_params !== undefined) {
+      taskUpdates.default_params = default_params === null ? "" : JSON.stringify(default_params);
+    }
+    if (catch_up !== undefined) taskUpdates.catch_up = catch_up;
+    if (webhook_url !== undefined) taskUpdates.webhook_url = webhook_url ?? "";
 
     // Prepare function updates
     const functionUpdates: Partial<FunctionConfig> = {};
     if (code !== undefined) functionUpdates.code = code;
     if (permissions !== undefined) functionUpdates.permissions = permissions;
     if (description !== undefined) functionUpdates.description = description;
+    if (timeout !== undefined) functionUpdates.timeout = timeout;
+    if (auth !== undefined) functionUpdates.auth = auth;
+    if (auth_scope !== undefined) functionUpdates.auth_scope = auth_scope ?? "";
 
     const updatedTask = await updateTask(
       dbContext,
@@ -0,0 +1,197 @@
+import type { Context } from "hono";
+import { Hono } from "hono";
+import {
+  createWorkflow,
+  deleteWorkflow,
+  getAllWorkflows,
+  getWorkflowById,
+  updateWorkflow,
+  type WorkflowConfig,
+  type WorkflowStep,
+} from "../tables/workflows.ts";
+import { getTaskById } from "../tables/tasks.ts";
+import { DatabaseContext } from "../config.ts";
+
+// Returns an error message unless the steps form a DAG of existing tasks
+export async function validateWorkflowSteps(
+  context: DatabaseContext,
+  steps: unknown,
+): Promise<string | null> {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return "steps must be a non-empty array";
+  }
+  const ids = new Set<string>();
+  for (const step of steps as WorkflowStep[]) {
+    if (typeof step?.id !== "string" || !step.id) return "Every step needs a string id";
+    if (ids.has(step.id)) return `Duplicate step id: ${step.id}`;
+    ids.add(step.id);
+    if (typeof step.task_id !== "string") return `Step ${step.id} needs a task_id`;
+    if (step.for_each !== undefined && typeof step.for_each !== "boolean") {
+      return `for_each of step ${step.id} must be a boolean`;
+    }
+    if (
+      step.depends_on !== undefined &&
+      (!Array.isArray(step.depends_on) || step.depends_on.some((id) => typeof id !== "string"))
+    ) {
+      return `depends_on of step ${step.id} must be an array of step ids`;
+    }
+  }
+  for (const step of steps as WorkflowStep[]) {
+    const unknown = step.depends_on?.find((id) => !ids.has(id));
+    if (unknown !== undefined) return `Step ${step.id} depends on unknown step ${unknown}`;
+  }
+
+  // steps are removed once all their dependencies are, whatever remains is part of a cycle
+  const remaining = new Map((steps as WorkflowStep[]).map((step) => [step.id, step]));
+  let removed = true;
+  while (removed) {
+    removed = false;
+    for (const [id, step] of remaining) {
+      if (!step.depends_on?.some((dependency) => remaining.has(dependency))) {
+        remaining.delete(id);
+        removed = true;
+      }
+    }
+  }
+  if (remaining.size > 0) {
+    return `Steps ${[...remaining.keys()].join(", ")} form a cycle`;
+  }
+
+  for (const taskId of new Set((steps as WorkflowStep[]).map((step) => step.task_id))) {
+    if (!await getTaskById(context, taskId)) return `Task ${taskId} not found`;
+  }
+  return null;
+}
+
+// Setup workflow API routes
+export function setupWorkflowAPIRoutes() {
+  const app = new Hono();
+
+  app.get("/", getAllWorkflowsHandler);
+  app.post("/", createWorkflowHandler);
+  app.get("/:id", getWorkflowHandler);
+  app.put("/:id", updateWorkflowHandler);
+  app.delete("/:id", deleteWorkflowHandler);
+  return app;
+}
+
+async function getAllWorkflowsHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+
+  try {
+    return c.json({ workflows: await getAllWorkflows(dbContext) });
+  } catch (error) {
+    console.error("Get workflows error:", error);
+    return c.json(
+      {
+        error: "Failed to get workflows",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function getWorkflowHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+
+  try {
+    const workflow = await getWorkflowById(dbContext, c.req.param("id"));
+    if (!workflow) {
+      return c.json({ error: "Workflow not found" }, 404);
+    }
+    return c.json(workflow);
+  } catch (error) {
+    console.error("Get workflow error:", error);
+    return c.json(
+      {
+        error: "Failed to get workflow",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function createWorkflowHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+
+  try {
+    const { name, description, steps, enabled } = await c.req.json();
+    if (!name) {
+      return c.json({ error: "Name is required" }, 400);
+    }
+    const validationError = await validateWorkflowSteps(dbContext, steps);
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
+    const workflow = await createWorkflow(dbContext, { name, description, steps, enabled });
+    return c.json({ message: "Workflow created successfully", workflow }, 201);
+  } catch (error) {
+    console.error("Create workflow error:", error);
+    return c.json(
+      {
+        error: "Failed to create workflow",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function updateWorkflowHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const id = c.req.param("id");
+
+  try {
+    const { name, description, steps, enabled } = await c.req.json();
+    if (steps !== undefined) {
+      const validationError = await validateWorkflowSteps(dbContext, steps);
+      if (validationError) {
+        return c.json({ error: validationError }, 400);
+      }
+    }
+    if (!await getWorkflowById(dbContext, id)) {
+      return c.json({ error: "Workflow not found" }, 404);
+    }
+
+    const updates: Partial<WorkflowConfig> = {};
+    if (name !== undefined) updates.name = name;
+    if (description !== undefined) updates.description = description ?? "";
+    if (steps !== undefined) updates.steps = steps;
+    if (enabled !== undefined) updates.enabled = enabled;
+
+    const workflow = await updateWorkflow(dbContext, id, updates);
+    return c.json({ message: "Workflow updated successfully", workflow });
+  } catch (error) {
+    console.error("Update workflow error:", error);
+    return c.json(
+      {
+        error: "Failed to update workflow",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+async function deleteWorkflowHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+
+  try {
+    await deleteWorkflow(dbContext, c.req.param("id"));
+    return c.json({ message: "Workflow deleted successfully" });
+  } catch (error) {
+    console.error("Delete workflow error:", error);
+    return c.json(
+      {
+        error: "Failed to delete workflow",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+export type AppType = ReturnType<typeof setupWorkflowAPIRoutes>;
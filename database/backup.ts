@@ -0,0 +1,336 @@
+import JSZip from "jszip";
+import type { DatabaseContext } from "./config.ts";
+import type { Database } from "./tables/index.ts";
+import { readBoolean } from "./storage.ts";
+import { drainFunctionPools } from "../src/managers/function-manager.ts";
+import { ServiceManagerState, stopAllServices } from "../src/managers/service-manager.ts";
+
+// Static files of services and functions, one directory per name
+export const STATIC_ROOT = new URL("../static/", import.meta.url);
+
+export const BACKUP_FORMAT = "nanoedge-backup";
+export const BACKUP_VERSION = 1;
+
+// Tables in an archive, in the order they are imported. Ports are allocated again on start,
+// the queue database holds runs rather than state and is not backed up.
+const BACKUP_TABLES: BackupTable[] = [
+  { table: "config", key: ["key"] },
+  { table: "services", key: ["name"], generatedId: true, booleans: ["enabled", "jwt_check"] },
+  {
+    table: "service_revisions",
+    key: ["service_name", "revision"],
+    generatedId: true,
+    parent: { table: "services", column: "service_name" },
+  },
+  { table: "functions", key: ["name"], generatedId: true, booleans: ["enabled"] },
+  {
+    table: "function_revisions",
+    key: ["function_name", "revision"],
+    generatedId: true,
+    parent: { table: "functions", column: "function_name" },
+  },
+  { table: "tasks", key: ["id"] },
+  { table: "workflows", key: ["id"], booleans: ["enabled"] },
+  { table: "jwt_keys", key: ["kid"], generatedId: true },
+  { table: "api_keys", key: ["name"], generatedId: true },
+];
+
+type BackupTableName = Exclude<keyof Database, "ports">;
+
+interface BackupTable {
+  table: BackupTableName;
+  key: string[]; // Columns a row is matched on when merging
+  generatedId?: boolean; // The integer id is assigned again on import
+  booleans?: string[]; // Exported as true and false whatever the storage
+  // Rows belong to the parent row whose key is this column, they are skipped with it
+  parent?: { table: BackupTableName; column: string };
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  created_at: string;
+  tables: Record<string, number>; // Rows per table
+  static: string[]; // Static directories
+}
+
+export type ImportMode = "merge" | "replace";
+export const IMPORT_MODES: ImportMode[] = ["merge", "replace"];
+
+export interface ImportOptions {
+  mode?: ImportMode; // merge keeps existing rows on conflict, replace clears the tables first
+  dry_run?: boolean; // Only report what would be imported
+  services?: ServiceManagerState; // Running services, a replace stops them
+}
+
+export interface ImportTableReport {
+  inserted: number;
+  skipped: number;
+  conflicts: string[]; // Keys of rows that already exist
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  dry_run: boolean;
+  created_at: string; // When the archive was exported
+  tables: Record<string, ImportTableReport>;
+  static: { written: string[]; skipped: string[] };
+}
+
+// Rows are passed through as they are
+type Row = Record<string, unknown>;
+
+async function* walkFiles(dir: URL, prefix = ""): AsyncGenerator<string> {
+  for await (const entry of Deno.readDir(dir)) {
+    const path = `${prefix}${entry.name}`;
+    if (entry.isDirectory) {
+      yield* walkFiles(new URL(`${entry.name}/`, dir), `${path}/`);
+    } else if (entry.isFile) {
+      yield path;
+    }
+  }
+}
+
+async function listStaticDirs(staticRoot: URL): Promise<string[]> {
+  const names: string[] = [];
+  try {
+    for await (const entry of Deno.readDir(staticRoot)) {
+      if (entry.isDirectory && isStaticName(entry.name)) names.push(entry.name);
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  return names.sort();
+}
+
+// Static directories are named after a service or function, file paths are relative to them
+const STATIC_NAME = /^[A-Za-z0-9._-]+$/;
+
+function isStaticName(name: string): boolean {
+  return STATIC_NAME.test(name) && name !== "." && name !== "..";
+}
+
+function isStaticPathSegment(segment: string): boolean {
+  return segment !== "" && segment !== "." && segment !== ".." && !/[%\\:]/.test(segment);
+}
+
+// Resolves a path below a directory, throws when it would leave it
+function resolveInside(dir: URL, path: string): URL {
+  const url = new URL(path, dir);
+  if (!url.href.startsWith(dir.href) || url.href === dir.href) {
+    throw new Error(`Static path ${path} leaves ${dir.pathname}`);
+  }
+  return url;
+}
+
+function rowKey(spec: BackupTable, row: Row): string {
+  return spec.key.map((column) => String(row[column])).join("@");
+}
+
+// Exports the rows of every backed-up table and the static directories as one zip
+export async function exportArchive(
+  context: DatabaseContext,
+  staticRoot: URL = STATIC_ROOT,
+): Promise<Uint8Array> {
+  const db = context.dbInstance;
+  const zip = new JSZip();
+  const tables: Record<string, number> = {};
+
+  for (const spec of BACKUP_TABLES) {
+    const rows: Row[] = await db.selectFrom(spec.table).selectAll().execute();
+    for (const row of rows) {
+      if (spec.generatedId) delete row.id;
+      for (const column of spec.booleans ?? []) {
+        row[column] = readBoolean(row[column]);
+      }
+    }
+    if (spec.table === "services") {
+      for (const row of rows) row.port = null;
+    }
+    zip.file(`tables/${spec.table}.json`, JSON.stringify(rows, null, 2));
+    tables[spec.table] = rows.length;
+  }
+
+  const staticDirs = await listStaticDirs(staticRoot);
+  for (const name of staticDirs) {
+    const dir = new URL(`${name}/`, staticRoot);
+    for await (const path of walkFiles(dir)) {
+      zip.file(`static/${name}/${path}`, await Deno.readFile(new URL(path, dir)));
+    }
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    created_at: new Date().toISOString(),
+    tables,
+    static: staticDirs,
+  };
+  zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+  return await zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+}
+
+// Reads and validates an archive, throws when it is not one
+export async function readArchive(data: Uint8Array) {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error("Archive is not a zip file");
+  }
+  const manifestFile = zip.file("manifest.json");
+  if (!manifestFile) {
+    throw new Error("Archive has no manifest.json");
+  }
+  const manifest = JSON.parse(await manifestFile.async("string")) as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT) {
+    throw new Error(`Archive format is not ${BACKUP_FORMAT}`);
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error(`Archive version ${manifest.version} is newer than ${BACKUP_VERSION}`);
+  }
+
+  const tables = {} as Record<BackupTableName, Row[]>;
+  for (const spec of BACKUP_TABLES) {
+    const file = zip.file(`tables/${spec.table}.json`);
+    tables[spec.table] = file ? JSON.parse(await file.async("string")) : [];
+  }
+
+  // static/<name>/<path>, names and paths must not leave the static root. JSZip normalizes
+  // the names it loads, the original one is checked as well.
+  const staticFiles = new Map<string, Map<string, JSZip.JSZipObject>>();
+  for (const [path, entry] of Object.entries(zip.files)) {
+    const original = entry.unsafeOriginalName ?? path;
+    if (!path.startsWith("static/") && !original.startsWith("static/")) continue;
+    if (original !== path) {
+      throw new Error(`Archive contains an invalid static path: ${original}`);
+    }
+    if (entry.dir) continue;
+    const [name, ...rest] = path.slice("static/".length).split("/");
+    if (!isStaticName(name) || rest.length === 0 || !rest.every(isStaticPathSegment)) {
+      throw new Error(`Archive contains an invalid static path: ${path}`);
+    }
+    if (!staticFiles.has(name)) staticFiles.set(name, new Map());
+    staticFiles.get(name)!.set(rest.join("/"), entry);
+  }
+
+  return { manifest, tables, staticFiles };
+}
+
+// Replaces a static directory with the files of the archive
+async function writeStaticDir(
+  staticRoot: URL,
+  name: string,
+  files: Map<string, JSZip.JSZipObject>,
+) {
+  const dir = resolveInside(staticRoot, `${name}/`);
+  const targets = [...files].map(([path, entry]) => [resolveInside(dir, path), entry] as const);
+  await Deno.remove(dir, { recursive: true }).catch((error) => {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  });
+  for (const [file, entry] of targets) {
+    await Deno.mkdir(new URL("./", file), { recursive: true });
+    await Deno.writeFile(file, await entry.async("uint8array"));
+  }
+}
+
+// Imports an archive of exportArchive. Merging keeps the existing rows and static directories
+// of the same key and reports them as conflicts, replacing clears the tables first and
+// overwrites the static directories in the archive.
+export async function importArchive(
+  context: DatabaseContext,
+  data: Uint8Array,
+  options: ImportOptions = {},
+  staticRoot: URL = STATIC_ROOT,
+): Promise<ImportReport> {
+  const mode = options.mode ?? "merge";
+  const dryRun = options.dry_run ?? false;
+  const { manifest, tables, staticFiles } = await readArchive(data);
+  const report: ImportReport = {
+    mode,
+    dry_run: dryRun,
+    created_at: manifest.created_at,
+    tables: {},
+    static: { written: [], skipped: [] },
+  };
+
+  const existingDirs = new Set(await listStaticDirs(staticRoot));
+  for (const name of [...staticFiles.keys()].sort()) {
+    if (mode === "merge" && existingDirs.has(name)) {
+      report.static.skipped.push(name);
+    } else {
+      report.static.written.push(name);
+    }
+  }
+
+  if (mode === "replace" && !dryRun && options.services) {
+    // their ports are freed, they start on the imported revisions with their next request
+    await stopAllServices(options.services);
+  }
+
+  const trx = await context.dbInstance.startTransaction().execute();
+  try {
+    if (mode === "replace") {
+      // children first
+      for (const spec of [...BACKUP_TABLES].reverse()) {
+        await trx.deleteFrom(spec.table).execute();
+      }
+      await trx
+        .updateTable("ports")
+        .set({ service_name: null, allocated_at: null, released_at: new Date().toISOString() })
+        .where("service_name", "is not", null)
+        .execute();
+    }
+
+    // keys of the rows kept instead of the archive's, per table
+    const skipped = new Map<BackupTableName, Set<string>>();
+    for (const spec of BACKUP_TABLES) {
+      const existing = new Set(
+        (await trx.selectFrom(spec.table).selectAll().execute()).map((row: Row) =>
+          rowKey(spec, row)
+        ),
+      );
+      skipped.set(spec.table, new Set());
+      const tableReport: ImportTableReport = { inserted: 0, skipped: 0, conflicts: [] };
+      for (const row of tables[spec.table]) {
+        if (spec.generatedId) delete row.id;
+        const key = rowKey(spec, row);
+        // the history of a kept row stays its own
+        if (spec.parent && skipped.get(spec.parent.table)!.has(String(row[spec.parent.column]))) {
+          tableReport.skipped++;
+          continue;
+        }
+        if (existing.has(key)) {
+          skipped.get(spec.table)!.add(key);
+          tableReport.skipped++;
+          tableReport.conflicts.push(key);
+          continue;
+        }
+        if (!dryRun) {
+          await trx.insertInto(spec.table).values(row).execute();
+        }
+        existing.add(key);
+        tableReport.inserted++;
+      }
+      report.tables[spec.table] = tableReport;
+    }
+
+    if (dryRun) {
+      await trx.rollback().execute();
+      return report;
+    }
+    await trx.commit().execute();
+  } catch (error) {
+    await trx.rollback().execute();
+    throw error;
+  }
+
+  for (const name of report.static.written) {
+    await writeStaticDir(staticRoot, name, staticFiles.get(name)!);
+  }
+
+  // Invalidate cache, warm workers may run code that was replaced
+  context.config = null;
+  drainFunctionPools(context);
+  return report;
+}
@@ -4,9 +4,21 @@ import type { Database } from "./tables/index.ts";
 export interface Config {
   available_port_start: number;
   available_port_end: number;
-  jwt_secret?: string;
+  jwt_secret?: string; // Seeds the first JWT signing key
+  jwt_key_grace_period?: number; // Rotated JWT keys keep verifying tokens for this many ms
+  jwt_create_enabled?: boolean; // Serves /jwt/create to localhost, turn off in production
+  trusted_proxies?: string; // Comma separated CIDRs whose forwarded headers are honored
   main_port?: number;
   function_execution_timeout?: number; // Timeout in milliseconds for function execution
+  function_pool_size?: number; // Idle warm workers kept per function, not a concurrency limit
+  function_pool_idle_timeout?: number; // Idle warm workers are terminated after this many ms
+  function_pool_max_invocations?: number; // Workers are recycled after this many calls
+  queue_max_concurrency?: number; // Queue items the executor runs at once across all tasks
+  queue_result_max_size?: number; // Larger results of queue items are not stored, in bytes
+  queue_result_ttl?: number; // Results of queue items are cleared after this many ms, 0 keeps them
+  webhook_secret?: string; // Signs webhook deliveries
+  webhook_allowed_hosts?: string; // Comma separated hosts webhooks may reach on private addresses
+  webhook_max_attempts?: number; // Webhook deliveries fail after this many attempts
 }
 
 export interface DatabaseContext {
@@ -37,7 +49,32 @@ export async function loadConfig(dbInstance: Kysely<Database>): Promise<Config>
     available_port_start: parseInt(configMap.get("available_port_start") as string || "8001"),
     available_port_end: parseInt(configMap.get("available_port_end") as string || "8999"),
     main_port: parseInt(configMap.get("main_port") as string || "8000"),
-    jwt_secret: configMap.get("jwt_secret") as string || "default-secret-change-me",
+    jwt_secret: configMap.get("jwt_secret") as string | undefined,
+    jwt_key_grace_period: parseInt(
+      configMap.get("jwt_key_grace_period") as string || "86400000",
+    ),
+    jwt_create_enabled: !["false", "0"].includes(
+      String(configMap.get("jwt_create_enabled") ?? "true").toLowerCase(),
+    ),
+    trusted_proxies: configMap.get("trusted_proxies") as string || "",
+    function_execution_timeout: parseInt(
+      configMap.get("function_execution_timeout") as string || "30000",
+    ),
+    function_pool_size: parseInt(configMap.get("function_pool_size") as string || "4"),
+    function_pool_idle_timeout: parseInt(
+      configMap.get("function_pool_idle_timeout") as string || "60000",
+    ),
+    function_pool_max_invocations: parseInt(
+      configMap.get("function_pool_max_invocations") as string || "100",
+    ),
+    queue_max_concurrency: parseInt(configMap.get("queue_max_concurrency") as string || "10"),
+    queue_result_max_size: parseInt(
+      configMap.get("queue_result_max_size") as string || "1048576",
+    ),
+    queue_result_ttl: parseInt(configMap.get("queue_result_ttl") as string || "0"),
+    webhook_secret: configMap.get("webhook_secret") as string | undefined,
+    webhook_allowed_hosts: configMap.get("webhook_allowed_hosts") as string || "",
+    webhook_max_attempts: parseInt(configMap.get("webhook_max_attempts") as string || "5"),
   };
 
   return config;
@@ -9,16 +9,27 @@ import {
   Kysely,
   QueryCompiler,
   QueryResult,
+  SqliteIntrospector,
   SqliteQueryCompiler,
 } from "kysely";
 
-import { Database as Sqlite } from "jsr:@db/sqlite";
-import { safeSleep } from "../src/utils.ts";
+import { Database as Sqlite, Statement } from "jsr:@db/sqlite";
+
+const DEFAULT_READERS = 4;
+const DEFAULT_BUSY_TIMEOUT = 5000; // other processes hold the write lock for at most this long
+const DEFAULT_STATEMENT_CACHE_SIZE = 100; // prepared statements kept per connection
+
+export interface DenoSqliteDialectConfig {
+  path: string;
+  readers?: number; // read-only connections, in-memory databases have none
+  busy_timeout?: number; // in milliseconds
+  statement_cache_size?: number;
+}
 
 export class DenoSqliteDialect implements Dialect {
-  readonly #config: Sqlite;
+  readonly #config: DenoSqliteDialectConfig;
 
-  constructor(config: Sqlite) {
+  constructor(config: DenoSqliteDialectConfig) {
     this.#config = config;
   }
 
@@ -35,8 +46,8 @@ export class DenoSqliteDialect implements Dialect {
   }
 
   // deno-lint-ignore no-explicit-any
-  createIntrospector(_db: Kysely<any>): DatabaseIntrospector {
-    throw new Error("SqliteIntrospector is not supported in Deno Kysely adapter");
+  createIntrospector(db: Kysely<any>): DatabaseIntrospector {
+    return new SqliteIntrospector(db);
   }
 }
 
@@ -53,69 +64,272 @@ class SqliteAdapter extends DialectAdapterBase {
   override async releaseMigrationLock(): Promise<void> {}
 }
 
-class SqliteDriver implements Driver {
+// Hands the writer to one transaction or write at a time, in the order they asked for it
+class ConnectionMutex {
+  #promise?: Promise<void>;
+  #resolve?: () => void;
+
+  async lock(): Promise<void> {
+    while (this.#promise) {
+      await this.#promise;
+    }
+    this.#promise = new Promise((resolve) => {
+      this.#resolve = resolve;
+    });
+  }
+
+  unlock(): void {
+    const resolve = this.#resolve;
+    this.#promise = undefined;
+    this.#resolve = undefined;
+    resolve?.();
+  }
+}
+
+// One SQLite connection with a least recently used cache of its prepared statements
+class SqliteConnection {
   readonly #db: Sqlite;
-  #locked = false;
+  readonly #statements = new Map<string, Statement>();
+  readonly #cacheSize: number;
 
-  constructor(config: Sqlite) {
-    this.#db = config;
+  constructor(db: Sqlite, cacheSize: number) {
+    this.#db = db;
+    this.#cacheSize = cacheSize;
   }
 
-  async init(): Promise<void> {}
+  prepare(sql: string): Statement {
+    let stmt = this.#statements.get(sql);
+    if (stmt) {
+      this.#statements.delete(sql);
+    } else {
+      stmt = this.#db.prepare(sql);
+      if (this.#statements.size >= this.#cacheSize) {
+        const [oldest, evicted] = this.#statements.entries().next().value!;
+        this.#statements.delete(oldest);
+        evicted.finalize();
+      }
+    }
+    this.#statements.set(sql, stmt);
+    return stmt;
+  }
 
-  async acquireConnection(): Promise<DatabaseConnection> {
-    while (this.#locked) {
-      await safeSleep(1);
+  exec(sql: string): void {
+    this.#db.exec(sql);
+  }
+
+  executeQuery<R>(stmt: Statement, parameters: readonly unknown[]): QueryResult<R> {
+    // deno-lint-ignore no-explicit-any
+    const rows = stmt.all(...(parameters as any[]));
+    const { changes, lastInsertRowId } = this.#db;
+
+    return {
+      rows: rows as R[],
+      numAffectedRows: BigInt(changes),
+      insertId: BigInt(lastInsertRowId),
+    };
+  }
+
+  // streamed statements are not cached, another query could reset them mid-iteration
+  *streamQuery<R>(sql: string, parameters: readonly unknown[]): Iterable<QueryResult<R>> {
+    // deno-lint-ignore no-explicit-any
+    const stmt = this.#db.prepare(sql).bind(...(parameters as any[]));
+    try {
+      for (const row of stmt) {
+        yield { rows: [row as R] };
+      }
+    } finally {
+      stmt.finalize();
     }
-    this.#locked = true;
-    return this;
   }
 
-  // deno-lint-ignore require-await
-  async beginTransaction(): Promise<void> {
-    this.#db.exec("BEGIN");
+  close(): void {
+    for (const stmt of this.#statements.values()) {
+      stmt.finalize();
+    }
+    this.#statements.clear();
+    this.#db.close();
+  }
+}
+
+// One writer and a pool of read-only connections. File databases run in WAL mode, so reads
+// see the last committed data without waiting for an open transaction. Transactions and writes
+// take the writer in turn, in-memory databases run everything on it.
+class SqliteDriver implements Driver {
+  readonly #config: DenoSqliteDialectConfig;
+  readonly #writeLock = new ConnectionMutex();
+  readonly #readers: SqliteConnection[] = [];
+  #writer?: SqliteConnection;
+  #nextReader = 0;
+
+  constructor(config: DenoSqliteDialectConfig) {
+    this.#config = config;
+  }
+
+  get #inMemory(): boolean {
+    return this.#config.path === ":memory:" || this.#config.path === "";
+  }
+
+  #open(readonly: boolean): SqliteConnection {
+    const db = new Sqlite(this.#config.path, { readonly });
+    db.exec(`PRAGMA busy_timeout = ${this.#config.busy_timeout ?? DEFAULT_BUSY_TIMEOUT}`);
+    return new SqliteConnection(
+      db,
+      this.#config.statement_cache_size ?? DEFAULT_STATEMENT_CACHE_SIZE,
+    );
   }
 
   // deno-lint-ignore require-await
-  async commitTransaction(): Promise<void> {
-    this.#db.exec("COMMIT");
+  async init(): Promise<void> {
+    // the writer creates the file the readers open
+    this.#writer = this.#open(false);
+    if (!this.#inMemory) {
+      this.#writer.exec("PRAGMA journal_mode = WAL");
+      this.#writer.exec("PRAGMA synchronous = NORMAL");
+    }
+  }
+
+  get writer(): SqliteConnection {
+    return this.#writer!;
+  }
+
+  // Readers are opened on first use, up to the configured number
+  #reader(): SqliteConnection | undefined {
+    const size = this.#inMemory ? 0 : this.#config.readers ?? DEFAULT_READERS;
+    if (size === 0) return undefined;
+    if (this.#readers.length < size) {
+      this.#readers.push(this.#open(true));
+      return this.#readers[this.#readers.length - 1];
+    }
+    this.#nextReader = (this.#nextReader + 1) % this.#readers.length;
+    return this.#readers[this.#nextReader];
+  }
+
+  lockWriter(): Promise<void> {
+    return this.#writeLock.lock();
+  }
+
+  unlockWriter(): void {
+    this.#writeLock.unlock();
+  }
+
+  // Read-only statements run on a reader, the others wait for the writer
+  async executeQuery<R>({ sql, parameters }: CompiledQuery): Promise<QueryResult<R>> {
+    const reader = this.#reader();
+    if (reader) {
+      let stmt: Statement | undefined;
+      try {
+        stmt = reader.prepare(sql);
+      } catch {
+        // the writer reports why the statement is invalid
+      }
+      if (stmt?.readonly) {
+        return reader.executeQuery(stmt, parameters);
+      }
+    }
+
+    await this.lockWriter();
+    try {
+      return this.writer.executeQuery(this.writer.prepare(sql), parameters);
+    } finally {
+      this.unlockWriter();
+    }
+  }
+
+  async *streamQuery<R>({ sql, parameters }: CompiledQuery): AsyncIterableIterator<QueryResult<R>> {
+    const reader = this.#reader();
+    if (reader) {
+      let readonly = false;
+      try {
+        readonly = reader.prepare(sql).readonly;
+      } catch {
+        // the writer reports why the statement is invalid
+      }
+      if (readonly) {
+        yield* reader.streamQuery<R>(sql, parameters);
+        return;
+      }
+    }
+
+    await this.lockWriter();
+    try {
+      yield* this.writer.streamQuery<R>(sql, parameters);
+    } finally {
+      this.unlockWriter();
+    }
   }
 
   // deno-lint-ignore require-await
-  async rollbackTransaction(): Promise<void> {
-    this.#db.exec("ROLLBACK");
+  async acquireConnection(): Promise<DatabaseConnection> {
+    return new PooledConnection(this);
+  }
+
+  async beginTransaction(connection: DatabaseConnection): Promise<void> {
+    await this.lockWriter();
+    try {
+      // takes the write lock up front instead of failing to upgrade a read lock
+      this.writer.exec("BEGIN IMMEDIATE");
+    } catch (error) {
+      this.unlockWriter();
+      throw error;
+    }
+    (connection as PooledConnection).inTransaction = true;
   }
 
   // deno-lint-ignore require-await
-  async releaseConnection(): Promise<void> {
-    this.#locked = false;
+  async commitTransaction(connection: DatabaseConnection): Promise<void> {
+    this.#endTransaction(connection, "COMMIT");
   }
 
   // deno-lint-ignore require-await
+  async rollbackTransaction(connection: DatabaseConnection): Promise<void> {
+    this.#endTransaction(connection, "ROLLBACK");
+  }
+
+  #endTransaction(connection: DatabaseConnection, statement: "COMMIT" | "ROLLBACK") {
+    try {
+      this.writer.exec(statement);
+    } finally {
+      (connection as PooledConnection).inTransaction = false;
+      this.unlockWriter();
+    }
+  }
+
+  async releaseConnection(): Promise<void> {}
+
   async destroy(): Promise<void> {
-    this.#db.close();
+    await this.lockWriter();
+    for (const reader of this.#readers.splice(0)) {
+      reader.close();
+    }
+    this.#writer?.close();
+    this.#writer = undefined;
   }
+}
 
-  // deno-lint-ignore require-await
-  async executeQuery<R>({ sql, parameters }: CompiledQuery): Promise<QueryResult<R>> {
-    // deno-lint-ignore no-explicit-any
-    const rows = this.#db.prepare(sql).all(...(parameters as any[]));
-    const { changes, lastInsertRowId } = this.#db;
+// What Kysely acquires per query or transaction. Queries of a transaction run on the writer
+// it holds, the others are routed by the driver.
+class PooledConnection implements DatabaseConnection {
+  readonly #driver: SqliteDriver;
+  inTransaction = false;
 
-    return {
-      rows: rows as R[],
-      numAffectedRows: BigInt(changes),
-      insertId: BigInt(lastInsertRowId),
-    };
+  constructor(driver: SqliteDriver) {
+    this.#driver = driver;
   }
 
-  async *streamQuery<R>({ sql, parameters }: CompiledQuery): AsyncIterableIterator<QueryResult<R>> {
-    // deno-lint-ignore no-explicit-any
-    const stmt = this.#db.prepare(sql).bind(parameters as any[]);
-    for (const row of stmt) {
-      yield {
-        rows: [row],
-      };
+  // deno-lint-ignore require-await
+  async executeQuery<R>(compiledQuery: CompiledQuery): Promise<QueryResult<R>> {
+    if (this.inTransaction) {
+      const writer = this.#driver.writer;
+      return writer.executeQuery(writer.prepare(compiledQuery.sql), compiledQuery.parameters);
+    }
+    return this.#driver.executeQuery(compiledQuery);
+  }
+
+  async *streamQuery<R>(compiledQuery: CompiledQuery): AsyncIterableIterator<QueryResult<R>> {
+    if (this.inTransaction) {
+      yield* this.#driver.writer.streamQuery<R>(compiledQuery.sql, compiledQuery.parameters);
+      return;
     }
+    yield* this.#driver.streamQuery<R>(compiledQuery);
   }
 }
@@ -0,0 +1,527 @@
+import type { DatabaseContext } from "./config.ts";
+import { updateConfig } from "./config.ts";
+import {
+  createService,
+  deleteService,
+  getAllServices,
+  getService,
+  ServiceConfig,
+  ServicePermissions,
+  updateService,
+} from "./tables/services.ts";
+import {
+  createFunction,
+  deleteFunction,
+  FunctionAuth,
+  FunctionConfig,
+  getAllFunctions,
+  updateFunction,
+} from "./tables/functions.ts";
+import {
+  CatchUpPolicy,
+  createTask,
+  deleteTask,
+  getAllTasks,
+  RetryStrategy,
+  TaskConfig,
+  updateTask,
+} from "./tables/tasks.ts";
+import { createAPIKey, deleteAPIKey, getAllAPIKeys } from "./tables/api_keys.ts";
+import { rotateJWTKey } from "./tables/jwt_keys.ts";
+import { validateFunctionAuth } from "./api/api.function.ts";
+import { validateTaskFields } from "./api/api.task.ts";
+import { isValidScope, parseScopes } from "../src/api/scopes.ts";
+
+// The desired state of a project. Sections a manifest leaves out are not managed, fields an
+// entry leaves out keep their current value, or get their default when the entry is created.
+export interface Manifest {
+  config?: Record<string, string | number | boolean>; // Never pruned
+  services?: ManifestService[];
+  functions?: ManifestFunction[];
+  tasks?: ManifestTask[]; // Matched by name
+  api_keys?: ManifestAPIKey[];
+}
+
+export interface ManifestService {
+  name: string;
+  code: string;
+  path?: string; // Read into code by `nanocli apply`, relative to the manifest
+  enabled?: boolean;
+  jwt_check?: boolean;
+  permissions?: Partial<ServicePermissions>;
+  schema?: string | Record<string, unknown>; // OpenAPI schema, objects are stored as JSON
+}
+
+export interface ManifestFunction {
+  name: string;
+  code: string;
+  path?: string; // Read into code by `nanocli apply`, relative to the manifest
+  enabled?: boolean;
+  permissions?: Partial<ServicePermissions>;
+  description?: string;
+  timeout?: number;
+  auth?: FunctionAuth;
+  auth_scope?: string;
+}
+
+export interface ManifestTask extends ManifestFunction {
+  retry_count?: number;
+  retry_delay?: number;
+  retry_strategy?: RetryStrategy;
+  retry_max_delay?: number | null;
+  concurrency_count?: number | null;
+  cron?: string | null;
+  timezone?: string | null;
+  default_params?: unknown;
+  catch_up?: CatchUpPolicy;
+  webhook_url?: string | null;
+}
+
+export interface ManifestAPIKey {
+  name: string;
+  scope: string;
+  expires_at?: string | null;
+}
+
+export const MANIFEST_SECTIONS = ["config", "services", "functions", "tasks", "api_keys"] as const;
+export type ManifestSection = typeof MANIFEST_SECTIONS[number];
+
+// replace: API keys cannot change in place, they are deleted and created with a new key
+export type ManifestAction = "create" | "update" | "replace" | "delete";
+
+export interface ManifestChange {
+  action: ManifestAction;
+  section: ManifestSection;
+  name: string;
+  fields?: string[]; // Fields an update changes
+}
+
+export interface ApplyOptions {
+  prune?: boolean; // Delete services, functions, tasks and API keys the manifest does not name
+  dry_run?: boolean; // Only plan the changes
+  // Checks the planned changes before the first is applied, returns why they may not be
+  authorize?: (changes: ManifestChange[]) => string | null;
+}
+
+export interface ApplyResult {
+  dry_run: boolean;
+  changes: ManifestChange[];
+  api_keys: Record<string, string>; // Keys created or replaced, only shown once
+  forbidden?: string; // Why authorize rejected the changes, none of them were applied
+}
+
+const FUNCTION_FIELDS = [
+  "code",
+  "enabled",
+  "permissions",
+  "description",
+  "timeout",
+  "auth",
+  "auth_scope",
+] as const;
+const TASK_FIELDS = [
+  "retry_count",
+  "retry_delay",
+  "retry_strategy",
+  "retry_max_delay",
+  "concurrency_count",
+  "cron",
+  "timezone",
+  "default_params",
+  "catch_up",
+  "webhook_url",
+] as const;
+const DEFAULT_PERMISSIONS: ServicePermissions = { read: [], write: [], env: [], run: [] };
+
+// YAML is only loaded for YAML manifests
+export async function parseManifest(text: string, format: "json" | "yaml"): Promise<unknown> {
+  if (format === "json") return JSON.parse(text);
+  const { parse } = await import("jsr:@std/yaml@^1");
+  return parse(text);
+}
+
+function validateEntries(entries: unknown, section: string): string | null {
+  if (!Array.isArray(entries)) return `${section} must be a list`;
+  const names = new Set<string>();
+  for (const entry of entries) {
+    if (typeof entry?.name !== "string" || !entry.name) {
+      return `Every entry of ${section} needs a name`;
+    }
+    if (names.has(entry.name)) return `${section} names ${entry.name} twice`;
+    names.add(entry.name);
+  }
+  return null;
+}
+
+// Returns an error message unless the value is a manifest
+export function validateManifest(manifest: unknown): string | null {
+  if (typeof manifest !== "object" || manifest === null || Array.isArray(manifest)) {
+    return "Manifest must be an object";
+  }
+  const unknownSections = Object.keys(manifest).filter((key) =>
+    !(MANIFEST_SECTIONS as readonly string[]).includes(key)
+  );
+  if (unknownSections.length > 0) return `Unknown manifest sections: ${unknownSections.join(", ")}`;
+  const { config, services, functions, tasks, api_keys } = manifest as Manifest;
+
+  if (config !== undefined) {
+    if (typeof config !== "object" || config === null || Array.isArray(config)) {
+      return "config must map keys to values";
+    }
+    const invalid = Object.entries(config).find(([, value]) =>
+      !["string", "number", "boolean"].includes(typeof value)
+    );
+    if (invalid) return `config ${invalid[0]} must be a string, number or boolean`;
+  }
+  for (const [section, entries] of [["services", services], ["functions", functions]] as const) {
+    if (entries === undefined) continue;
+    const error = validateEntries(entries, section);
+    if (error) return error;
+    for (const entry of entries) {
+      if (typeof entry.code !== "string" || !entry.code) return `${entry.name} needs code`;
+    }
+  }
+  for (const service of services ?? []) {
+    try {
+      if (typeof service.schema === "string") JSON.parse(service.schema);
+    } catch {
+      return `${service.name}: invalid schema JSON`;
+    }
+  }
+  for (const func of functions ?? []) {
+    const error = validateFunctionAuth(func.auth, func.auth_scope);
+    if (error) return `${func.name}: ${error}`;
+  }
+  if (tasks !== undefined) {
+    const error = validateEntries(tasks, "tasks");
+    if (error) return error;
+    for (const task of tasks) {
+      if (typeof task.code !== "string" || !task.code) return `${task.name} needs code`;
+      const taskError = validateTaskFields(task as unknown as Record<string, unknown>);
+      if (taskError) return `${task.name}: ${taskError}`;
+    }
+  }
+  if (api_keys !== undefined) {
+    const error = validateEntries(api_keys, "api_keys");
+    if (error) return error;
+    for (const key of api_keys) {
+      const scopes = parseScopes(key.scope);
+      if (scopes.length === 0 || !scopes.every(isValidScope)) {
+        return `${key.name}: invalid scope ${key.scope ?? ""}`.trim();
+      }
+      if (key.expires_at && isNaN(Date.parse(key.expires_at))) {
+        return `${key.name}: expires_at must be a date`;
+      }
+    }
+  }
+  return null;
+}
+
+// JSON with sorted keys, so equal values compare equal whatever their key order
+function canonical(value: unknown): string {
+  return JSON.stringify(
+    value ?? null,
+    (_key, v) =>
+      typeof v === "object" && v !== null && !Array.isArray(v)
+        ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+        : v,
+  );
+}
+
+// Stored JSON columns are compared by value, unset optional fields are null or empty strings
+function normalizeField(field: string, value: unknown, stored: boolean): unknown {
+  if (field === "permissions") return { ...DEFAULT_PERMISSIONS, ...(value as object) };
+  if (typeof value === "string" && (field === "schema" || (field === "default_params" && stored))) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value === "" ? null : value;
+}
+
+// Fields of the desired entry that differ from the current one
+function changedFields(
+  desired: object,
+  current: object,
+  fields: readonly string[],
+): string[] {
+  return fields.filter((field) => {
+    const value = (desired as Record<string, unknown>)[field];
+    return value !== undefined &&
+      canonical(normalizeField(field, value, false)) !==
+        canonical(normalizeField(field, (current as Record<string, unknown>)[field], true));
+  });
+}
+
+function schemaString(schema: ManifestService["schema"]): string | undefined {
+  return typeof schema === "object" ? JSON.stringify(schema) : schema;
+}
+
+function scopeString(scope: string): string {
+  return parseScopes(scope).sort().join(" ");
+}
+
+interface ManifestState {
+  config: Map<string, string>;
+  services: Map<string, object>;
+  functions: Map<string, FunctionConfig>;
+  tasks: Map<string, TaskConfig[]>;
+  api_keys: Map<string, { scope: string; expires_at?: string }>;
+}
+
+async function loadState(context: DatabaseContext): Promise<ManifestState> {
+  const configRows = await context.dbInstance.selectFrom("config").selectAll().execute();
+  const services = new Map<string, object>();
+  for (const { name } of await getAllServices(context)) {
+    services.set(name, (await getService(context, name))!);
+  }
+  const tasks = new Map<string, TaskConfig[]>();
+  for (const task of await getAllTasks(context)) {
+    tasks.set(task.name, [...(tasks.get(task.name) ?? []), task]);
+  }
+  // functions that back tasks are managed through their task
+  const taskFunctions = new Set([...tasks.values()].flat().map((task) => task.function_name));
+  return {
+    config: new Map(configRows.map((row) => [row.key, row.value])),
+    services,
+    functions: new Map(
+      (await getAllFunctions(context))
+        .filter((func) => !taskFunctions.has(func.name))
+        .map((func) => [func.name, func]),
+    ),
+    tasks,
+    api_keys: new Map(
+      (await getAllAPIKeys(context)).map((key) => [key.name, key]),
+    ),
+  };
+}
+
+function planSection<T extends { name: string }>(
+  section: ManifestSection,
+  desired: T[] | undefined,
+  current: Map<string, unknown>,
+  diff: (entry: T, current: unknown) => string[],
+  prune: boolean,
+  changes: ManifestChange[],
+  deletes: ManifestChange[],
+) {
+  if (desired === undefined) return;
+  for (const entry of desired) {
+    if (!current.has(entry.name)) {
+      changes.push({ action: "create", section, name: entry.name });
+      continue;
+    }
+    const fields = diff(entry, current.get(entry.name));
+    if (fields.length > 0) {
+      changes.push({
+        action: section === "api_keys" ? "replace" : "update",
+        section,
+        name: entry.name,
+        fields,
+      });
+    }
+  }
+  if (prune) {
+    const names = new Set(desired.map((entry) => entry.name));
+    for (const name of current.keys()) {
+      if (!names.has(name)) deletes.unshift({ action: "delete", section, name });
+    }
+  }
+}
+
+function plan(state: ManifestState, manifest: Manifest, prune: boolean): ManifestChange[] {
+  const changes: ManifestChange[] = [];
+  const deletes: ManifestChange[] = [];
+
+  for (const [key, value] of Object.entries(manifest.config ?? {})) {
+    const current = state.config.get(key);
+    if (current === undefined) {
+      changes.push({ action: "create", section: "config", name: key });
+    } else if (current !== String(value)) {
+      changes.push({ action: "update", section: "config", name: key, fields: ["value"] });
+    }
+  }
+  planSection(
+    "services",
+    manifest.services,
+    state.services,
+    (service, current) =>
+      changedFields(
+        { ...service, schema: schemaString(service.schema) },
+        current as object,
+        ["code", "enabled", "jwt_check", "permissions", "schema"],
+      ),
+    prune,
+    changes,
+    deletes,
+  );
+  planSection(
+    "functions",
+    manifest.functions,
+    state.functions,
+    (func, current) => changedFields(func, current as object, FUNCTION_FIELDS),
+    prune,
+    changes,
+    deletes,
+  );
+  planSection(
+    "tasks",
+    manifest.tasks,
+    state.tasks,
+    (task, current) =>
+      changedFields(task, (current as TaskConfig[])[0], [...FUNCTION_FIELDS, ...TASK_FIELDS]),
+    false,
+    changes,
+    deletes,
+  );
+  // one delete per task, further tasks of a name the manifest has are pruned as well
+  if (prune && manifest.tasks !== undefined) {
+    const names = new Set(manifest.tasks.map((task) => task.name));
+    for (const [name, tasks] of state.tasks) {
+      const unmanaged = names.has(name) ? tasks.slice(1) : tasks;
+      deletes.unshift(
+        ...unmanaged.map(() => ({ action: "delete", section: "tasks", name } as const)),
+      );
+    }
+  }
+  planSection(
+    "api_keys",
+    manifest.api_keys,
+    state.api_keys,
+    (key, current) =>
+      changedFields(
+        { scope: scopeString(key.scope), expires_at: key.expires_at },
+        {
+          ...(current as object),
+          scope: scopeString((current as { scope: string }).scope),
+        },
+        ["scope", "expires_at"],
+      ),
+    prune,
+    changes,
+    deletes,
+  );
+  // deletes run last, dependents first
+  return [...changes, ...deletes];
+}
+
+// The given fields of an entry, only the changed ones are passed to an update
+function pickFields<T extends object>(entry: T, fields: readonly string[]) {
+  return Object.fromEntries(fields.map((field) => [field, entry[field as keyof T]]));
+}
+
+function taskUpdates(task: ManifestTask, fields: readonly string[]): Partial<TaskConfig> {
+  const updates = pickFields(task, fields.filter((field) => TASK_FIELDS.includes(field as never)));
+  if (updates.default_params !== undefined) {
+    updates.default_params = JSON.stringify(updates.default_params);
+  }
+  return updates as Partial<TaskConfig>;
+}
+
+// Creates, updates and, with prune, deletes what the manifest describes, one change at a time.
+// A failed change stops the apply, the ones before it stay applied.
+export async function applyManifest(
+  context: DatabaseContext,
+  manifest: Manifest,
+  options: ApplyOptions = {},
+): Promise<ApplyResult> {
+  const state = await loadState(context);
+  const changes = plan(state, manifest, options.prune ?? false);
+  const result: ApplyResult = { dry_run: options.dry_run ?? false, changes, api_keys: {} };
+  if (result.dry_run) return result;
+  const forbidden = options.authorize?.(changes);
+  if (forbidden) return { ...result, forbidden };
+
+  const find = <T extends { name: string }>(entries: T[] | undefined, name: string) =>
+    entries!.find((entry) => entry.name === name)!;
+  for (const change of changes) {
+    const { action, section, name } = change;
+    try {
+      if (section === "config") {
+        const value = String(manifest.config![name]);
+        await updateConfig(context, name, value);
+        if (name === "jwt_secret") {
+          // a new secret becomes the signing key, as when the config is updated through the API
+          await rotateJWTKey(context, { secret: value });
+        }
+      } else if (section === "services") {
+        const service = action === "delete" ? undefined : find(manifest.services, name);
+        if (action === "create") {
+          await createService(context, {
+            ...service!,
+            enabled: service!.enabled ?? true,
+            jwt_check: service!.jwt_check ?? false,
+            permissions: { ...DEFAULT_PERMISSIONS, ...service!.permissions },
+            schema: schemaString(service!.schema),
+          });
+        } else if (action === "update") {
+          await updateService(context, {
+            name,
+            ...pickFields({ ...service!, schema: schemaString(service!.schema) }, change.fields!),
+            permissions: service!.permissions &&
+              { ...DEFAULT_PERMISSIONS, ...service!.permissions },
+          } as ServiceConfig);
+        } else {
+          await deleteService(context, name);
+        }
+      } else if (section === "functions") {
+        const func = action === "delete" ? undefined : find(manifest.functions, name);
+        if (action === "create") {
+          await createFunction(context, {
+            ...func!,
+            permissions: { ...DEFAULT_PERMISSIONS, ...func!.permissions },
+          });
+        } else if (action === "update") {
+          await updateFunction(context, name, pickFields(func!, change.fields!));
+        } else {
+          await deleteFunction(context, name);
+        }
+      } else if (section === "tasks") {
+        const current = state.tasks.get(name);
+        const task = action === "delete" ? undefined : find(manifest.tasks, name);
+        if (action === "create") {
+          await createTask(context, {
+            ...task!,
+            ...taskUpdates(task!, TASK_FIELDS),
+            retry_count: task!.retry_count ?? 0,
+            retry_delay: task!.retry_delay ?? 1000,
+            permissions: { ...DEFAULT_PERMISSIONS, ...task!.permissions },
+          } as TaskConfig);
+        } else if (action === "update") {
+          const functionFields = change.fields!.filter((field) =>
+            FUNCTION_FIELDS.includes(field as never)
+          );
+          await updateTask(
+            context,
+            current![0].id!,
+            taskUpdates(task!, change.fields!),
+            functionFields.length > 0 ? pickFields(task!, functionFields) : undefined,
+          );
+        } else {
+          // the duplicates of a managed task go before the task itself
+          await deleteTask(context, current!.pop()!.id!);
+        }
+      } else {
+        if (action !== "create") await deleteAPIKey(context, name);
+        if (action !== "delete") {
+          const key = find(manifest.api_keys, name);
+          const created = await createAPIKey(context, {
+            name,
+            scope: key.scope,
+            expires_at: key.expires_at ?? undefined,
+          });
+          result.api_keys[name] = created.key;
+        }
+      }
+    } catch (error) {
+      throw new Error(
+        `Applying ${action} ${section} ${name} failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+  return result;
+}
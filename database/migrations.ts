@@ -0,0 +1,222 @@
+import { Kysely } from "kysely";
+import { idColumn } from "./storage.ts";
+
+// A versioned schema change of one module (a table or a group of tables). Migrations run in the
+// order of the list they are registered in, each in its own transaction, and the applied ones are
+// recorded in the schema_migrations table of the database.
+export interface Migration<DB> {
+  module: string;
+  version: number; // Increments by one per module
+  name: string;
+  up(dbInstance: Kysely<DB>): Promise<void>;
+  down(dbInstance: Kysely<DB>): Promise<void>;
+}
+
+export interface SchemaMigrationTable {
+  id?: number; // auto-incremented, the order migrations were applied in
+  module: string;
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+interface MigrationDatabase {
+  schema_migrations: SchemaMigrationTable;
+}
+
+export interface MigrationStatus {
+  module: string;
+  version: number;
+  name: string;
+  applied_at: string | null; // null while pending
+}
+
+const MIGRATION_LOCK = { lockTable: "schema_migrations", lockRowId: "migration_lock" };
+
+// The runner only touches schema_migrations, whatever the database's own tables are
+function migrationDb<DB>(dbInstance: Kysely<DB>): Kysely<MigrationDatabase> {
+  return dbInstance as unknown as Kysely<MigrationDatabase>;
+}
+
+async function createMigrationTable<DB>(dbInstance: Kysely<DB>) {
+  await migrationDb(dbInstance).schema
+    .createTable("schema_migrations")
+    .ifNotExists()
+    .addColumn("id", "integer", idColumn(dbInstance))
+    .addColumn("module", "text", (col) => col.notNull())
+    .addColumn("version", "integer", (col) => col.notNull())
+    .addColumn("name", "text", (col) => col.notNull())
+    .addColumn("applied_at", "text", (col) => col.notNull())
+    .addUniqueConstraint("schema_migrations_module_version", ["module", "version"])
+    .execute();
+}
+
+async function getAppliedMigrations<DB>(
+  dbInstance: Kysely<DB>,
+): Promise<SchemaMigrationTable[]> {
+  await createMigrationTable(dbInstance);
+  return await migrationDb(dbInstance)
+    .selectFrom("schema_migrations")
+    .selectAll()
+    .orderBy("id")
+    .execute();
+}
+
+// Every registered migration with the time it was applied
+export async function getMigrationStatus<DB>(
+  dbInstance: Kysely<DB>,
+  migrations: Migration<DB>[],
+): Promise<MigrationStatus[]> {
+  const applied = await getAppliedMigrations(dbInstance);
+  return migrations.map((migration) => ({
+    module: migration.module,
+    version: migration.version,
+    name: migration.name,
+    applied_at:
+      applied.find((row) => row.module === migration.module && row.version === migration.version)
+        ?.applied_at ?? null,
+  }));
+}
+
+// Applies the pending migrations in order, returns the applied ones. A failed migration is
+// rolled back and stops the run.
+export async function migrateToLatest<DB>(
+  dbInstance: Kysely<DB>,
+  migrations: Migration<DB>[],
+): Promise<Migration<DB>[]> {
+  const recorded = await getAppliedMigrations(dbInstance);
+  const pending = migrations.filter((migration) =>
+    !recorded.some((row) => row.module === migration.module && row.version === migration.version)
+  );
+
+  const applied: Migration<DB>[] = [];
+  for (const migration of pending) {
+    const trx = await dbInstance.startTransaction().execute();
+    try {
+      // nodes sharing a database migrate one at a time, another one may have applied it
+      await trx.getExecutor().adapter.acquireMigrationLock(trx, MIGRATION_LOCK);
+      const done = await migrationDb(trx)
+        .selectFrom("schema_migrations")
+        .select("id")
+        .where("module", "=", migration.module)
+        .where("version", "=", migration.version)
+        .executeTakeFirst();
+      if (done) {
+        await trx.commit().execute();
+        continue;
+      }
+
+      await migration.up(trx);
+      await migrationDb(trx)
+        .insertInto("schema_migrations")
+        .values({
+          module: migration.module,
+          version: migration.version,
+          name: migration.name,
+          applied_at: new Date().toISOString(),
+        })
+        .execute();
+      await trx.commit().execute();
+      applied.push(migration);
+    } catch (error) {
+      await trx.rollback().execute();
+      throw new Error(
+        `Migration ${migration.module}@${migration.version} (${migration.name}) failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+  return applied;
+}
+
+// Reverts the last `steps` applied migrations, of one module when given, newest first.
+// Returns the reverted ones.
+export async function migrateDown<DB>(
+  dbInstance: Kysely<DB>,
+  migrations: Migration<DB>[],
+  options: { module?: string; steps?: number } = {},
+): Promise<Migration<DB>[]> {
+  // a Postgres database can hold the migrations of the main and the queue schema
+  const registered = (row: SchemaMigrationTable) =>
+    migrations.some((migration) => migration.module === row.module);
+  const applied = (await getAppliedMigrations(dbInstance))
+    .filter((row) => registered(row))
+    .filter((row) => options.module === undefined || row.module === options.module)
+    .reverse()
+    .slice(0, options.steps ?? 1);
+
+  const reverted: Migration<DB>[] = [];
+  for (const row of applied) {
+    const migration = migrations.find((migration) =>
+      migration.module === row.module && migration.version === row.version
+    );
+    if (!migration) {
+      throw new Error(`Migration ${row.module}@${row.version} (${row.name}) is not registered`);
+    }
+    // a module's later migrations build on its earlier ones
+    const newer = await migrationDb(dbInstance)
+      .selectFrom("schema_migrations")
+      .select("version")
+      .where("module", "=", row.module)
+      .where("version", ">", row.version)
+      .executeTakeFirst();
+    if (newer) {
+      throw new Error(`Revert ${row.module}@${newer.version} before ${row.module}@${row.version}`);
+    }
+
+    const trx = await dbInstance.startTransaction().execute();
+    try {
+      await migration.down(trx);
+      await migrationDb(trx)
+        .deleteFrom("schema_migrations")
+        .where("module", "=", row.module)
+        .where("version", "=", row.version)
+        .execute();
+      await trx.commit().execute();
+    } catch (error) {
+      await trx.rollback().execute();
+      throw new Error(
+        `Reverting ${row.module}@${row.version} (${row.name}) failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+    reverted.push(migration);
+  }
+  return reverted;
+}
+
+// Columns added after a table was first released. Databases created by versions that already
+// had some of them keep those, the missing ones are added.
+export async function addColumns<DB>(
+  dbInstance: Kysely<DB>,
+  table: string,
+  columns: [string, "text" | "integer" | "boolean", (string | number | boolean)?][],
+) {
+  const existing = (await dbInstance.introspection.getTables())
+    .find((metadata) => metadata.name === table)?.columns ?? [];
+  for (const [column, type, defaultValue] of columns) {
+    if (existing.some((metadata) => metadata.name === column)) continue;
+    await dbInstance.schema
+      .alterTable(table)
+      .addColumn(
+        column,
+        type,
+        (col) => defaultValue === undefined ? col : col.notNull().defaultTo(defaultValue),
+      )
+      .execute();
+  }
+}
+
+export async function dropColumns<DB>(dbInstance: Kysely<DB>, table: string, columns: string[]) {
+  for (const column of columns) {
+    await dbInstance.schema.alterTable(table).dropColumn(column).execute();
+  }
+}
+
+// Create migrations of tables older than the migrations seed data only into new tables
+export async function tableExists<DB>(dbInstance: Kysely<DB>, table: string): Promise<boolean> {
+  const tables = await dbInstance.introspection.getTables();
+  return tables.some((metadata) => metadata.name === table);
+}
@@ -0,0 +1,66 @@
+import { ColumnDefinitionBuilder, Dialect, Kysely, PostgresAdapter, PostgresDialect } from "kysely";
+import { DenoSqliteDialect } from "./kysely_deno_sqlite3_adapter.ts";
+
+// Where a database is stored: "sqlite:<path>", a bare SQLite path such as ":memory:", a
+// "postgres://" URL, or a Kysely dialect, e.g. of an embedded Postgres stand-in in tests.
+// Nodes sharing a Postgres database share their services, functions, tasks and queue.
+export type Storage = string | Dialect;
+
+export interface StorageDescriptor {
+  kind: "sqlite" | "postgres";
+  location: string; // file path or connection URL
+}
+
+export function parseStorage(storage: string): StorageDescriptor {
+  if (/^postgres(ql)?:\/\//.test(storage)) {
+    return { kind: "postgres", location: storage };
+  }
+  if (storage.startsWith("sqlite:")) {
+    return { kind: "sqlite", location: storage.slice("sqlite:".length) || ":memory:" };
+  }
+  return { kind: "sqlite", location: storage };
+}
+
+export function describeStorage(storage: Storage): string {
+  if (typeof storage !== "string") return "custom dialect";
+  const { kind, location } = parseStorage(storage);
+  // the password of a connection URL is not logged
+  return kind === "postgres" ? location.replace(/:[^:@/]*@/, ":***@") : location;
+}
+
+export function createDialect(storage: Storage): Dialect {
+  if (typeof storage !== "string") return storage;
+  const { kind, location } = parseStorage(storage);
+  if (kind === "postgres") {
+    return new PostgresDialect({
+      // pg is only loaded by nodes storing their data in Postgres
+      pool: async () => {
+        const { default: pg } = await import("pg");
+        return new pg.Pool({ connectionString: location });
+      },
+    });
+  }
+  return new DenoSqliteDialect({ path: location });
+}
+
+export function isPostgres<DB>(dbInstance: Kysely<DB>): boolean {
+  return dbInstance.getExecutor().adapter instanceof PostgresAdapter;
+}
+
+// Auto-incremented integer primary key, an identity column in Postgres
+export function idColumn<DB>(dbInstance: Kysely<DB>) {
+  return (col: ColumnDefinitionBuilder) =>
+    isPostgres(dbInstance)
+      ? col.primaryKey().generatedByDefaultAsIdentity()
+      : col.primaryKey().autoIncrement();
+}
+
+// SQLite returns booleans as 0 and 1, Postgres as booleans
+export function readBoolean(value: unknown): boolean {
+  return value === true || value === 1 || value === "1" || value === "true";
+}
+
+// Timestamps are stored as ISO strings, subscribers get them in seconds since the epoch
+export function toUnixSeconds(ts: string): number {
+  return Math.floor(Date.parse(ts) / 1000);
+}
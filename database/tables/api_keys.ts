@@ -0,0 +1,159 @@
+import { DatabaseContext } from "../config.ts";
+import { Database } from "./index.ts";
+import { Migration } from "../migrations.ts";
+import { idColumn } from "../storage.ts";
+
+export interface APIKeyTable {
+  id?: number;
+  name: string;
+  key_hash: string; // SHA-256 of the key, the key itself is only shown once
+  prefix: string; // First characters of the key, to tell keys apart
+  scope: string; // Space separated scopes, see SCOPES in src/api/scopes.ts
+  created_at: string;
+  expires_at?: string | null; // Never expires when null
+  last_used_at?: string | null;
+}
+
+export interface APIKeyInfo {
+  name: string;
+  prefix: string;
+  scope: string;
+  created_at: string;
+  expires_at?: string;
+  last_used_at?: string;
+  expired: boolean;
+}
+
+export const KEY_PREFIX = "nek_";
+
+function toAPIKeyInfo(row: APIKeyTable): APIKeyInfo {
+  return {
+    name: row.name,
+    prefix: row.prefix,
+    scope: row.scope,
+    created_at: row.created_at,
+    expires_at: row.expires_at ?? undefined,
+    last_used_at: row.last_used_at ?? undefined,
+    expired: !!row.expires_at && row.expires_at <= new Date().toISOString(),
+  };
+}
+
+async function hashKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Creates a key and returns it in plain text, only its hash is stored
+export async function createAPIKey(
+  context: DatabaseContext,
+  options: { name: string; scope: string; expires_at?: string },
+): Promise<{ key: string; info: APIKeyInfo }> {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const key = KEY_PREFIX + Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+  const row: APIKeyTable = {
+    name: options.name,
+    key_hash: await hashKey(key),
+    prefix: key.slice(0, KEY_PREFIX.length + 8),
+    scope: options.scope,
+    created_at: new Date().toISOString(),
+    expires_at: options.expires_at ?? null,
+  };
+
+  await context.dbInstance
+    .insertInto("api_keys")
+    .values(row)
+    .execute();
+
+  return { key, info: toAPIKeyInfo(row) };
+}
+
+export async function getAllAPIKeys(context: DatabaseContext): Promise<APIKeyInfo[]> {
+  const rows = await context.dbInstance
+    .selectFrom("api_keys")
+    .selectAll()
+    .orderBy("id", "desc")
+    .execute();
+
+  return rows.map(toAPIKeyInfo);
+}
+
+export async function getAPIKey(
+  context: DatabaseContext,
+  name: string,
+): Promise<APIKeyInfo | null> {
+  const row = await context.dbInstance
+    .selectFrom("api_keys")
+    .selectAll()
+    .where("name", "=", name)
+    .executeTakeFirst();
+
+  return row ? toAPIKeyInfo(row) : null;
+}
+
+// Revokes a key, requests using it are rejected from now on
+export async function deleteAPIKey(context: DatabaseContext, name: string): Promise<boolean> {
+  const result = await context.dbInstance
+    .deleteFrom("api_keys")
+    .where("name", "=", name)
+    .executeTakeFirst();
+
+  return Number(result.numDeletedRows) > 0;
+}
+
+// Looks up a presented key, returns null for unknown or expired keys and records its use
+export async function verifyAPIKey(
+  context: DatabaseContext,
+  key: string,
+): Promise<APIKeyInfo | null> {
+  if (!key.startsWith(KEY_PREFIX)) {
+    return null;
+  }
+
+  const row = await context.dbInstance
+    .selectFrom("api_keys")
+    .selectAll()
+    .where("key_hash", "=", await hashKey(key))
+    .executeTakeFirst();
+
+  if (!row) {
+    return null;
+  }
+  const info = toAPIKeyInfo(row);
+  if (info.expired) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  await context.dbInstance
+    .updateTable("api_keys")
+    .set({ last_used_at: now })
+    .where("id", "=", row.id!)
+    .execute();
+
+  return { ...info, last_used_at: now };
+}
+
+export const migrations: Migration<Database>[] = [
+  {
+    module: "api_keys",
+    version: 1,
+    name: "create_api_keys",
+    async up(dbInstance) {
+      await dbInstance.schema
+        .createTable("api_keys")
+        .ifNotExists()
+        .addColumn("id", "integer", idColumn(dbInstance))
+        .addColumn("name", "text", (col) => col.unique().notNull())
+        .addColumn("key_hash", "text", (col) => col.unique().notNull())
+        .addColumn("prefix", "text", (col) => col.notNull())
+        .addColumn("scope", "text", (col) => col.notNull())
+        .addColumn("created_at", "text", (col) => col.notNull())
+        .addColumn("expires_at", "text") // Nullable, null never expires
+        .addColumn("last_used_at", "text")
+        .execute();
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropTable("api_keys").ifExists().execute();
+    },
+  },
+];
@@ -1,7 +1,8 @@
 import { DatabaseContext } from "../config.ts";
 import { ServicePermissions } from "./services.ts";
-import { Kysely } from "kysely";
 import { Database } from "./index.ts";
+import { addColumns, dropColumns, Migration } from "../migrations.ts";
+import { idColumn, readBoolean } from "../storage.ts";
 
 export interface FunctionTable {
   id?: number;
@@ -9,62 +10,127 @@ export interface FunctionTable {
   code: string;
   enabled: boolean;
   permissions: string; // JSON string
-  description?: string;
+  description?: string | null;
+  timeout?: number; // Execution timeout in milliseconds, falls back to config when null
+  revision?: number; // Latest revision number
+  pinned_revision?: number | null; // Revision served instead of the latest one
+  auth?: FunctionAuth; // Who may invoke the function and enqueue its task
+  auth_scope?: string | null; // Space separated scopes required on top of the default one
   created_at?: string;
   updated_at?: string;
 }
 
+// public: anyone, jwt: a bearer JWT, api_key: an X-API-Key header
+export const FUNCTION_AUTH_MODES = ["public", "jwt", "api_key"] as const;
+export type FunctionAuth = typeof FUNCTION_AUTH_MODES[number];
+
+// Immutable history of code, permissions and description changes
+export interface FunctionRevisionTable {
+  id?: number;
+  function_name: string;
+  revision: number;
+  code: string;
+  permissions: string; // JSON string
+  description?: string;
+  created_at: string;
+}
+
 export interface FunctionConfig {
   name: string;
   code: string;
   permissions: ServicePermissions;
   enabled?: boolean;
   description?: string;
+  timeout?: number; // Overrides config.function_execution_timeout for this function
+  revision?: number;
+  pinned_revision?: number;
+  auth?: FunctionAuth; // Defaults to public
+  auth_scope?: string;
 }
 
+export interface FunctionRevision {
+  function_name: string;
+  revision: number;
+  code: string;
+  permissions: ServicePermissions;
+  description?: string;
+  created_at: string;
+}
+
+const DEFAULT_PERMISSIONS: ServicePermissions = {
+  read: [],
+  write: [],
+  env: [],
+  run: [],
+};
+
 // Function management operations
 export async function createFunction(
   context: DatabaseContext,
   functionConfig: FunctionConfig,
 ): Promise<FunctionConfig> {
   const now = new Date().toISOString();
+  const permissions = JSON.stringify(functionConfig.permissions || DEFAULT_PERMISSIONS);
 
-  await context.dbInstance
-    .insertInto("functions")
-    .values({
-      name: functionConfig.name,
-      code: functionConfig.code,
-      enabled: functionConfig.enabled ?? true,
-      permissions: JSON.stringify(
-        functionConfig.permissions || {
-          read: [],
-          write: [],
-          env: [],
-          run: [],
-        },
-      ),
-      description: functionConfig.description || undefined,
-      created_at: now,
-      updated_at: now,
-    })
-    .execute();
+  const trx = await context.dbInstance.startTransaction().execute();
+  try {
+    await trx
+      .insertInto("functions")
+      .values({
+        name: functionConfig.name,
+        code: functionConfig.code,
+        enabled: functionConfig.enabled ?? true,
+        permissions,
+        description: functionConfig.description || undefined,
+        timeout: functionConfig.timeout ?? undefined,
+        revision: 1,
+        auth: functionConfig.auth ?? "public",
+        auth_scope: functionConfig.auth_scope || null,
+        created_at: now,
+        updated_at: now,
+      })
+      .execute();
+
+    await trx
+      .insertInto("function_revisions")
+      .values({
+        function_name: functionConfig.name,
+        revision: 1,
+        code: functionConfig.code,
+        permissions,
+        description: functionConfig.description || undefined,
+        created_at: now,
+      })
+      .execute();
+
+    await trx.commit().execute();
+  } catch (error) {
+    await trx.rollback().execute();
+    throw error;
+  }
 
-  return functionConfig;
+  return { ...functionConfig, revision: 1 };
 }
 
+// A null description clears it
 export async function updateFunction(
   context: DatabaseContext,
   name: string,
-  updates: Partial<FunctionConfig>,
+  updates: Partial<Omit<FunctionConfig, "description">> & { description?: string | null },
 ): Promise<FunctionConfig> {
+  const now = new Date().toISOString();
   const updateData: Partial<{
     code: string;
     enabled: boolean;
     permissions: string;
-    description: string;
+    description: string | null;
+    timeout: number;
+    revision: number;
+    auth: FunctionAuth;
+    auth_scope: string | null;
     updated_at: string;
   }> = {
-    updated_at: new Date().toISOString(),
+    updated_at: now,
   };
 
   if (updates.code !== undefined) updateData.code = updates.code;
@@ -73,14 +139,55 @@ export async function updateFunction(
     updateData.permissions = JSON.stringify(updates.permissions);
   }
   if (updates.description !== undefined) updateData.description = updates.description;
+  if (updates.timeout !== undefined) updateData.timeout = updates.timeout;
+  if (updates.auth !== undefined) updateData.auth = updates.auth;
+  if (updates.auth_scope !== undefined) updateData.auth_scope = updates.auth_scope || null;
 
-  await context.dbInstance
-    .updateTable("functions")
-    .set(updateData)
-    .where("name", "=", name)
-    .execute();
+  const trx = await context.dbInstance.startTransaction().execute();
+  try {
+    const current = await trx
+      .selectFrom("functions")
+      .selectAll()
+      .where("name", "=", name)
+      .executeTakeFirst();
+
+    // only code, permissions and description changes produce a new revision
+    if (
+      current &&
+      ((updateData.code !== undefined && updateData.code !== current.code) ||
+        (updateData.permissions !== undefined && updateData.permissions !== current.permissions) ||
+        (updateData.description !== undefined &&
+          updateData.description !== (current.description ?? null)))
+    ) {
+      updateData.revision = (current.revision ?? 1) + 1;
+      await trx
+        .insertInto("function_revisions")
+        .values({
+          function_name: name,
+          revision: updateData.revision,
+          code: updateData.code ?? current.code,
+          permissions: updateData.permissions ?? current.permissions,
+          description:
+            (updateData.description !== undefined ? updateData.description : current.description) ??
+              undefined,
+          created_at: now,
+        })
+        .execute();
+    }
+
+    await trx
+      .updateTable("functions")
+      .set(updateData)
+      .where("name", "=", name)
+      .execute();
+
+    await trx.commit().execute();
+  } catch (error) {
+    await trx.rollback().execute();
+    throw error;
+  }
 
-  return { name, ...updates } as FunctionConfig;
+  return { name, ...updates, revision: updateData.revision } as FunctionConfig;
 }
 
 export async function deleteFunction(context: DatabaseContext, name: string): Promise<void> {
@@ -88,6 +195,11 @@ export async function deleteFunction(context: DatabaseContext, name: string): Pr
     .deleteFrom("functions")
     .where("name", "=", name)
     .execute();
+
+  await context.dbInstance
+    .deleteFrom("function_revisions")
+    .where("function_name", "=", name)
+    .execute();
 }
 
 export async function getAllFunctions(context: DatabaseContext): Promise<FunctionConfig[]> {
@@ -98,8 +210,12 @@ export async function getAllFunctions(context: DatabaseContext): Promise<Functio
 
   return functions.map((func) => ({
     ...func,
-    enabled: Boolean(func.enabled),
+    enabled: readBoolean(func.enabled),
     permissions: JSON.parse(func.permissions) as ServicePermissions,
+    timeout: func.timeout ?? undefined,
+    pinned_revision: func.pinned_revision ?? undefined,
+    auth: func.auth ?? "public",
+    auth_scope: func.auth_scope ?? undefined,
   } as FunctionConfig));
 }
 
@@ -116,29 +232,215 @@ export async function getFunction(context: DatabaseContext, name: string): Promi
 
   return {
     ...func,
-    enabled: Boolean(func.enabled),
+    enabled: readBoolean(func.enabled),
     permissions: JSON.parse(func.permissions) as ServicePermissions,
+    timeout: func.timeout ?? undefined,
+    pinned_revision: func.pinned_revision ?? undefined,
+    auth: func.auth ?? "public",
+    auth_scope: func.auth_scope ?? undefined,
   } as FunctionConfig;
 }
 
-export async function up(
-  dbInstance: Kysely<Database>,
-) {
-  // Create functions table
-  await dbInstance.schema
-    .createTable("functions")
-    .ifNotExists()
-    .addColumn("id", "integer", (col) => col.primaryKey().autoIncrement())
-    .addColumn("name", "text", (col) => col.unique().notNull())
-    .addColumn("code", "text", (col) => col.notNull())
-    .addColumn("enabled", "boolean", (col) => col.notNull().defaultTo(true))
-    .addColumn(
-      "permissions",
-      "text",
-      (col) => col.notNull().defaultTo('{"read":[],"write":[],"env":[],"run":[]}'),
-    )
-    .addColumn("description", "text") // Nullable description
-    .addColumn("created_at", "text", (col) => col.notNull())
-    .addColumn("updated_at", "text", (col) => col.notNull())
+// ========== revisions ==========
+
+function toFunctionRevision(row: FunctionRevisionTable): FunctionRevision {
+  return {
+    function_name: row.function_name,
+    revision: row.revision,
+    code: row.code,
+    permissions: JSON.parse(row.permissions) as ServicePermissions,
+    description: row.description ?? undefined,
+    created_at: row.created_at,
+  };
+}
+
+export async function getFunctionRevisions(
+  context: DatabaseContext,
+  name: string,
+): Promise<FunctionRevision[]> {
+  const revisions = await context.dbInstance
+    .selectFrom("function_revisions")
+    .selectAll()
+    .where("function_name", "=", name)
+    .orderBy("revision", "desc")
     .execute();
+
+  return revisions.map(toFunctionRevision);
+}
+
+export async function getFunctionRevision(
+  context: DatabaseContext,
+  name: string,
+  revision: number,
+): Promise<FunctionRevision | null> {
+  const row = await context.dbInstance
+    .selectFrom("function_revisions")
+    .selectAll()
+    .where("function_name", "=", name)
+    .where("revision", "=", revision)
+    .executeTakeFirst();
+
+  return row ? toFunctionRevision(row) : null;
 }
+
+// Function config with code, permissions and description taken from the given revision
+export async function getFunctionAtRevision(
+  context: DatabaseContext,
+  name: string,
+  revision: number,
+): Promise<FunctionConfig | null> {
+  const functionConfig = await getFunction(context, name);
+  const functionRevision = await getFunctionRevision(context, name, revision);
+  if (!functionConfig || !functionRevision) return null;
+
+  return {
+    ...functionConfig,
+    code: functionRevision.code,
+    permissions: functionRevision.permissions,
+    description: functionRevision.description,
+    revision: functionRevision.revision,
+  };
+}
+
+export async function pinFunctionRevision(
+  context: DatabaseContext,
+  name: string,
+  revision: number | null,
+): Promise<void> {
+  if (revision !== null && !(await getFunctionRevision(context, name, revision))) {
+    throw new Error(`Revision ${revision} of function ${name} not found`);
+  }
+
+  await context.dbInstance
+    .updateTable("functions")
+    .set({
+      pinned_revision: revision,
+      updated_at: new Date().toISOString(),
+    })
+    .where("name", "=", name)
+    .execute();
+}
+
+// Rolling back records the old content as a new revision and clears any pin
+export async function rollbackFunction(
+  context: DatabaseContext,
+  name: string,
+  revision: number,
+): Promise<FunctionConfig> {
+  const functionRevision = await getFunctionRevision(context, name, revision);
+  if (!functionRevision) {
+    throw new Error(`Revision ${revision} of function ${name} not found`);
+  }
+
+  // every revisioned field is restored, a revision without a description clears it
+  await updateFunction(context, name, {
+    code: functionRevision.code,
+    permissions: functionRevision.permissions,
+    description: functionRevision.description ?? null,
+  });
+  await pinFunctionRevision(context, name, null);
+
+  return await getFunction(context, name) as FunctionConfig;
+}
+
+export const migrations: Migration<Database>[] = [
+  {
+    module: "functions",
+    version: 1,
+    name: "create_functions",
+    async up(dbInstance) {
+      await dbInstance.schema
+        .createTable("functions")
+        .ifNotExists()
+        .addColumn("id", "integer", idColumn(dbInstance))
+        .addColumn("name", "text", (col) => col.unique().notNull())
+        .addColumn("code", "text", (col) => col.notNull())
+        .addColumn("enabled", "boolean", (col) => col.notNull().defaultTo(true))
+        .addColumn(
+          "permissions",
+          "text",
+          (col) => col.notNull().defaultTo('{"read":[],"write":[],"env":[],"run":[]}'),
+        )
+        .addColumn("description", "text") // Nullable description
+        .addColumn("created_at", "text", (col) => col.notNull())
+        .addColumn("updated_at", "text", (col) => col.notNull())
+        .execute();
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropTable("functions").ifExists().execute();
+    },
+  },
+  {
+    module: "functions",
+    version: 2,
+    name: "add_function_timeout",
+    async up(dbInstance) {
+      // Nullable, use config.function_execution_timeout
+      await addColumns(dbInstance, "functions", [["timeout", "integer"]]);
+    },
+    async down(dbInstance) {
+      await dropColumns(dbInstance, "functions", ["timeout"]);
+    },
+  },
+  {
+    module: "functions",
+    version: 3,
+    name: "add_function_revisions",
+    async up(dbInstance) {
+      await addColumns(dbInstance, "functions", [
+        ["revision", "integer", 1],
+        ["pinned_revision", "integer"], // Nullable, serve the latest revision
+      ]);
+      await dbInstance.schema
+        .createTable("function_revisions")
+        .ifNotExists()
+        .addColumn("id", "integer", idColumn(dbInstance))
+        .addColumn("function_name", "text", (col) => col.notNull())
+        .addColumn("revision", "integer", (col) => col.notNull())
+        .addColumn("code", "text", (col) => col.notNull())
+        .addColumn(
+          "permissions",
+          "text",
+          (col) => col.notNull().defaultTo('{"read":[],"write":[],"env":[],"run":[]}'),
+        )
+        .addColumn("description", "text")
+        .addColumn("created_at", "text", (col) => col.notNull())
+        .addUniqueConstraint("function_revisions_name_revision", ["function_name", "revision"])
+        .execute();
+      // functions created before revisions start at revision 1
+      const functions = await dbInstance.selectFrom("functions").selectAll().execute();
+      for (const fn of functions) {
+        await dbInstance
+          .insertInto("function_revisions")
+          .values({
+            function_name: fn.name,
+            revision: fn.revision ?? 1,
+            code: fn.code,
+            permissions: fn.permissions,
+            description: fn.description || undefined,
+            created_at: fn.updated_at ?? new Date().toISOString(),
+          })
+          .onConflict((oc) => oc.doNothing())
+          .execute();
+      }
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropTable("function_revisions").ifExists().execute();
+      await dropColumns(dbInstance, "functions", ["revision", "pinned_revision"]);
+    },
+  },
+  {
+    module: "functions",
+    version: 4,
+    name: "add_function_auth",
+    async up(dbInstance) {
+      await addColumns(dbInstance, "functions", [
+        ["auth", "text", "public"],
+        ["auth_scope", "text"], // Nullable, only the default scope is required
+      ]);
+    },
+    async down(dbInstance) {
+      await dropColumns(dbInstance, "functions", ["auth", "auth_scope"]);
+    },
+  },
+];
@@ -1,9 +1,27 @@
 import { Kysely } from "kysely";
-import { Database as Sqlite } from "jsr:@db/sqlite";
-import { DenoSqliteDialect } from "../kysely_deno_sqlite3_adapter.ts";
-import { FunctionTable, up as functionUp } from "./functions.ts";
-import { PortTable, ServiceTable, up as serviceUp } from "./services.ts";
-import { TaskTable, up as taskUp } from "./tasks.ts";
+import { createDialect, describeStorage, Storage } from "../storage.ts";
+import {
+  FunctionRevisionTable,
+  FunctionTable,
+  migrations as functionMigrations,
+} from "./functions.ts";
+import {
+  migrations as serviceMigrations,
+  PortTable,
+  seedPorts,
+  ServiceRevisionTable,
+  ServiceTable,
+} from "./services.ts";
+import { migrations as taskMigrations, TaskTable } from "./tasks.ts";
+import {
+  generateSecret,
+  JWTKeyTable,
+  migrations as jwtKeyMigrations,
+  seedJWTKey,
+} from "./jwt_keys.ts";
+import { APIKeyTable, migrations as apiKeyMigrations } from "./api_keys.ts";
+import { migrations as workflowMigrations, WorkflowTable } from "./workflows.ts";
+import { migrateToLatest, Migration } from "../migrations.ts";
 
 // Database schema types
 
@@ -16,95 +34,132 @@ export interface ConfigTable {
 
 export interface Database {
   services: ServiceTable;
+  service_revisions: ServiceRevisionTable;
   functions: FunctionTable;
+  function_revisions: FunctionRevisionTable;
   config: ConfigTable;
   ports: PortTable;
   tasks: TaskTable;
+  jwt_keys: JWTKeyTable;
+  api_keys: APIKeyTable;
+  workflows: WorkflowTable;
 }
 
-// Function to create a database instance with custom path
-export function createDatabase(dbPath: string) {
+// Function to create a database instance on a SQLite path, Postgres URL or dialect
+export function createDatabase(storage: Storage) {
   return new Kysely<Database>({
-    dialect: new DenoSqliteDialect(new Sqlite(dbPath)),
-  });
-}
-
-function loadDatabase(dbPath: string): Kysely<Database> {
-  if (dbPath === ":memory:") {
-    throw new Error("In-memory database is not supported in this context");
-  }
-  return new Kysely<Database>({
-    dialect: new DenoSqliteDialect(new Sqlite(dbPath)),
+    dialect: createDialect(storage),
   });
 }
 
 export async function createOrLoadDatabase(
-  dbPath: string,
+  storage: Storage,
   config: DbInitConfig = DEFAULT_DB_INIT_CONFIG,
 ): Promise<Kysely<Database>> {
-  console.log(`🗄️  Create or load database at ${dbPath}`);
-  // Check if database file exists (excluding :memory:)
-  let dbExists = false;
-  if (dbPath !== ":memory:") {
-    try {
-      await Deno.stat(dbPath);
-      dbExists = true;
-    } catch (_error) {
-      // File doesn't exist
-      dbExists = false;
-    }
-  }
-
-  if (dbExists) {
-    try {
-      const db = loadDatabase(dbPath);
-      return db;
-    } catch (_error) {
-      // console.error("Failed to load database, creating a new one:", error);
-      const db = createDatabase(dbPath);
-      await initializeDatabase(db, config);
-      return db;
-    }
-  } else {
-    const db = createDatabase(dbPath);
-    await initializeDatabase(db, config);
-    return db;
-  }
+  console.log(`🗄️  Create or load database at ${describeStorage(storage)}`);
+  // new and existing databases are both brought to the latest schema
+  const db = createDatabase(storage);
+  await initializeDatabase(db, config);
+  return db;
 }
+
 export interface DbInitConfig {
   available_port_start?: number;
   available_port_end?: number;
   main_port?: number;
   jwt_secret?: string;
+  jwt_key_grace_period?: number;
+  jwt_create_enabled?: boolean;
+  trusted_proxies?: string;
   function_execution_timeout?: number;
+  function_pool_size?: number;
+  function_pool_idle_timeout?: number;
+  function_pool_max_invocations?: number;
+  queue_max_concurrency?: number;
+  queue_result_max_size?: number;
+  queue_result_ttl?: number;
+  webhook_secret?: string;
+  webhook_allowed_hosts?: string;
+  webhook_max_attempts?: number;
 }
 
+// Config keys that hold secrets
+export const SECRET_CONFIG_KEYS = ["jwt_secret", "webhook_secret"];
+
 export const DEFAULT_DB_INIT_CONFIG: DbInitConfig = {
   available_port_start: 8001,
   available_port_end: 8999,
   main_port: 8000,
-  jwt_secret: Deno.env.get("JWT_SECRET") || "default-secret-change-me",
+  jwt_secret: Deno.env.get("JWT_SECRET") || undefined, // a random secret is seeded when unset
+  jwt_key_grace_period: 86400000, // rotated keys verify tokens for 24 hours
+  jwt_create_enabled: Deno.env.get("JWT_CREATE_ENABLED") !== "false",
+  trusted_proxies: Deno.env.get("TRUSTED_PROXIES") || "", // e.g. "10.0.0.0/8,::1"
   function_execution_timeout: 30000, // 30 seconds default timeout
+  function_pool_size: 4, // idle warm workers kept per function
+  function_pool_idle_timeout: 60000, // terminate warm workers idle for 1 minute
+  function_pool_max_invocations: 100, // recycle a worker after 100 calls
+  queue_max_concurrency: 10, // queue items running at once across all tasks
+  queue_result_max_size: 1048576, // results over 1 MiB are not stored
+  queue_result_ttl: 0, // results are kept until the item is purged
+  webhook_secret: Deno.env.get("WEBHOOK_SECRET") || undefined, // a random secret is seeded when unset
+  webhook_max_attempts: 5, // a webhook delivery fails after 5 attempts
+  webhook_allowed_hosts: "", // e.g. "localhost,hooks.internal"
 };
 
-// Initialize database with tables
+const configMigrations: Migration<Database>[] = [
+  {
+    module: "config",
+    version: 1,
+    name: "create_config",
+    async up(dbInstance) {
+      await dbInstance.schema
+        .createTable("config")
+        .ifNotExists()
+        .addColumn("key", "text", (col) => col.primaryKey())
+        .addColumn("value", "text", (col) => col.notNull())
+        .addColumn("created_at", "text", (col) => col.notNull())
+        .addColumn("updated_at", "text", (col) => col.notNull())
+        .execute();
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropTable("config").ifExists().execute();
+    },
+  },
+];
+
+// Migrations of the main database in the order they are applied. Built on use, the table
+// modules import this one.
+export function getMigrations(): Migration<Database>[] {
+  return [
+    ...configMigrations,
+    ...serviceMigrations,
+    ...functionMigrations,
+    ...taskMigrations,
+    ...jwtKeyMigrations,
+    ...apiKeyMigrations,
+    ...workflowMigrations,
+  ];
+}
+
+// Initialize database with tables, returns the migrations applied
 export async function initializeDatabase(
   dbInstance: Kysely<Database>,
   config: DbInitConfig,
-) {
+): Promise<Migration<Database>[]> {
   console.log("🗄️  Initializing database...");
 
-  // Create config table
-  await dbInstance.schema
-    .createTable("config")
-    .ifNotExists()
-    .addColumn("key", "text", (col) => col.primaryKey())
-    .addColumn("value", "text", (col) => col.notNull())
-    .addColumn("created_at", "text", (col) => col.notNull())
-    .addColumn("updated_at", "text", (col) => col.notNull())
-    .execute();
+  const applied = await migrateToLatest(dbInstance, getMigrations());
+  for (const migration of applied) {
+    console.log(`🗄️  Applied migration ${migration.module}@${migration.version} ${migration.name}`);
+  }
 
-  for (const [key, value] of Object.entries(config)) {
+  // config keys added by newer versions get their defaults, secrets that are not configured
+  // a random value of their own
+  const keys = new Set([...Object.keys(config), ...SECRET_CONFIG_KEYS]);
+  for (const key of keys) {
+    const value = config[key as keyof DbInitConfig] ??
+      (SECRET_CONFIG_KEYS.includes(key) ? generateSecret() : undefined);
+    if (value === undefined) continue;
     const existing = await dbInstance
       .selectFrom("config")
       .select("key")
@@ -116,7 +171,7 @@ export async function initializeDatabase(
         .insertInto("config")
         .values({
           key: key,
-          value: value,
+          value: String(value),
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         })
@@ -124,8 +179,7 @@ export async function initializeDatabase(
     }
   }
 
-  // other txn
-  await serviceUp(dbInstance);
-  await functionUp(dbInstance);
-  await taskUp(dbInstance);
+  await seedPorts(dbInstance);
+  await seedJWTKey(dbInstance);
+  return applied;
 }
@@ -0,0 +1,188 @@
+import { DatabaseContext } from "../config.ts";
+import { Kysely } from "kysely";
+import { Database, DEFAULT_DB_INIT_CONFIG } from "./index.ts";
+import { Migration } from "../migrations.ts";
+import { idColumn } from "../storage.ts";
+
+export interface JWTKeyTable {
+  id?: number;
+  kid: string; // Sent in the token header to select the verification key
+  secret: string;
+  created_at: string;
+  expires_at?: string | null; // Set when rotated out, tokens are rejected after this
+}
+
+export interface JWTKey {
+  kid: string;
+  secret: string;
+  created_at: string;
+  expires_at?: string;
+}
+
+export interface JWTKeyInfo {
+  kid: string;
+  status: "active" | "retiring" | "retired";
+  created_at: string;
+  expires_at?: string;
+}
+
+function toJWTKey(row: JWTKeyTable): JWTKey {
+  return {
+    kid: row.kid,
+    secret: row.secret,
+    created_at: row.created_at,
+    expires_at: row.expires_at ?? undefined,
+  };
+}
+
+export function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// The newest key that has not been rotated out signs new tokens
+export async function getSigningKey(context: DatabaseContext): Promise<JWTKey> {
+  const row = await context.dbInstance
+    .selectFrom("jwt_keys")
+    .selectAll()
+    .where("expires_at", "is", null)
+    .orderBy("id", "desc")
+    .executeTakeFirst();
+
+  if (!row) {
+    throw new Error("No active JWT signing key");
+  }
+  return toJWTKey(row);
+}
+
+// Keys that still verify tokens: the signing key and keys within their grace period
+export async function getVerificationKeys(context: DatabaseContext): Promise<JWTKey[]> {
+  const now = new Date().toISOString();
+  const rows = await context.dbInstance
+    .selectFrom("jwt_keys")
+    .selectAll()
+    .where((eb) => eb.or([eb("expires_at", "is", null), eb("expires_at", ">", now)]))
+    .orderBy("id", "desc")
+    .execute();
+
+  return rows.map(toJWTKey);
+}
+
+export async function getAllJWTKeys(context: DatabaseContext): Promise<JWTKeyInfo[]> {
+  const now = new Date().toISOString();
+  const rows = await context.dbInstance
+    .selectFrom("jwt_keys")
+    .selectAll()
+    .orderBy("id", "desc")
+    .execute();
+
+  return rows.map((row) => ({
+    kid: row.kid,
+    status: !row.expires_at ? "active" : row.expires_at > now ? "retiring" : "retired",
+    created_at: row.created_at,
+    expires_at: row.expires_at ?? undefined,
+  }));
+}
+
+// Creates a new signing key, current keys keep verifying tokens for the grace period
+export async function rotateJWTKey(
+  context: DatabaseContext,
+  options: { secret?: string; gracePeriod?: number } = {},
+): Promise<JWTKey> {
+  const now = new Date();
+  const gracePeriod = options.gracePeriod ?? context.config?.jwt_key_grace_period ??
+    DEFAULT_DB_INIT_CONFIG.jwt_key_grace_period!;
+  const key: JWTKey = {
+    kid: crypto.randomUUID(),
+    secret: options.secret || generateSecret(),
+    created_at: now.toISOString(),
+  };
+
+  const trx = await context.dbInstance.startTransaction().execute();
+  try {
+    await trx
+      .updateTable("jwt_keys")
+      .set({ expires_at: new Date(now.getTime() + gracePeriod).toISOString() })
+      .where("expires_at", "is", null)
+      .execute();
+
+    await trx
+      .insertInto("jwt_keys")
+      .values(key)
+      .execute();
+
+    await trx.commit().execute();
+  } catch (error) {
+    await trx.rollback().execute();
+    throw error;
+  }
+
+  return key;
+}
+
+// Retires a key immediately, tokens signed with it are rejected from now on
+export async function retireJWTKey(context: DatabaseContext, kid: string): Promise<void> {
+  const signingKey = await getSigningKey(context);
+  if (signingKey.kid === kid) {
+    throw new Error("The signing key cannot be retired, rotate it first");
+  }
+
+  const result = await context.dbInstance
+    .updateTable("jwt_keys")
+    .set({ expires_at: new Date().toISOString() })
+    .where("kid", "=", kid)
+    .executeTakeFirst();
+
+  if (!result.numUpdatedRows) {
+    throw new Error(`JWT key ${kid} not found`);
+  }
+}
+
+// Seeds the first signing key from the configured secret
+export async function seedJWTKey(
+  dbInstance: Kysely<Database>,
+) {
+  const existingKey = await dbInstance
+    .selectFrom("jwt_keys")
+    .select("id")
+    .executeTakeFirst();
+
+  if (!existingKey) {
+    const jwtSecretConfig = await dbInstance
+      .selectFrom("config")
+      .select("value")
+      .where("key", "=", "jwt_secret")
+      .executeTakeFirst();
+
+    await dbInstance
+      .insertInto("jwt_keys")
+      .values({
+        kid: crypto.randomUUID(),
+        secret: jwtSecretConfig?.value || generateSecret(),
+        created_at: new Date().toISOString(),
+      })
+      .execute();
+  }
+}
+
+export const migrations: Migration<Database>[] = [
+  {
+    module: "jwt_keys",
+    version: 1,
+    name: "create_jwt_keys",
+    async up(dbInstance) {
+      await dbInstance.schema
+        .createTable("jwt_keys")
+        .ifNotExists()
+        .addColumn("id", "integer", idColumn(dbInstance))
+        .addColumn("kid", "text", (col) => col.unique().notNull())
+        .addColumn("secret", "text", (col) => col.notNull())
+        .addColumn("created_at", "text", (col) => col.notNull())
+        .addColumn("expires_at", "text") // Nullable, null while the key signs tokens
+        .execute();
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropTable("jwt_keys").ifExists().execute();
+    },
+  },
+];
@@ -1,6 +1,8 @@
 import { DatabaseContext } from "../config.ts";
 import { Database } from "./index.ts";
-import { Kysely } from "kysely";
+import { Kysely, Transaction } from "kysely";
+import { addColumns, dropColumns, Migration, tableExists } from "../migrations.ts";
+import { idColumn, readBoolean } from "../storage.ts";
 
 export interface ServiceTable {
   id?: number;
@@ -10,16 +12,29 @@ export interface ServiceTable {
   jwt_check: boolean;
   permissions: string; // JSON string
   schema?: string; // JSON string for OpenAPI schema (nullable)
-  port?: number; // Allocated port for the service
+  port?: number | null; // Allocated port for the service
+  revision?: number; // Latest revision number
+  deployed_revision?: number | null; // Revision served instead of the latest one
   created_at?: string;
   updated_at?: string;
 }
 
+// Immutable history of code, permissions and schema changes
+export interface ServiceRevisionTable {
+  id?: number;
+  service_name: string;
+  revision: number;
+  code: string;
+  permissions: string; // JSON string
+  schema?: string;
+  created_at: string;
+}
+
 export interface PortTable {
   port: number;
-  service_name?: string; // null if available, service name if allocated
-  allocated_at?: string;
-  released_at?: string;
+  service_name?: string | null; // null if available, service name if allocated
+  allocated_at?: string | null;
+  released_at?: string | null;
 }
 
 export interface ServicePermissions {
@@ -38,9 +53,59 @@ export interface ServiceConfig {
   permissions: ServicePermissions;
   code?: string;
   schema?: string;
+  revision?: number;
+  deployed_revision?: number;
+}
+
+export interface ServiceRevision {
+  service_name: string;
+  revision: number;
+  code: string;
+  permissions: ServicePermissions;
+  schema?: string;
+  created_at: string;
 }
 
+const DEFAULT_PERMISSIONS: ServicePermissions = {
+  read: [],
+  write: [],
+  env: [],
+  run: [],
+};
+
 // Port allocation functions
+async function claimPort(trx: Transaction<Database>, serviceName: string): Promise<number> {
+  // Find an available port
+  const availablePort = await trx
+    .selectFrom("ports")
+    .select("port")
+    .where((eb) =>
+      eb.or([
+        eb("service_name", "is", null),
+        eb("released_at", "is not", null),
+      ])
+    )
+    .orderBy("port", "asc")
+    .executeTakeFirst();
+
+  if (!availablePort) {
+    throw new Error("No available ports");
+  }
+
+  // Allocate the port to the service
+  await trx
+    .updateTable("ports")
+    .set({
+      service_name: serviceName,
+      allocated_at: new Date().toISOString(),
+      released_at: null,
+    })
+    .where("port", "=", availablePort.port)
+    .execute();
+
+  return availablePort.port;
+}
+
 export async function allocatePort(
   serviceName: string,
   dbInstance: Kysely<Database>,
@@ -48,52 +113,75 @@ export async function allocatePort(
   const trx = await dbInstance.startTransaction().execute();
 
   try {
-    // Find an available port
-    const availablePort = await trx
-      .selectFrom("ports")
-      .select("port")
-      .where((eb) =>
-        eb.or([
-          eb("service_name", "is", null),
-          eb("released_at", "is not", null),
-        ])
-      )
-      .orderBy("port", "asc")
-      .executeTakeFirst();
-
-    if (!availablePort) {
-      throw new Error("No available ports");
-    }
-
-    // Allocate the port to the service
-    await trx
-      .updateTable("ports")
-      .set({
-        service_name: serviceName,
-        allocated_at: new Date().toISOString(),
-        released_at: undefined,
-      })
-      .where("port", "=", availablePort.port)
-      .execute();
+    const port = await claimPort(trx, serviceName);
 
     // Update the service record with the allocated port
     await trx
       .updateTable("services")
       .set({
-        port: availablePort.port,
+        port,
         updated_at: new Date().toISOString(),
       })
       .where("name", "=", serviceName)
       .execute();
 
     await trx.commit().execute();
-    return availablePort.port;
+    return port;
+  } catch (error) {
+    await trx.rollback().execute();
+    throw error;
+  }
+}
+
+// Claims a port without assigning it to the service record, used to start a
+// new revision next to the one currently serving traffic
+export async function reservePort(
+  serviceName: string,
+  dbInstance: Kysely<Database>,
+): Promise<number> {
+  const trx = await dbInstance.startTransaction().execute();
+
+  try {
+    const port = await claimPort(trx, serviceName);
+    await trx.commit().execute();
+    return port;
   } catch (error) {
     await trx.rollback().execute();
     throw error;
   }
 }
 
+export async function assignServicePort(
+  serviceName: string,
+  port: number,
+  dbInstance: Kysely<Database>,
+): Promise<void> {
+  await dbInstance
+    .updateTable("services")
+    .set({
+      port,
+      updated_at: new Date().toISOString(),
+    })
+    .where("name", "=", serviceName)
+    .execute();
+}
+
+// Releases a single port regardless of which service record points to it
+export async function freePort(
+  port: number,
+  dbInstance: Kysely<Database>,
+): Promise<void> {
+  await dbInstance
+    .updateTable("ports")
+    .set({
+      service_name: null,
+      allocated_at: null,
+      released_at: new Date().toISOString(),
+    })
+    .where("port", "=", port)
+    .execute();
+}
+
 export async function releasePort(
   serviceName: string,
   dbInstance: Kysely<Database>,
@@ -112,8 +200,8 @@ export async function releasePort(
       await trx
         .updateTable("ports")
         .set({
-          service_name: undefined,
-          allocated_at: undefined,
+          service_name: null,
+          allocated_at: null,
           released_at: new Date().toISOString(),
         })
         .where("port", "=", service.port)
@@ -123,7 +211,7 @@ export async function releasePort(
       await trx
         .updateTable("services")
         .set({
-          port: undefined,
+          port: null,
           updated_at: new Date().toISOString(),
         })
         .where("name", "=", serviceName)
@@ -173,46 +261,63 @@ export async function createService(
   service: ServiceConfig,
 ): Promise<ServiceConfig> {
   const now = new Date().toISOString();
+  const permissions = JSON.stringify(service.permissions || DEFAULT_PERMISSIONS);
 
-  await context.dbInstance
-    .insertInto("services")
-    .values({
-      name: service.name,
-      code: service.code || "",
-      enabled: service.enabled ?? true,
-      jwt_check: service.jwt_check ?? false,
-      permissions: JSON.stringify(
-        service.permissions || {
-          read: [],
-          write: [],
-          env: [],
-          run: [],
-        },
-      ),
-      schema: service.schema || undefined, // Include schema field (nullable)
-      created_at: now,
-      updated_at: now,
-    })
-    .execute();
+  const trx = await context.dbInstance.startTransaction().execute();
+  try {
+    await trx
+      .insertInto("services")
+      .values({
+        name: service.name,
+        code: service.code || "",
+        enabled: service.enabled ?? true,
+        jwt_check: service.jwt_check ?? false,
+        permissions,
+        schema: service.schema || undefined, // Include schema field (nullable)
+        revision: 1,
+        created_at: now,
+        updated_at: now,
+      })
+      .execute();
+
+    await trx
+      .insertInto("service_revisions")
+      .values({
+        service_name: service.name,
+        revision: 1,
+        code: service.code || "",
+        permissions,
+        schema: service.schema || undefined,
+        created_at: now,
+      })
+      .execute();
+
+    await trx.commit().execute();
+  } catch (error) {
+    await trx.rollback().execute();
+    throw error;
+  }
 
   // Invalidate cache
   context.config = null;
-  return service; // Return the created service
+  return { ...service, revision: 1 }; // Return the created service
 }
 
 export async function updateService(
   context: DatabaseContext,
   updates: ServiceConfig,
 ): Promise<ServiceConfig> {
+  const now = new Date().toISOString();
   const updateData: Partial<{
     code: string;
     enabled: boolean;
     jwt_check: boolean;
     permissions: string;
     schema: string;
+    revision: number;
     updated_at: string;
   }> = {
-    updated_at: new Date().toISOString(),
+    updated_at: now,
   };
 
   if (updates.code !== undefined) updateData.code = updates.code;
@@ -223,13 +328,48 @@ export async function updateService(
   }
   if (updates.schema !== undefined) updateData.schema = updates.schema;
 
-  await context.dbInstance
-    .updateTable("services")
-    .set(updateData)
-    .where("name", "=", name)
-    .execute();
+  const trx = await context.dbInstance.startTransaction().execute();
+  try {
+    const current = await trx
+      .selectFrom("services")
+      .selectAll()
+      .where("name", "=", updates.name)
+      .executeTakeFirst();
+
+    // only code, permissions and schema changes produce a new revision
+    if (
+      current &&
+      ((updateData.code !== undefined && updateData.code !== current.code) ||
+        (updateData.permissions !== undefined && updateData.permissions !== current.permissions) ||
+        (updateData.schema !== undefined && updateData.schema !== (current.schema ?? undefined)))
+    ) {
+      updateData.revision = (current.revision ?? 1) + 1;
+      await trx
+        .insertInto("service_revisions")
+        .values({
+          service_name: updates.name,
+          revision: updateData.revision,
+          code: updateData.code ?? current.code,
+          permissions: updateData.permissions ?? current.permissions,
+          schema: updateData.schema ?? current.schema ?? undefined,
+          created_at: now,
+        })
+        .execute();
+    }
+
+    await trx
+      .updateTable("services")
+      .set(updateData)
+      .where("name", "=", updates.name)
+      .execute();
+
+    await trx.commit().execute();
+  } catch (error) {
+    await trx.rollback().execute();
+    throw error;
+  }
 
-  return updates;
+  return { ...updates, revision: updateData.revision };
 }
 
 export async function deleteService(context: DatabaseContext, name: string): Promise<void> {
@@ -238,6 +378,11 @@ export async function deleteService(context: DatabaseContext, name: string): Pro
     .where("name", "=", name)
     .execute();
 
+  await context.dbInstance
+    .deleteFrom("service_revisions")
+    .where("service_name", "=", name)
+    .execute();
+
   // Invalidate cache
   context.config = null;
 }
@@ -252,8 +397,8 @@ export async function getAllServices(context: DatabaseContext): Promise<
 
   return services.map((service) => ({
     ...service,
-    enabled: Boolean(service.enabled),
-    jwt_check: Boolean(service.jwt_check),
+    enabled: readBoolean(service.enabled),
+    jwt_check: readBoolean(service.jwt_check),
     permissions: JSON.parse(service.permissions) as ServicePermissions,
   }));
 }
@@ -273,49 +418,138 @@ export async function getService(context: DatabaseContext, name: string): Promis
     name: service.name,
     code: service.code,
     schema: service.schema || undefined,
-    enabled: Boolean(service.enabled),
-    jwt_check: Boolean(service.jwt_check),
+    enabled: readBoolean(service.enabled),
+    jwt_check: readBoolean(service.jwt_check),
     permissions: JSON.parse(service.permissions) as ServicePermissions,
+    revision: service.revision ?? 1,
+    deployed_revision: service.deployed_revision ?? undefined,
   };
 }
 
-// ========== migration function ==========
+// ========== revisions ==========
 
-export async function up(
-  dbInstance: Kysely<Database>,
-) {
-  console.log("🗄️  Initializing services table...");
-  // Create services table
-  await dbInstance.schema
-    .createTable("services")
-    .ifNotExists()
-    .addColumn("id", "integer", (col) => col.primaryKey().autoIncrement())
-    .addColumn("name", "text", (col) => col.unique().notNull())
-    .addColumn("code", "text", (col) => col.notNull())
-    .addColumn("enabled", "boolean", (col) => col.notNull().defaultTo(true))
-    .addColumn("jwt_check", "boolean", (col) => col.notNull().defaultTo(false))
-    .addColumn(
-      "permissions",
-      "text",
-      (col) => col.notNull().defaultTo('{"read":[],"write":[],"env":[],"run":[]}'),
-    )
-    .addColumn("schema", "text") // Nullable JSON string for OpenAPI schema
-    .addColumn("port", "integer") // Allocated port for the service
-    .addColumn("created_at", "text", (col) => col.notNull())
-    .addColumn("updated_at", "text", (col) => col.notNull())
+function toServiceRevision(row: ServiceRevisionTable): ServiceRevision {
+  return {
+    service_name: row.service_name,
+    revision: row.revision,
+    code: row.code,
+    permissions: JSON.parse(row.permissions) as ServicePermissions,
+    schema: row.schema ?? undefined,
+    created_at: row.created_at,
+  };
+}
+
+export async function getServiceRevisions(
+  context: DatabaseContext,
+  name: string,
+): Promise<ServiceRevision[]> {
+  const revisions = await context.dbInstance
+    .selectFrom("service_revisions")
+    .selectAll()
+    .where("service_name", "=", name)
+    .orderBy("revision", "desc")
     .execute();
 
-  // Create ports table for port allocation tracking
-  await dbInstance.schema
-    .createTable("ports")
-    .ifNotExists()
-    .addColumn("port", "integer", (col) => col.primaryKey())
-    .addColumn("service_name", "text") // null if available, service name if allocated
-    .addColumn("allocated_at", "text")
-    .addColumn("released_at", "text")
+  return revisions.map(toServiceRevision);
+}
+
+export async function getServiceRevision(
+  context: DatabaseContext,
+  name: string,
+  revision: number,
+): Promise<ServiceRevision | null> {
+  const row = await context.dbInstance
+    .selectFrom("service_revisions")
+    .selectAll()
+    .where("service_name", "=", name)
+    .where("revision", "=", revision)
+    .executeTakeFirst();
+
+  return row ? toServiceRevision(row) : null;
+}
+
+// Revision that should be serving traffic, null if the service does not exist
+export async function getTargetRevision(
+  context: DatabaseContext,
+  name: string,
+): Promise<number | null> {
+  const service = await context.dbInstance
+    .selectFrom("services")
+    .select(["revision", "deployed_revision"])
+    .where("name", "=", name)
+    .executeTakeFirst();
+
+  if (!service) return null;
+  return service.deployed_revision ?? service.revision ?? 1;
+}
+
+// Service config with code, permissions and schema taken from the revision that
+// should be serving traffic
+export async function getDeployedService(
+  context: DatabaseContext,
+  name: string,
+): Promise<ServiceConfig | null> {
+  const service = await getService(context, name);
+  if (!service || service.deployed_revision === undefined) return service;
+
+  const serviceRevision = await getServiceRevision(context, name, service.deployed_revision);
+  if (!serviceRevision) return service;
+
+  return {
+    ...service,
+    code: serviceRevision.code,
+    permissions: serviceRevision.permissions,
+    schema: serviceRevision.schema,
+    revision: serviceRevision.revision,
+  };
+}
+
+// Deploys the given revision, null follows the latest revision again
+export async function deployServiceRevision(
+  context: DatabaseContext,
+  name: string,
+  revision: number | null,
+): Promise<void> {
+  if (revision !== null && !(await getServiceRevision(context, name, revision))) {
+    throw new Error(`Revision ${revision} of service ${name} not found`);
+  }
+
+  await context.dbInstance
+    .updateTable("services")
+    .set({
+      deployed_revision: revision,
+      updated_at: new Date().toISOString(),
+    })
+    .where("name", "=", name)
     .execute();
+}
+
+// Rolling back records the old content as a new revision and deploys it
+export async function rollbackService(
+  context: DatabaseContext,
+  name: string,
+  revision: number,
+): Promise<ServiceConfig> {
+  const serviceRevision = await getServiceRevision(context, name, revision);
+  if (!serviceRevision) {
+    throw new Error(`Revision ${revision} of service ${name} not found`);
+  }
+
+  await updateService(context, {
+    name,
+    code: serviceRevision.code,
+    permissions: serviceRevision.permissions,
+    schema: serviceRevision.schema,
+  } as ServiceConfig);
+  await deployServiceRevision(context, name, null);
 
-  // Initialize ports table with available ports if empty
+  return await getService(context, name) as ServiceConfig;
+}
+
+// ========== migrations ==========
+
+// Fills an empty ports table with the configured port range
+export async function seedPorts(dbInstance: Kysely<Database>) {
   const existingPorts = await dbInstance
     .selectFrom("ports")
     .select("port")
@@ -363,8 +597,10 @@ export async function up(
 
     console.log(`✅ Initialized ${portInserts.length} available ports (${portStart}-${portEnd})`);
   }
+}
 
-  // Add default services if none exist
+// The hello service of a new database, its first revision is recorded by add_service_revisions
+async function seedDefaultServices(dbInstance: Kysely<Database>) {
   const existingServices = await dbInstance
     .selectFrom("services")
     .select("id")
@@ -460,3 +696,104 @@ export async function up(
     console.log("✅ Default services added: hello");
   }
 }
+
+export const migrations: Migration<Database>[] = [
+  {
+    module: "services",
+    version: 1,
+    name: "create_services",
+    async up(dbInstance) {
+      const existed = await tableExists(dbInstance, "services");
+      await dbInstance.schema
+        .createTable("services")
+        .ifNotExists()
+        .addColumn("id", "integer", idColumn(dbInstance))
+        .addColumn("name", "text", (col) => col.unique().notNull())
+        .addColumn("code", "text", (col) => col.notNull())
+        .addColumn("enabled", "boolean", (col) => col.notNull().defaultTo(true))
+        .addColumn("jwt_check", "boolean", (col) => col.notNull().defaultTo(false))
+        .addColumn(
+          "permissions",
+          "text",
+          (col) => col.notNull().defaultTo('{"read":[],"write":[],"env":[],"run":[]}'),
+        )
+        .addColumn("schema", "text") // Nullable JSON string for OpenAPI schema
+        .addColumn("port", "integer") // Allocated port for the service
+        .addColumn("created_at", "text", (col) => col.notNull())
+        .addColumn("updated_at", "text", (col) => col.notNull())
+        .execute();
+      if (!existed) {
+        await seedDefaultServices(dbInstance);
+      }
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropTable("services").ifExists().execute();
+    },
+  },
+  {
+    module: "services",
+    version: 2,
+    name: "add_service_revisions",
+    async up(dbInstance) {
+      await addColumns(dbInstance, "services", [
+        ["revision", "integer", 1],
+        ["deployed_revision", "integer"], // Nullable, serve the latest revision
+      ]);
+      await dbInstance.schema
+        .createTable("service_revisions")
+        .ifNotExists()
+        .addColumn("id", "integer", idColumn(dbInstance))
+        .addColumn("service_name", "text", (col) => col.notNull())
+        .addColumn("revision", "integer", (col) => col.notNull())
+        .addColumn("code", "text", (col) => col.notNull())
+        .addColumn(
+          "permissions",
+          "text",
+          (col) => col.notNull().defaultTo('{"read":[],"write":[],"env":[],"run":[]}'),
+        )
+        .addColumn("schema", "text")
+        .addColumn("created_at", "text", (col) => col.notNull())
+        .addUniqueConstraint("service_revisions_name_revision", ["service_name", "revision"])
+        .execute();
+      // services created before revisions start at revision 1
+      const services = await dbInstance.selectFrom("services").selectAll().execute();
+      for (const service of services) {
+        await dbInstance
+          .insertInto("service_revisions")
+          .values({
+            service_name: service.name,
+            revision: service.revision ?? 1,
+            code: service.code,
+            permissions: service.permissions,
+            schema: service.schema || undefined,
+            created_at: service.updated_at ?? new Date().toISOString(),
+          })
+          .onConflict((oc) => oc.doNothing())
+          .execute();
+      }
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropTable("service_revisions").ifExists().execute();
+      await dropColumns(dbInstance, "services", ["revision", "deployed_revision"]);
+    },
+  },
+  {
+    module: "ports",
+    version: 1,
+    name: "create_ports",
+    async up(dbInstance) {
+      // Ports table for port allocation tracking
+      await dbInstance.schema
+        .createTable("ports")
+        .ifNotExists()
+        .addColumn("port", "integer", (col) => col.primaryKey())
+        .addColumn("service_name", "text") // null if available, service name if allocated
+        .addColumn("allocated_at", "text")
+        .addColumn("released_at", "text")
+        .execute();
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropTable("ports").ifExists().execute();
+    },
+  },
+];
@@ -1,17 +1,37 @@
 import { DatabaseContext } from "../config.ts";
-import { Kysely } from "kysely";
 import { Database } from "./index.ts";
+import { addColumns, dropColumns, Migration } from "../migrations.ts";
 import { FunctionConfig } from "./functions.ts";
+import { nextCronRun } from "../../src/cron.ts";
 
-// cron: cron != null, and last_run is meeting the cron schedule
+// What the scheduler does with runs missed while no executor was running
+export const CATCH_UP_POLICIES = ["skip", "once", "all"] as const;
+export type CatchUpPolicy = typeof CATCH_UP_POLICIES[number];
+
+// How the delay between retries grows, see retryDelay in src/managers/task-manager.ts
+export const RETRY_STRATEGIES = ["fixed", "linear", "exponential"] as const;
+export type RetryStrategy = typeof RETRY_STRATEGIES[number];
+
+// cron: cron != null, the queue executor enqueues a run whenever next_run has passed
 export interface TaskTable {
   id?: string;
   name: string;
   function_name?: string; // Foreign key to functions table
 
-  // concurrency_count: number; // select ... limit *; promise.allsattled([data])
+  concurrency_count?: number | null; // Runs of this task at once, unlimited when null
   retry_count: number; // retry count, if failed, retry this many times
   retry_delay: number; // retry delay in milliseconds
+  retry_strategy?: RetryStrategy;
+  retry_max_delay?: number | null; // Upper bound of the retry delay, in milliseconds
+
+  cron?: string | null; // Five field cron expression, null for manually enqueued tasks
+  timezone?: string | null; // IANA timezone the cron expression is evaluated in, UTC when null
+  default_params?: string | null; // JSON string, params of scheduled runs
+  catch_up?: CatchUpPolicy;
+  last_run?: string | null; // Scheduled time of the last enqueued run
+  next_run?: string | null;
+
+  webhook_url?: string | null; // POSTed the outcome of every run that completed or died
 }
 
 export interface TaskConfig extends TaskTable, FunctionConfig {}
@@ -31,6 +51,9 @@ export async function createTask(
     enabled: taskConfig.enabled ?? true,
     permissions: taskConfig.permissions,
     description: taskConfig.description,
+    timeout: taskConfig.timeout,
+    auth: taskConfig.auth,
+    auth_scope: taskConfig.auth_scope,
   };
 
   // Create the function first
@@ -42,13 +65,26 @@ export async function createTask(
       id: taskId,
       name: taskConfig.name,
       function_name: createdFunction.name, // Use function name as foreign key
-      // concurrency_count: taskConfig.concurrency_count,
+      concurrency_count: taskConfig.concurrency_count || null,
       retry_count: taskConfig.retry_count,
       retry_delay: taskConfig.retry_delay,
+      retry_strategy: taskConfig.retry_strategy ?? "fixed",
+      retry_max_delay: taskConfig.retry_max_delay || null,
+      cron: taskConfig.cron || null,
+      timezone: taskConfig.timezone || null,
+      default_params: taskConfig.default_params || null,
+      catch_up: taskConfig.catch_up ?? "skip",
+      next_run: scheduleNextRun(taskConfig.cron, taskConfig.timezone),
+      webhook_url: taskConfig.webhook_url || null,
     })
     .execute();
 
-  return { ...taskConfig, id: taskId, function_name: createdFunction.name };
+  return {
+    ...taskConfig,
+    id: taskId,
+    function_name: createdFunction.name,
+    next_run: scheduleNextRun(taskConfig.cron, taskConfig.timezone),
+  };
 }
 
 export async function updateTask(
@@ -73,17 +109,42 @@ export async function updateTask(
   // Update task data
   const updateData: Partial<{
     name: string;
-    concurrency_count: number;
+    concurrency_count: number | null;
     retry_count: number;
     retry_delay: number;
+    retry_strategy: RetryStrategy;
+    retry_max_delay: number | null;
+    cron: string | null;
+    timezone: string | null;
+    default_params: string | null;
+    catch_up: CatchUpPolicy;
+    next_run: string | null;
+    webhook_url: string | null;
   }> = {};
 
   if (updates.name !== undefined) updateData.name = updates.name;
-  // if (updates.concurrency_count !== undefined) {
-  //   updateData.concurrency_count = updates.concurrency_count;
-  // }
+  if (updates.concurrency_count !== undefined) {
+    updateData.concurrency_count = updates.concurrency_count || null;
+  }
   if (updates.retry_count !== undefined) updateData.retry_count = updates.retry_count;
   if (updates.retry_delay !== undefined) updateData.retry_delay = updates.retry_delay;
+  if (updates.retry_strategy !== undefined) updateData.retry_strategy = updates.retry_strategy;
+  if (updates.retry_max_delay !== undefined) {
+    updateData.retry_max_delay = updates.retry_max_delay || null;
+  }
+  if (updates.default_params !== undefined) {
+    updateData.default_params = updates.default_params || null;
+  }
+  if (updates.catch_up !== undefined) updateData.catch_up = updates.catch_up;
+  if (updates.webhook_url !== undefined) updateData.webhook_url = updates.webhook_url || null;
+  // a new schedule starts from now, runs missed under the old one are not caught up
+  if (updates.cron !== undefined || updates.timezone !== undefined) {
+    updateData.cron = updates.cron !== undefined ? updates.cron || null : currentTask.cron ?? null;
+    updateData.timezone = updates.timezone !== undefined
+      ? updates.timezone || null
+      : currentTask.timezone ?? null;
+    updateData.next_run = scheduleNextRun(updateData.cron, updateData.timezone);
+  }
 
   if (Object.keys(updateData).length > 0) {
     await context.dbInstance
@@ -194,18 +255,125 @@ export async function getTasksByName(
   return taskConfigs;
 }
 
-export async function up(
-  dbInstance: Kysely<Database>,
-) {
-  // Create tasks table
-  await dbInstance.schema
-    .createTable("tasks")
-    .ifNotExists()
-    .addColumn("id", "text", (col) => col.primaryKey())
-    .addColumn("name", "text", (col) => col.notNull())
-    .addColumn("function_name", "text", (col) => col.notNull())
-    // .addColumn("concurrency_count", "integer", (col) => col.notNull().defaultTo(1))
-    .addColumn("retry_count", "integer", (col) => col.notNull().defaultTo(0))
-    .addColumn("retry_delay", "integer", (col) => col.notNull().defaultTo(1000))
+// First run of a schedule after `after`, null when the task has no cron expression
+export function scheduleNextRun(
+  cron: string | null | undefined,
+  timezone: string | null | undefined,
+  after: Date = new Date(),
+): string | null {
+  return cron ? nextCronRun(cron, after, timezone || "UTC").toISOString() : null;
+}
+
+// Cron tasks whose next run is due
+export async function getDueCronTasks(
+  context: DatabaseContext,
+  now: Date = new Date(),
+): Promise<TaskTable[]> {
+  return await context.dbInstance
+    .selectFrom("tasks")
+    .selectAll()
+    .where("cron", "is not", null)
+    .where("next_run", "<=", now.toISOString())
     .execute();
 }
+
+// Moves a task's schedule forward, only if no other executor did so first
+export async function advanceCronSchedule(
+  context: DatabaseContext,
+  id: string,
+  expectedNextRun: string,
+  schedule: { last_run?: string; next_run: string },
+): Promise<boolean> {
+  const result = await context.dbInstance
+    .updateTable("tasks")
+    .set(schedule)
+    .where("id", "=", id)
+    .where("next_run", "=", expectedNextRun)
+    .executeTakeFirst();
+
+  return Number(result.numUpdatedRows) > 0;
+}
+
+export const migrations: Migration<Database>[] = [
+  {
+    module: "tasks",
+    version: 1,
+    name: "create_tasks",
+    async up(dbInstance) {
+      await dbInstance.schema
+        .createTable("tasks")
+        .ifNotExists()
+        .addColumn("id", "text", (col) => col.primaryKey())
+        .addColumn("name", "text", (col) => col.notNull())
+        .addColumn("function_name", "text", (col) => col.notNull())
+        .addColumn("retry_count", "integer", (col) => col.notNull().defaultTo(0))
+        .addColumn("retry_delay", "integer", (col) => col.notNull().defaultTo(1000))
+        .execute();
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropTable("tasks").ifExists().execute();
+    },
+  },
+  {
+    module: "tasks",
+    version: 2,
+    name: "add_task_schedules",
+    async up(dbInstance) {
+      await addColumns(dbInstance, "tasks", [
+        ["cron", "text"], // Nullable, not scheduled
+        ["timezone", "text"],
+        ["default_params", "text"],
+        ["catch_up", "text", "skip"],
+        ["last_run", "text"],
+        ["next_run", "text"],
+      ]);
+    },
+    async down(dbInstance) {
+      await dropColumns(dbInstance, "tasks", [
+        "cron",
+        "timezone",
+        "default_params",
+        "catch_up",
+        "last_run",
+        "next_run",
+      ]);
+    },
+  },
+  {
+    module: "tasks",
+    version: 3,
+    name: "add_task_concurrency",
+    async up(dbInstance) {
+      // Nullable, unlimited
+      await addColumns(dbInstance, "tasks", [["concurrency_count", "integer"]]);
+    },
+    async down(dbInstance) {
+      await dropColumns(dbInstance, "tasks", ["concurrency_count"]);
+    },
+  },
+  {
+    module: "tasks",
+    version: 4,
+    name: "add_task_retry_strategy",
+    async up(dbInstance) {
+      await addColumns(dbInstance, "tasks", [
+        ["retry_strategy", "text", "fixed"],
+        ["retry_max_delay", "integer"], // Nullable, see MAX_RETRY_DELAY
+      ]);
+    },
+    async down(dbInstance) {
+      await dropColumns(dbInstance, "tasks", ["retry_strategy", "retry_max_delay"]);
+    },
+  },
+  {
+    module: "tasks",
+    version: 5,
+    name: "add_task_webhook_url",
+    async up(dbInstance) {
+      await addColumns(dbInstance, "tasks", [["webhook_url", "text"]]);
+    },
+    async down(dbInstance) {
+      await dropColumns(dbInstance, "tasks", ["webhook_url"]);
+    },
+  },
+];
@@ -0,0 +1,144 @@
+import { DatabaseContext } from "../config.ts";
+import { Database } from "./index.ts";
+import { Migration } from "../migrations.ts";
+import { readBoolean } from "../storage.ts";
+
+// A step runs its task once its dependencies completed. The params are the workflow run's
+// params for steps without dependencies, the output of the only dependency, or an object of
+// the dependencies' outputs by step ID when a step joins several.
+export interface WorkflowStep {
+  id: string; // Unique within the workflow
+  task_id: string;
+  depends_on?: string[];
+  for_each?: boolean; // Fan out, run the task once per element of the params array
+}
+
+export interface WorkflowTable {
+  id?: string;
+  name: string;
+  description?: string | null;
+  steps: string; // JSON string of WorkflowStep[]
+  enabled: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface WorkflowConfig {
+  id?: string;
+  name: string;
+  description?: string;
+  steps: WorkflowStep[];
+  enabled?: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+function toWorkflowConfig(row: WorkflowTable): WorkflowConfig {
+  return {
+    ...row,
+    description: row.description ?? undefined,
+    steps: JSON.parse(row.steps) as WorkflowStep[],
+    enabled: readBoolean(row.enabled),
+  };
+}
+
+export async function createWorkflow(
+  context: DatabaseContext,
+  workflowConfig: WorkflowConfig,
+): Promise<WorkflowConfig> {
+  const now = new Date().toISOString();
+  const id = crypto.randomUUID().replace(/-/g, "");
+  await context.dbInstance
+    .insertInto("workflows")
+    .values({
+      id,
+      name: workflowConfig.name,
+      description: workflowConfig.description || null,
+      steps: JSON.stringify(workflowConfig.steps),
+      enabled: workflowConfig.enabled ?? true,
+      created_at: now,
+      updated_at: now,
+    })
+    .execute();
+  return (await getWorkflowById(context, id))!;
+}
+
+// Runs already started keep the steps they started with
+export async function updateWorkflow(
+  context: DatabaseContext,
+  id: string,
+  updates: Partial<WorkflowConfig>,
+): Promise<WorkflowConfig> {
+  const updateData: Partial<Omit<WorkflowTable, "id" | "created_at">> = {
+    updated_at: new Date().toISOString(),
+  };
+  if (updates.name !== undefined) updateData.name = updates.name;
+  if (updates.description !== undefined) updateData.description = updates.description || null;
+  if (updates.steps !== undefined) updateData.steps = JSON.stringify(updates.steps);
+  if (updates.enabled !== undefined) updateData.enabled = updates.enabled;
+
+  const result = await context.dbInstance
+    .updateTable("workflows")
+    .set(updateData)
+    .where("id", "=", id)
+    .executeTakeFirst();
+  if (Number(result.numUpdatedRows) === 0) {
+    throw new Error(`Workflow with id ${id} not found`);
+  }
+  return (await getWorkflowById(context, id))!;
+}
+
+export async function deleteWorkflow(context: DatabaseContext, id: string): Promise<void> {
+  const result = await context.dbInstance
+    .deleteFrom("workflows")
+    .where("id", "=", id)
+    .executeTakeFirst();
+  if (Number(result.numDeletedRows) === 0) {
+    throw new Error(`Workflow with id ${id} not found`);
+  }
+}
+
+export async function getWorkflowById(
+  context: DatabaseContext,
+  id: string,
+): Promise<WorkflowConfig | null> {
+  const row = await context.dbInstance
+    .selectFrom("workflows")
+    .selectAll()
+    .where("id", "=", id)
+    .executeTakeFirst();
+  return row ? toWorkflowConfig(row) : null;
+}
+
+export async function getAllWorkflows(context: DatabaseContext): Promise<WorkflowConfig[]> {
+  const rows = await context.dbInstance
+    .selectFrom("workflows")
+    .selectAll()
+    .orderBy("created_at")
+    .execute();
+  return rows.map(toWorkflowConfig);
+}
+
+export const migrations: Migration<Database>[] = [
+  {
+    module: "workflows",
+    version: 1,
+    name: "create_workflows",
+    async up(dbInstance) {
+      await dbInstance.schema
+        .createTable("workflows")
+        .ifNotExists()
+        .addColumn("id", "text", (col) => col.primaryKey())
+        .addColumn("name", "text", (col) => col.notNull())
+        .addColumn("description", "text")
+        .addColumn("steps", "text", (col) => col.notNull())
+        .addColumn("enabled", "boolean", (col) => col.notNull().defaultTo(true))
+        .addColumn("created_at", "text", (col) => col.notNull())
+        .addColumn("updated_at", "text", (col) => col.notNull())
+        .execute();
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropTable("workflows").ifExists().execute();
+    },
+  },
+];
@@ -0,0 +1,66 @@
+import { Kysely } from "kysely";
+import type { QueueBase } from "./queue.ts";
+
+// In-process notifications about a queue database. Other processes sharing the database do not
+// see them, so waiters still wake up on a timeout and check the database themselves.
+//   "ready"          - an item may be ready to start, the executor checks the queue
+//   "item:<queueId>" - a trace was written or the item's status changed
+//   "webhook"        - a webhook delivery may be due, the dispatcher checks the deliveries
+const buses = new WeakMap<Kysely<QueueBase>, EventTarget>();
+
+function getBus(dbInstance: Kysely<QueueBase>): EventTarget {
+  let bus = buses.get(dbInstance);
+  if (!bus) {
+    bus = new EventTarget();
+    buses.set(dbInstance, bus);
+  }
+  return bus;
+}
+
+export function publishQueueEvent(dbInstance: Kysely<QueueBase>, type: string) {
+  getBus(dbInstance).dispatchEvent(new Event(type));
+}
+
+export interface QueueEventWaiter {
+  wait(timeout: number, signal?: AbortSignal): Promise<void>;
+  close(): void;
+}
+
+// Waits for events of one type. Events published while the caller is busy are not lost,
+// the next wait returns at once.
+export function createQueueEventWaiter(
+  dbInstance: Kysely<QueueBase>,
+  type: string,
+): QueueEventWaiter {
+  const bus = getBus(dbInstance);
+  let pending = false;
+  let wake: (() => void) | undefined;
+  const listener = () => {
+    pending = true;
+    wake?.();
+  };
+  bus.addEventListener(type, listener);
+
+  return {
+    async wait(timeout, signal) {
+      if (!pending && !signal?.aborted) {
+        await new Promise<void>((resolve) => {
+          const done = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", done);
+            wake = undefined;
+            resolve();
+          };
+          const timer = setTimeout(done, timeout);
+          signal?.addEventListener("abort", done, { once: true });
+          wake = done;
+        });
+      }
+      pending = false;
+    },
+    close() {
+      bus.removeEventListener(type, listener);
+      wake?.();
+    },
+  };
+}
@@ -1,17 +1,35 @@
-import { Kysely } from "kysely";
-import { Database as Sqlite } from "jsr:@db/sqlite";
-import { DenoSqliteDialect } from "../kysely_deno_sqlite3_adapter.ts";
-import { getTaskById } from "../tables/tasks.ts";
+import { Kysely, sql } from "kysely";
+import { getTaskById, RetryStrategy, TaskConfig } from "../tables/tasks.ts";
 import { DatabaseContext } from "../config.ts";
+import { publishQueueEvent } from "./events.ts";
+import { migrations as workflowRunMigrations, WorkflowRun } from "./workflow_runs.ts";
+import { migrations as webhookDeliveryMigrations, WebhookDelivery } from "./webhooks.ts";
+import { addColumns, dropColumns, migrateToLatest, Migration } from "../migrations.ts";
+import { createDialect, idColumn, Storage } from "../storage.ts";
 
 export interface Queue {
   id: string;
   task_id: string;
   params: string; // JSON string
-  status: "queued" | "running" | "completed" | "failed";
-  retries: number;
+  status: "queued" | "running" | "completed" | "dead" | "cancelled"; // dead items ran out of retries
+  retries: number; // retries used so far
   max_retries: number;
   retry_delay: number; // in milliseconds
+  retry_strategy: RetryStrategy;
+  retry_max_delay?: number | null;
+  next_attempt_at?: string | null; // a queued retry is not picked up before this time
+  run_at?: string | null; // delayed items are not picked up before this time
+  priority: number; // higher runs first
+  dedupe_key?: string | null; // one pending item per task and key
+  lease_owner?: string | null; // executor running the item
+  lease_expires_at?: string | null; // the item is re-queued when its lease runs out
+  workflow_run_id?: string | null; // set for the steps of a workflow run
+  workflow_step?: string | null;
+  workflow_index?: number | null; // element of a fan-out step
+  result?: string | null; // JSON string, the value a completed item returned
+  error?: string | null; // why the last attempt failed, or why a completed item has no result
+  result_expires_at?: string | null; // the result and error are cleared after this time
+  callback_url?: string | null; // POSTed the outcome once the item completed or died
   created_at: string;
   updated_at: string;
 }
@@ -28,119 +46,447 @@ export interface Trace {
 export interface QueueBase {
   queue: Queue;
   trace: Trace;
+  workflow_run: WorkflowRun;
+  webhook_delivery: WebhookDelivery;
 }
 
-async function createQueueBase(dbPath: string) {
-  const queueBase = new Kysely<QueueBase>({
-    dialect: new DenoSqliteDialect(new Sqlite(dbPath)),
-  });
+// Items that block their dedupe_key, a literal so that Postgres matches it to the partial index
+const PENDING = sql<boolean>`status in ('queued', 'running')`;
 
-  await queueBase.schema
-    .createTable("queue")
-    .addColumn("id", "text", (col) => col.primaryKey())
-    .addColumn("task_id", "text", (col) => col.notNull())
-    .addColumn("params", "text", (col) => col.notNull())
-    .addColumn("status", "text", (col) => col.notNull())
-    .addColumn("retries", "integer", (col) => col.notNull().defaultTo(0))
-    .addColumn("max_retries", "integer", (col) => col.notNull().defaultTo(3))
-    .addColumn("retry_delay", "integer", (col) => col.notNull().defaultTo(1000)) // default 1 second
-    .addColumn("created_at", "text", (col) => col.notNull())
-    .addColumn("updated_at", "text", (col) => col.notNull())
-    .execute();
+const queueMigrations: Migration<QueueBase>[] = [
+  {
+    module: "queue",
+    version: 1,
+    name: "create_queue",
+    async up(dbInstance) {
+      await dbInstance.schema
+        .createTable("queue")
+        .ifNotExists()
+        .addColumn("id", "text", (col) => col.primaryKey())
+        .addColumn("task_id", "text", (col) => col.notNull())
+        .addColumn("params", "text", (col) => col.notNull())
+        .addColumn("status", "text", (col) => col.notNull())
+        .addColumn("retries", "integer", (col) => col.notNull().defaultTo(0))
+        .addColumn("max_retries", "integer", (col) => col.notNull().defaultTo(3))
+        .addColumn("retry_delay", "integer", (col) => col.notNull().defaultTo(1000)) // default 1 second
+        .addColumn("created_at", "text", (col) => col.notNull())
+        .addColumn("updated_at", "text", (col) => col.notNull())
+        .execute();
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropTable("queue").ifExists().execute();
+    },
+  },
+  {
+    module: "queue",
+    version: 2,
+    name: "add_queue_leases",
+    async up(dbInstance) {
+      await addColumns(dbInstance, "queue", [
+        ["lease_owner", "text"],
+        ["lease_expires_at", "text"],
+      ]);
+    },
+    async down(dbInstance) {
+      await dropColumns(dbInstance, "queue", ["lease_owner", "lease_expires_at"]);
+    },
+  },
+  {
+    module: "queue",
+    version: 3,
+    name: "add_queue_retry_strategy",
+    async up(dbInstance) {
+      await addColumns(dbInstance, "queue", [
+        ["retry_strategy", "text", "fixed"],
+        ["retry_max_delay", "integer"],
+        ["next_attempt_at", "text"],
+      ]);
+      // items that ran out of retries used to end up failed
+      await dbInstance
+        .updateTable("queue")
+        .set({ status: "dead" })
+        .where("status", "=", "failed" as Queue["status"])
+        .execute();
+    },
+    async down(dbInstance) {
+      await dbInstance
+        .updateTable("queue")
+        .set({ status: "failed" as Queue["status"] })
+        .where("status", "=", "dead")
+        .execute();
+      await dropColumns(dbInstance, "queue", [
+        "retry_strategy",
+        "retry_max_delay",
+        "next_attempt_at",
+      ]);
+    },
+  },
+  {
+    module: "queue",
+    version: 4,
+    name: "add_queue_scheduling",
+    async up(dbInstance) {
+      await addColumns(dbInstance, "queue", [
+        ["run_at", "text"],
+        ["priority", "integer", 0],
+        ["dedupe_key", "text"],
+      ]);
+    },
+    async down(dbInstance) {
+      await dropColumns(dbInstance, "queue", ["run_at", "priority", "dedupe_key"]);
+    },
+  },
+  {
+    module: "queue",
+    version: 5,
+    name: "add_queue_workflow_steps",
+    async up(dbInstance) {
+      await addColumns(dbInstance, "queue", [
+        ["workflow_run_id", "text"],
+        ["workflow_step", "text"],
+        ["workflow_index", "integer"],
+      ]);
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropIndex("queue_workflow_run_id_index").ifExists().execute();
+      await dropColumns(dbInstance, "queue", [
+        "workflow_run_id",
+        "workflow_step",
+        "workflow_index",
+      ]);
+    },
+  },
+  {
+    module: "queue",
+    version: 6,
+    name: "add_queue_results",
+    async up(dbInstance) {
+      await addColumns(dbInstance, "queue", [
+        ["result", "text"],
+        ["error", "text"],
+        ["result_expires_at", "text"],
+      ]);
+    },
+    async down(dbInstance) {
+      await dropColumns(dbInstance, "queue", ["result", "error", "result_expires_at"]);
+    },
+  },
+  {
+    module: "queue",
+    version: 7,
+    name: "add_queue_callback_url",
+    async up(dbInstance) {
+      await addColumns(dbInstance, "queue", [["callback_url", "text"]]);
+    },
+    async down(dbInstance) {
+      await dropColumns(dbInstance, "queue", ["callback_url"]);
+    },
+  },
+  {
+    module: "queue",
+    version: 8,
+    name: "add_queue_dedupe_index",
+    async up(dbInstance) {
+      // keep the oldest of the pending items that raced past the dedupe check
+      const pending = await dbInstance
+        .selectFrom("queue")
+        .select(["id", "task_id", "dedupe_key"])
+        .where("dedupe_key", "is not", null)
+        .where(PENDING)
+        .orderBy("created_at")
+        .execute();
+      const seen = new Set<string>();
+      for (const item of pending) {
+        const key = JSON.stringify([item.task_id, item.dedupe_key]);
+        if (!seen.has(key)) {
+          seen.add(key);
+          continue;
+        }
+        await dbInstance.updateTable("queue").set({ dedupe_key: null }).where("id", "=", item.id)
+          .execute();
+      }
+      // one pending item per task and key, even with several nodes enqueueing at once
+      await dbInstance.schema
+        .createIndex("queue_dedupe_key_index")
+        .ifNotExists()
+        .unique()
+        .on("queue")
+        .columns(["task_id", "dedupe_key"])
+        .where(PENDING)
+        .execute();
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropIndex("queue_dedupe_key_index").ifExists().execute();
+    },
+  },
+  {
+    module: "trace",
+    version: 1,
+    name: "create_trace",
+    async up(dbInstance) {
+      await dbInstance.schema
+        .createTable("trace")
+        .ifNotExists()
+        .addColumn("id", "integer", idColumn(dbInstance))
+        .addColumn("ts", "text", (col) => col.notNull())
+        .addColumn("task_id", "text", (col) => col.notNull())
+        .addColumn("queue_id", "text", (col) => col.notNull())
+        .addColumn("status", "text", (col) => col.notNull())
+        .addColumn("data", "text", (col) => col.notNull())
+        .execute();
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropTable("trace").ifExists().execute();
+    },
+  },
+  {
+    module: "trace",
+    version: 2,
+    name: "add_trace_queue_id_index",
+    async up(dbInstance) {
+      // subscribers look traces up by queue item
+      await dbInstance.schema
+        .createIndex("trace_queue_id_index")
+        .ifNotExists()
+        .on("trace")
+        .column("queue_id")
+        .execute();
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropIndex("trace_queue_id_index").ifExists().execute();
+    },
+  },
+];
 
-  await queueBase.schema
-    .createTable("trace")
-    .addColumn("id", "integer", (col) => col.primaryKey().autoIncrement())
-    .addColumn("ts", "text", (col) => col.notNull())
-    .addColumn("task_id", "text", (col) => col.notNull())
-    .addColumn("queue_id", "text", (col) => col.notNull())
-    .addColumn("status", "text", (col) => col.notNull())
-    .addColumn("data", "text", (col) => col.notNull())
-    .execute();
-  return queueBase;
-}
+// Migrations of the queue database in the order they are applied
+export const QUEUE_MIGRATIONS: Migration<QueueBase>[] = [
+  ...queueMigrations,
+  ...workflowRunMigrations,
+  ...webhookDeliveryMigrations,
+];
 
-async function checkDatabaseExists(dbPath: string): Promise<boolean> {
-  // check file dbPath exists
-  try {
-    const stats = await Deno.stat(dbPath);
-    return stats.isFile;
-  } catch {
-    return false;
-  }
-}
-
-function loadExistingQueueBase(dbPath: string): Kysely<QueueBase> {
-  const queueBase = new Kysely<QueueBase>({
-    dialect: new DenoSqliteDialect(new Sqlite(dbPath)),
+export function createQueueBase(storage: Storage): Kysely<QueueBase> {
+  return new Kysely<QueueBase>({
+    dialect: createDialect(storage),
   });
+}
 
+// new and existing queue databases are both brought to the latest schema
+export async function createOrLoadQueuebase(storage: Storage) {
+  const queueBase = createQueueBase(storage);
+  await migrateToLatest(queueBase, QUEUE_MIGRATIONS);
   return queueBase;
 }
 
-export async function createOrLoadQueuebase(dbPath: string) {
-  if (dbPath === ":memory:") {
-    return await createQueueBase(dbPath);
-  } else {
-    const dbExists = await checkDatabaseExists(dbPath);
-    if (dbExists) {
-      return loadExistingQueueBase(dbPath);
-    } else {
-      return await createQueueBase(dbPath);
-    }
-  }
-}
+const LEASE_EXPIRED = "Lease expired";
+
+export type QueueOutcome = Partial<Pick<Queue, "result" | "error" | "result_expires_at">>;
 
+// Finishes an item, with an owner only while that executor still holds the lease
 export async function updateQueueStatus(
   dbInstance: Kysely<QueueBase>,
   queueId: string,
-  status: "running" | "completed" | "failed",
+  status: "completed" | "dead",
+  owner?: string,
+  outcome: QueueOutcome = {},
 ): Promise<void> {
   const now = new Date().toISOString();
   await dbInstance
     .updateTable("queue")
     .set({
       status,
+      lease_owner: null,
+      lease_expires_at: null,
+      ...outcome,
       updated_at: now,
     })
     .where("id", "=", queueId)
+    .$if(owner !== undefined, (qb) => qb.where("lease_owner", "=", owner!))
     .execute();
+  publishQueueEvent(dbInstance, `item:${queueId}`);
 }
 
-export async function getQueueAvailableRetries(
+// Atomically moves a queued item to running under a lease, returns undefined when another
+// executor claimed it first
+export async function claimQueueItem(
   dbInstance: Kysely<QueueBase>,
   queueId: string,
-): Promise<number> {
-  const queue = await dbInstance
-    .selectFrom("queue")
-    .select(["max_retries", "retries"])
+  owner: string,
+  leaseDuration: number,
+): Promise<Queue | undefined> {
+  const now = new Date();
+  return await dbInstance
+    .updateTable("queue")
+    .set({
+      status: "running",
+      lease_owner: owner,
+      lease_expires_at: new Date(now.getTime() + leaseDuration).toISOString(),
+      updated_at: now.toISOString(),
+    })
     .where("id", "=", queueId)
+    .where("status", "=", "queued")
+    .returningAll()
     .executeTakeFirst();
-  return queue ? queue.max_retries - queue.retries : 0;
 }
 
-export async function reduceQueueRetries(
+// Extends the lease of a running item, returns false when the lease was lost
+export async function renewQueueLease(
   dbInstance: Kysely<QueueBase>,
   queueId: string,
+  owner: string,
+  leaseDuration: number,
+): Promise<boolean> {
+  const result = await dbInstance
+    .updateTable("queue")
+    .set({ lease_expires_at: new Date(Date.now() + leaseDuration).toISOString() })
+    .where("id", "=", queueId)
+    .where("status", "=", "running")
+    .where("lease_owner", "=", owner)
+    .executeTakeFirst();
+  return Number(result.numUpdatedRows) > 0;
+}
+
+// Whoever holds an expired lease crashed, hung or lost the database, which counts as a failed
+// attempt: items with retries left are queued for their next retry, the others are dead
+export interface ExpiredLeaseOptions {
+  retryAt: (item: Queue) => Date; // when an item with retries left runs again
+  result_expires_at?: string | null; // of the dead items
+}
+
+// Reaps running items whose lease expired, returns the re-queued and the dead items
+export async function requeueExpiredLeases(
+  dbInstance: Kysely<QueueBase>,
+  options: ExpiredLeaseOptions,
+  now: Date = new Date(),
+): Promise<{ requeued: Queue[]; dead: Queue[] }> {
+  const expired = await dbInstance
+    .selectFrom("queue")
+    .selectAll()
+    .where("status", "=", "running")
+    .where("lease_expires_at", "<", now.toISOString())
+    .execute();
+  const reaped = { requeued: [] as Queue[], dead: [] as Queue[] };
+  for (const item of expired) {
+    const dead = item.retries >= item.max_retries;
+    const update = dead
+      ? dbInstance.updateTable("queue").set({
+        status: "dead",
+        error: LEASE_EXPIRED,
+        result_expires_at: options.result_expires_at ?? null,
+        lease_owner: null,
+        lease_expires_at: null,
+        updated_at: now.toISOString(),
+      })
+      : dbInstance.updateTable("queue").set((eb) => ({
+        status: "queued",
+        retries: eb("retries", "+", 1),
+        next_attempt_at: options.retryAt(item).toISOString(),
+        error: LEASE_EXPIRED,
+        lease_owner: null,
+        lease_expires_at: null,
+        updated_at: now.toISOString(),
+      }));
+    // the lease may have been renewed since it was read
+    const result = await update
+      .where("id", "=", item.id)
+      .where("status", "=", "running")
+      .where("lease_expires_at", "<", now.toISOString())
+      .executeTakeFirst();
+    if (Number(result.numUpdatedRows) === 0) continue;
+    if (dead) {
+      reaped.dead.push(item);
+      publishQueueEvent(dbInstance, `item:${item.id}`);
+    } else {
+      reaped.requeued.push(item);
+    }
+  }
+  if (reaped.requeued.length > 0) publishQueueEvent(dbInstance, "ready");
+  return reaped;
+}
+
+// Puts a failed item back in the queue for another attempt at `nextAttemptAt`
+export async function scheduleQueueRetry(
+  dbInstance: Kysely<QueueBase>,
+  queueId: string,
+  owner: string,
+  nextAttemptAt: Date,
+  error: string | null = null,
 ): Promise<void> {
   await dbInstance
     .updateTable("queue")
     .set((eb) => ({
-      retries: eb("retries", "-", 1),
+      status: "queued",
+      retries: eb("retries", "+", 1),
+      next_attempt_at: nextAttemptAt.toISOString(),
+      error,
+      lease_owner: null,
+      lease_expires_at: null,
+      updated_at: new Date().toISOString(),
     }))
     .where("id", "=", queueId)
+    .where("lease_owner", "=", owner)
     .execute();
 }
 
+// Clears the results and errors whose TTL ran out, returns the number of items cleared
+export async function clearExpiredResults(
+  dbInstance: Kysely<QueueBase>,
+  now: Date = new Date(),
+): Promise<number> {
+  const result = await dbInstance
+    .updateTable("queue")
+    .set({ result: null, error: null })
+    .where("result_expires_at", "<=", now.toISOString())
+    .where((eb) => eb.or([eb("result", "is not", null), eb("error", "is not", null)]))
+    .executeTakeFirst();
+  return Number(result.numUpdatedRows);
+}
+
+// Queued items that are due, delayed items and retries only once their time has come.
+// Highest priority first, then by the time they were due
 export async function getQueuedTasks(
   dbInstance: Kysely<QueueBase>,
+  now: Date = new Date(),
+  options: {
+    limit?: number;
+    exclude_task_ids?: string[]; // Tasks that cannot start another item
+  } = {},
 ): Promise<Queue[]> {
-  const result = await dbInstance
+  let query = dbInstance
     .selectFrom("queue")
     .selectAll()
     .where("status", "=", "queued")
+    .where((eb) =>
+      eb.and([
+        eb.or([eb("run_at", "is", null), eb("run_at", "<=", now.toISOString())]),
+        eb.or([
+          eb("next_attempt_at", "is", null),
+          eb("next_attempt_at", "<=", now.toISOString()),
+        ]),
+      ])
+    )
+    .orderBy("priority", "desc")
+    .orderBy(sql`coalesce(run_at, created_at)`)
+    .orderBy("created_at");
+  if (options.exclude_task_ids?.length) {
+    query = query.where("task_id", "not in", options.exclude_task_ids);
+  }
+  if (options.limit !== undefined) {
+    query = query.limit(options.limit);
+  }
+  return await query.execute();
+}
+
+// Number of queue items per task and status
+export async function getQueueCountsByTask(
+  dbInstance: Kysely<QueueBase>,
+): Promise<{ task_id: string; status: Queue["status"]; count: number }[]> {
+  const rows = await dbInstance
+    .selectFrom("queue")
+    .select(["task_id", "status", (eb) => eb.fn.countAll<number>().as("count")])
+    .groupBy(["task_id", "status"])
     .execute();
-  return result;
+  return rows.map((row) => ({ ...row, count: Number(row.count) }));
 }
 
 export async function emitTrace(
@@ -160,6 +506,7 @@ export async function emitTrace(
       data,
     })
     .execute();
+  publishQueueEvent(dbInstance, `item:${queueId}`);
 }
 
 export async function getFunctionNameByQueueId(
@@ -179,31 +526,265 @@ export async function getFunctionNameByQueueId(
 
 // =========== enqueue ===========
 
+export interface EnqueueOptions {
+  run_at?: Date; // not picked up before this time
+  priority?: number; // higher runs first, 0 by default
+  dedupe_key?: string;
+  callback_url?: string; // POSTed the outcome once the item completed or died
+}
+
+// Queues a run of the task and returns its ID. While an item of the task with the same
+// dedupe_key is queued or running, that item's ID is returned instead.
 export async function enqueueTask(
   context: DatabaseContext,
   dbInstance: Kysely<QueueBase>,
   taskId: string,
   params: string,
+  options: EnqueueOptions = {},
 ): Promise<string> {
   const task = await getTaskById(context, taskId);
   if (!task) {
     throw new Error(`Task with ID ${taskId} not found`);
   }
+
+  const queueId = await insertQueueItem(dbInstance, task, params, options);
+  publishQueueEvent(dbInstance, "ready");
+  return queueId;
+}
+
+// Inserts a queued item of the task without notifying the executor, for callers that
+// enqueue inside their own transaction. Returns the pending item of the same dedupe_key instead
+// when the unique index turns the insert down.
+export async function insertQueueItem(
+  dbInstance: Kysely<QueueBase>,
+  task: TaskConfig,
+  params: string,
+  options: EnqueueOptions = {},
+  workflowStep: Pick<Queue, "workflow_run_id" | "workflow_step" | "workflow_index"> = {},
+): Promise<string> {
   const now = new Date().toISOString();
   const queueId = crypto.randomUUID();
-  await dbInstance
+  const result = await dbInstance
     .insertInto("queue")
     .values({
       id: queueId,
-      task_id: taskId,
+      task_id: task.id!,
       params,
       status: "queued",
       retries: 0,
       max_retries: task.retry_count,
       retry_delay: task.retry_delay,
+      retry_strategy: task.retry_strategy ?? "fixed",
+      retry_max_delay: task.retry_max_delay ?? null,
+      run_at: options.run_at?.toISOString() ?? null,
+      priority: options.priority ?? 0,
+      dedupe_key: options.dedupe_key ?? null,
+      callback_url: options.callback_url ?? null,
+      workflow_run_id: workflowStep.workflow_run_id ?? null,
+      workflow_step: workflowStep.workflow_step ?? null,
+      workflow_index: workflowStep.workflow_index ?? null,
       created_at: now,
       updated_at: now,
     })
+    .onConflict((oc) => oc.columns(["task_id", "dedupe_key"]).where(PENDING).doNothing())
+    .executeTakeFirst();
+  if (Number(result.numInsertedOrUpdatedRows) > 0) return queueId;
+
+  const pending = await dbInstance
+    .selectFrom("queue")
+    .select("id")
+    .where("task_id", "=", task.id!)
+    .where("dedupe_key", "=", options.dedupe_key!)
+    .where(PENDING)
+    .executeTakeFirst();
+  // the pending item finished in the meantime, its key is free again
+  return pending?.id ?? await insertQueueItem(dbInstance, task, params, options, workflowStep);
+}
+
+// =========== inspection ===========
+
+export const QUEUE_STATUSES: Queue["status"][] = [
+  "queued",
+  "running",
+  "completed",
+  "dead",
+  "cancelled",
+];
+
+export interface QueueItemFilter {
+  task_id?: string;
+  task_ids?: string[]; // Only items of these tasks
+  status?: Queue["status"];
+  from?: string; // created_at lower bound, inclusive
+  to?: string; // created_at upper bound, exclusive
+  limit: number;
+  offset: number;
+}
+
+// A page of queue items, newest first, with the number of items matching the filter
+export async function listQueueItems(
+  dbInstance: Kysely<QueueBase>,
+  filter: QueueItemFilter,
+): Promise<{ items: Queue[]; total: number }> {
+  if (filter.task_ids?.length === 0) {
+    return { items: [], total: 0 };
+  }
+  const query = dbInstance
+    .selectFrom("queue")
+    .$if(filter.task_id !== undefined, (qb) => qb.where("task_id", "=", filter.task_id!))
+    .$if(filter.task_ids !== undefined, (qb) => qb.where("task_id", "in", filter.task_ids!))
+    .$if(filter.status !== undefined, (qb) => qb.where("status", "=", filter.status!))
+    .$if(filter.from !== undefined, (qb) => qb.where("created_at", ">=", filter.from!))
+    .$if(filter.to !== undefined, (qb) => qb.where("created_at", "<", filter.to!));
+
+  const items = await query
+    .selectAll()
+    .orderBy("created_at", "desc")
+    .limit(filter.limit)
+    .offset(filter.offset)
+    .execute();
+  const { total } = await query
+    .select((eb) => eb.fn.countAll<number>().as("total"))
+    .executeTakeFirstOrThrow();
+  return { items, total: Number(total) };
+}
+
+export async function getTracesByQueueId(
+  dbInstance: Kysely<QueueBase>,
+  queueId: string,
+): Promise<Trace[]> {
+  return await dbInstance
+    .selectFrom("trace")
+    .selectAll()
+    .where("queue_id", "=", queueId)
+    .orderBy("id")
+    .execute();
+}
+
+// Marks a queued or running item cancelled, returns false when it already finished.
+// The executor running it loses its lease and stops the worker.
+export async function cancelQueueItem(
+  dbInstance: Kysely<QueueBase>,
+  queueId: string,
+): Promise<boolean> {
+  const result = await dbInstance
+    .updateTable("queue")
+    .set({
+      status: "cancelled",
+      lease_owner: null,
+      lease_expires_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .where("id", "=", queueId)
+    .where("status", "in", ["queued", "running"])
+    .executeTakeFirst();
+  const cancelled = Number(result.numUpdatedRows) > 0;
+  if (cancelled) publishQueueEvent(dbInstance, `item:${queueId}`);
+  return cancelled;
+}
+
+// Deletes completed items last updated before `before` and their traces, returns their count
+export async function purgeCompletedItems(
+  dbInstance: Kysely<QueueBase>,
+  before: Date,
+  taskIds?: string[], // Only items of these tasks
+): Promise<number> {
+  if (taskIds?.length === 0) {
+    return 0;
+  }
+  const cutoff = before.toISOString();
+  await dbInstance
+    .deleteFrom("trace")
+    .where(
+      "queue_id",
+      "in",
+      dbInstance
+        .selectFrom("queue")
+        .select("id")
+        .where("status", "=", "completed")
+        .where("updated_at", "<", cutoff)
+        .$if(taskIds !== undefined, (qb) => qb.where("task_id", "in", taskIds!)),
+    )
     .execute();
-  return queueId;
+  const result = await dbInstance
+    .deleteFrom("queue")
+    .where("status", "=", "completed")
+    .where("updated_at", "<", cutoff)
+    .$if(taskIds !== undefined, (qb) => qb.where("task_id", "in", taskIds!))
+    .executeTakeFirst();
+  return Number(result.numDeletedRows);
+}
+
+// =========== dead letter ===========
+
+export interface DeadLetterFilter {
+  id?: string;
+  task_id?: string;
+}
+
+export async function getQueueItem(
+  dbInstance: Kysely<QueueBase>,
+  queueId: string,
+): Promise<Queue | undefined> {
+  return await dbInstance
+    .selectFrom("queue")
+    .selectAll()
+    .where("id", "=", queueId)
+    .executeTakeFirst();
+}
+
+export async function getDeadLetterItems(
+  dbInstance: Kysely<QueueBase>,
+  taskId?: string,
+): Promise<Queue[]> {
+  return await dbInstance
+    .selectFrom("queue")
+    .selectAll()
+    .where("status", "=", "dead")
+    .$if(taskId !== undefined, (qb) => qb.where("task_id", "=", taskId!))
+    .orderBy("updated_at", "desc")
+    .execute();
+}
+
+// Queues dead items again with their retries reset, returns their IDs
+export async function replayDeadLetterItems(
+  dbInstance: Kysely<QueueBase>,
+  filter: DeadLetterFilter = {},
+): Promise<string[]> {
+  const rows = await dbInstance
+    .updateTable("queue")
+    .set({
+      status: "queued",
+      retries: 0,
+      next_attempt_at: null,
+      error: null,
+      result_expires_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .where("status", "=", "dead")
+    .$if(filter.id !== undefined, (qb) => qb.where("id", "=", filter.id!))
+    .$if(filter.task_id !== undefined, (qb) => qb.where("task_id", "=", filter.task_id!))
+    .returning("id")
+    .execute();
+  if (rows.length > 0) publishQueueEvent(dbInstance, "ready");
+  return rows.map((row) => row.id);
+}
+
+// Deletes dead items and their traces, returns their IDs
+export async function purgeDeadLetterItems(
+  dbInstance: Kysely<QueueBase>,
+  filter: DeadLetterFilter = {},
+): Promise<string[]> {
+  const rows = await dbInstance
+    .deleteFrom("queue")
+    .where("status", "=", "dead")
+    .$if(filter.id !== undefined, (qb) => qb.where("id", "=", filter.id!))
+    .$if(filter.task_id !== undefined, (qb) => qb.where("task_id", "=", filter.task_id!))
+    .returning("id")
+    .execute();
+  const ids = rows.map((row) => row.id);
+  if (ids.length > 0) {
+    await dbInstance.deleteFrom("trace").where("queue_id", "in", ids).execute();
+  }
+  return ids;
 }
@@ -1,46 +1,77 @@
-import { Kysely, sql } from "kysely";
-import { QueueBase } from "./queue.ts";
-import { safeSleep } from "../../src/utils.ts";
+import { Kysely } from "kysely";
+import { Queue, QueueBase } from "./queue.ts";
+import { createQueueEventWaiter } from "./events.ts";
+import { toUnixSeconds } from "../storage.ts";
 
+// traces written by other processes are only picked up this often
+const TRACE_POLL_INTERVAL = 1000;
+
+// Yields the traces of a queue item until it finishes. Traces with an ID up to `lastEventId`
+// were already delivered to a resumed subscriber and are skipped.
 export async function* subscribeToTraceByQueueId(
   dbInstance: Kysely<QueueBase>,
   queueId: string,
   ac: AbortController,
+  lastEventId = 0,
 ) {
-  let lastId = 0;
-  let end = false;
-  while (!ac.signal.aborted) {
-    // resolution of trace tasks: 5hz
-    await safeSleep(200, ac.signal);
+  const waiter = createQueueEventWaiter(dbInstance, `item:${queueId}`);
+  let lastId = lastEventId;
+  try {
+    while (!ac.signal.aborted) {
+      // read the status first, traces written before it changed are still fetched below
+      const queueStatus = await dbInstance
+        .selectFrom("queue")
+        .select("status")
+        .where("id", "=", queueId)
+        .executeTakeFirst();
 
-    const data = await dbInstance
-      .selectFrom("trace")
-      .select(["id", sql`UNIXEPOCH(ts)`.as("ts"), "task_id", "queue_id", "status", "data"])
-      .where("queue_id", "=", queueId)
-      .where("id", ">", lastId)
-      .orderBy("ts", "asc")
-      .execute();
-    if (data.length !== 0) {
-      const max_current_batch_id = data.map((d) => d.id as number).reduce(
-        (a, b) => Math.max(a, b),
-        0,
-      );
-      lastId = max_current_batch_id;
+      const data = await dbInstance
+        .selectFrom("trace")
+        .select(["id", "ts", "task_id", "queue_id", "status", "data"])
+        .where("queue_id", "=", queueId)
+        .where("id", ">", lastId)
+        .orderBy("id", "asc")
+        .execute();
       for (const trace of data) {
-        yield trace;
+        lastId = Math.max(lastId, trace.id as number);
+        yield { ...trace, ts: toUnixSeconds(trace.ts) };
       }
+
+      if (queueStatus?.status !== "queued" && queueStatus?.status !== "running") {
+        break;
+      }
+      await waiter.wait(TRACE_POLL_INTERVAL, ac.signal);
     }
-    if (end) {
-      break;
-    }
-    const queueStatus = await dbInstance
-      .selectFrom("queue")
-      .select("status")
-      .where("id", "=", queueId)
-      .executeTakeFirst();
-    if (queueStatus?.status !== "queued" && queueStatus?.status !== "running") {
-      await safeSleep(200, ac.signal);
-      end = true;
+  } finally {
+    waiter.close();
+  }
+}
+
+// Waits until a queue item finishes or `timeout` ms passed, returns the item as last read or
+// undefined when it does not exist
+export async function waitForQueueItem(
+  dbInstance: Kysely<QueueBase>,
+  queueId: string,
+  timeout: number,
+  signal?: AbortSignal,
+): Promise<Queue | undefined> {
+  const waiter = createQueueEventWaiter(dbInstance, `item:${queueId}`);
+  const deadline = Date.now() + timeout;
+  try {
+    while (true) {
+      const item = await dbInstance
+        .selectFrom("queue")
+        .selectAll()
+        .where("id", "=", queueId)
+        .executeTakeFirst();
+      const finished = item?.status !== "queued" && item?.status !== "running";
+      const remaining = deadline - Date.now();
+      if (finished || remaining <= 0 || signal?.aborted) {
+        return item;
+      }
+      await waiter.wait(Math.min(remaining, TRACE_POLL_INTERVAL), signal);
     }
+  } finally {
+    waiter.close();
   }
 }
@@ -0,0 +1,209 @@
+import { Kysely } from "kysely";
+import type { QueueBase } from "./queue.ts";
+import { publishQueueEvent } from "./events.ts";
+import type { Migration } from "../migrations.ts";
+
+// A POST of a finished queue item's outcome to its callback_url or its task's webhook_url.
+// The rows are the delivery log, failed attempts are retried until max_attempts.
+export interface WebhookDelivery {
+  id: string;
+  queue_id: string;
+  url: string;
+  payload: string; // JSON string, the request body
+  status: "pending" | "delivered" | "failed"; // failed deliveries ran out of attempts
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string; // a pending delivery is not sent before this time
+  response_status?: number | null; // HTTP status of the last attempt
+  error?: string | null; // why the last attempt failed
+  created_at: string;
+  updated_at: string;
+}
+
+export const WEBHOOK_DELIVERY_STATUSES: WebhookDelivery["status"][] = [
+  "pending",
+  "delivered",
+  "failed",
+];
+
+export interface WebhookDeliveryFilter {
+  queue_id?: string;
+  status?: WebhookDelivery["status"];
+  limit: number;
+  offset: number;
+}
+
+// Queues a delivery of the payload to each URL and wakes the dispatcher, returns their IDs
+export async function createWebhookDeliveries(
+  dbInstance: Kysely<QueueBase>,
+  queueId: string,
+  urls: string[],
+  payload: string,
+  maxAttempts: number,
+): Promise<string[]> {
+  if (urls.length === 0) return [];
+  const now = new Date().toISOString();
+  const rows = urls.map((url) => ({
+    id: crypto.randomUUID(),
+    queue_id: queueId,
+    url,
+    payload,
+    status: "pending" as const,
+    attempts: 0,
+    max_attempts: maxAttempts,
+    next_attempt_at: now,
+    created_at: now,
+    updated_at: now,
+  }));
+  await dbInstance.insertInto("webhook_delivery").values(rows).execute();
+  publishQueueEvent(dbInstance, "webhook");
+  return rows.map((row) => row.id);
+}
+
+// Pending deliveries that are due, oldest first
+export async function getDueWebhookDeliveries(
+  dbInstance: Kysely<QueueBase>,
+  limit: number,
+  now: Date = new Date(),
+): Promise<WebhookDelivery[]> {
+  return await dbInstance
+    .selectFrom("webhook_delivery")
+    .selectAll()
+    .where("status", "=", "pending")
+    .where("next_attempt_at", "<=", now.toISOString())
+    .orderBy("next_attempt_at")
+    .limit(limit)
+    .execute();
+}
+
+// Holds a due delivery until `holdUntil` while this process sends it, returns false when
+// another dispatcher claimed it first
+export async function claimWebhookDelivery(
+  dbInstance: Kysely<QueueBase>,
+  delivery: WebhookDelivery,
+  holdUntil: Date,
+): Promise<boolean> {
+  const result = await dbInstance
+    .updateTable("webhook_delivery")
+    .set({ next_attempt_at: holdUntil.toISOString() })
+    .where("id", "=", delivery.id)
+    .where("status", "=", "pending")
+    .where("next_attempt_at", "=", delivery.next_attempt_at)
+    .executeTakeFirst();
+  return Number(result.numUpdatedRows) > 0;
+}
+
+// Records an attempt. A failed attempt is retried at `nextAttemptAt`, or fails the delivery
+// when it has no attempts left.
+export async function recordWebhookAttempt(
+  dbInstance: Kysely<QueueBase>,
+  delivery: WebhookDelivery,
+  outcome: { ok: boolean; response_status?: number; error?: string },
+  nextAttemptAt: Date,
+): Promise<WebhookDelivery["status"]> {
+  const attempts = delivery.attempts + 1;
+  const status = outcome.ok
+    ? "delivered"
+    : attempts >= delivery.max_attempts
+    ? "failed"
+    : "pending";
+  const now = new Date().toISOString();
+  await dbInstance
+    .updateTable("webhook_delivery")
+    .set({
+      status,
+      attempts,
+      next_attempt_at: status === "pending" ? nextAttemptAt.toISOString() : now,
+      response_status: outcome.response_status ?? null,
+      error: outcome.error ?? null,
+      updated_at: now,
+    })
+    .where("id", "=", delivery.id)
+    .execute();
+  return status;
+}
+
+// A page of deliveries, newest first, with the number of deliveries matching the filter
+export async function listWebhookDeliveries(
+  dbInstance: Kysely<QueueBase>,
+  filter: WebhookDeliveryFilter,
+): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+  const query = dbInstance
+    .selectFrom("webhook_delivery")
+    .$if(filter.queue_id !== undefined, (qb) => qb.where("queue_id", "=", filter.queue_id!))
+    .$if(filter.status !== undefined, (qb) => qb.where("status", "=", filter.status!));
+
+  const deliveries = await query
+    .selectAll()
+    .orderBy("created_at", "desc")
+    .limit(filter.limit)
+    .offset(filter.offset)
+    .execute();
+  const { total } = await query
+    .select((eb) => eb.fn.countAll<number>().as("total"))
+    .executeTakeFirstOrThrow();
+  return { deliveries, total: Number(total) };
+}
+
+export async function getWebhookDelivery(
+  dbInstance: Kysely<QueueBase>,
+  id: string,
+): Promise<WebhookDelivery | undefined> {
+  return await dbInstance
+    .selectFrom("webhook_delivery")
+    .selectAll()
+    .where("id", "=", id)
+    .executeTakeFirst();
+}
+
+// Sends a delivery again with a fresh set of attempts, returns false when it is not found.
+// Pending deliveries are sent at once.
+export async function replayWebhookDelivery(
+  dbInstance: Kysely<QueueBase>,
+  id: string,
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const result = await dbInstance
+    .updateTable("webhook_delivery")
+    .set({ status: "pending", attempts: 0, next_attempt_at: now, updated_at: now })
+    .where("id", "=", id)
+    .executeTakeFirst();
+  const replayed = Number(result.numUpdatedRows) > 0;
+  if (replayed) publishQueueEvent(dbInstance, "webhook");
+  return replayed;
+}
+
+export const migrations: Migration<QueueBase>[] = [
+  {
+    module: "webhook_delivery",
+    version: 1,
+    name: "create_webhook_delivery",
+    async up(dbInstance) {
+      await dbInstance.schema
+        .createTable("webhook_delivery")
+        .ifNotExists()
+        .addColumn("id", "text", (col) => col.primaryKey())
+        .addColumn("queue_id", "text", (col) => col.notNull())
+        .addColumn("url", "text", (col) => col.notNull())
+        .addColumn("payload", "text", (col) => col.notNull())
+        .addColumn("status", "text", (col) => col.notNull())
+        .addColumn("attempts", "integer", (col) => col.notNull().defaultTo(0))
+        .addColumn("max_attempts", "integer", (col) => col.notNull())
+        .addColumn("next_attempt_at", "text", (col) => col.notNull())
+        .addColumn("response_status", "integer")
+        .addColumn("error", "text")
+        .addColumn("created_at", "text", (col) => col.notNull())
+        .addColumn("updated_at", "text", (col) => col.notNull())
+        .execute();
+      await dbInstance.schema
+        .createIndex("webhook_delivery_status_index")
+        .ifNotExists()
+        .on("webhook_delivery")
+        .columns(["status", "next_attempt_at"])
+        .execute();
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropTable("webhook_delivery").ifExists().execute();
+    },
+  },
+];
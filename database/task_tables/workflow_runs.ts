@@ -0,0 +1,169 @@
+import { Kysely } from "kysely";
+import type { Queue, QueueBase, Trace } from "./queue.ts";
+import { publishQueueEvent } from "./events.ts";
+import type { Migration } from "../migrations.ts";
+
+// A run of a workflow. Its queue items carry the run ID and the step they belong to.
+export interface WorkflowRun {
+  id: string;
+  workflow_id: string;
+  status: "running" | "completed" | "failed" | "cancelled";
+  params: string; // JSON string
+  steps: string; // JSON string of the workflow's steps when the run started
+  outputs: string; // JSON string, outputs of the completed steps by step ID
+  output?: string | null; // JSON string, outputs of the final steps once completed
+  error?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const WORKFLOW_RUN_STATUSES: WorkflowRun["status"][] = [
+  "running",
+  "completed",
+  "failed",
+  "cancelled",
+];
+
+export interface WorkflowRunFilter {
+  workflow_id?: string;
+  status?: WorkflowRun["status"];
+  excluded_task_ids?: string[]; // Runs with a step of these tasks are left out
+  limit: number;
+  offset: number;
+}
+
+export async function getWorkflowRun(
+  dbInstance: Kysely<QueueBase>,
+  runId: string,
+): Promise<WorkflowRun | undefined> {
+  return await dbInstance
+    .selectFrom("workflow_run")
+    .selectAll()
+    .where("id", "=", runId)
+    .executeTakeFirst();
+}
+
+// A page of workflow runs, newest first, with the number of runs matching the filter
+export async function listWorkflowRuns(
+  dbInstance: Kysely<QueueBase>,
+  filter: WorkflowRunFilter,
+): Promise<{ runs: WorkflowRun[]; total: number }> {
+  const query = dbInstance
+    .selectFrom("workflow_run")
+    .$if(
+      filter.workflow_id !== undefined,
+      (qb) => qb.where("workflow_id", "=", filter.workflow_id!),
+    )
+    .$if(filter.status !== undefined, (qb) => qb.where("status", "=", filter.status!))
+    // steps are stored as JSON.stringify output and task ids are hex, see createTask
+    .$if(
+      !!filter.excluded_task_ids?.length,
+      (qb) =>
+        qb.where((eb) =>
+          eb.and(
+            filter.excluded_task_ids!.map((id) => eb("steps", "not like", `%"task_id":"${id}"%`)),
+          )
+        ),
+    );
+
+  const runs = await query
+    .selectAll()
+    .orderBy("created_at", "desc")
+    .limit(filter.limit)
+    .offset(filter.offset)
+    .execute();
+  const { total } = await query
+    .select((eb) => eb.fn.countAll<number>().as("total"))
+    .executeTakeFirstOrThrow();
+  return { runs, total: Number(total) };
+}
+
+export async function getWorkflowRunItems(
+  dbInstance: Kysely<QueueBase>,
+  runId: string,
+): Promise<Queue[]> {
+  return await dbInstance
+    .selectFrom("queue")
+    .selectAll()
+    .where("workflow_run_id", "=", runId)
+    .orderBy("created_at")
+    .orderBy("workflow_index")
+    .execute();
+}
+
+// The traces of all the run's queue items in the order they were written
+export async function getWorkflowRunTraces(
+  dbInstance: Kysely<QueueBase>,
+  runId: string,
+): Promise<(Trace & Pick<Queue, "workflow_step" | "workflow_index">)[]> {
+  return await dbInstance
+    .selectFrom("trace")
+    .innerJoin("queue", "queue.id", "trace.queue_id")
+    .selectAll("trace")
+    .select(["queue.workflow_step", "queue.workflow_index"])
+    .where("queue.workflow_run_id", "=", runId)
+    .orderBy("trace.id")
+    .execute();
+}
+
+// Ends a running workflow run and cancels its pending queue items, returns their IDs or
+// null when the run already finished
+export async function finishWorkflowRun(
+  dbInstance: Kysely<QueueBase>,
+  runId: string,
+  status: "failed" | "cancelled",
+  error: string,
+): Promise<string[] | null> {
+  const now = new Date().toISOString();
+  const result = await dbInstance
+    .updateTable("workflow_run")
+    .set({ status, error, updated_at: now })
+    .where("id", "=", runId)
+    .where("status", "=", "running")
+    .executeTakeFirst();
+  if (Number(result.numUpdatedRows) === 0) return null;
+
+  const rows = await dbInstance
+    .updateTable("queue")
+    .set({ status: "cancelled", lease_owner: null, lease_expires_at: null, updated_at: now })
+    .where("workflow_run_id", "=", runId)
+    .where("status", "in", ["queued", "running"])
+    .returning("id")
+    .execute();
+  for (const row of rows) publishQueueEvent(dbInstance, `item:${row.id}`);
+  return rows.map((row) => row.id);
+}
+
+export const migrations: Migration<QueueBase>[] = [
+  {
+    module: "workflow_run",
+    version: 1,
+    name: "create_workflow_run",
+    async up(dbInstance) {
+      await dbInstance.schema
+        .createTable("workflow_run")
+        .ifNotExists()
+        .addColumn("id", "text", (col) => col.primaryKey())
+        .addColumn("workflow_id", "text", (col) => col.notNull())
+        .addColumn("status", "text", (col) => col.notNull())
+        .addColumn("params", "text", (col) => col.notNull())
+        .addColumn("steps", "text", (col) => col.notNull())
+        .addColumn("outputs", "text", (col) => col.notNull().defaultTo("{}"))
+        .addColumn("output", "text")
+        .addColumn("error", "text")
+        .addColumn("created_at", "text", (col) => col.notNull())
+        .addColumn("updated_at", "text", (col) => col.notNull())
+        .execute();
+      await dbInstance.schema
+        .createIndex("queue_workflow_run_id_index")
+        .ifNotExists()
+        .on("queue")
+        .column("workflow_run_id")
+        .execute();
+    },
+    async down(dbInstance) {
+      await dbInstance.schema.dropIndex("queue_workflow_run_id_index").ifExists().execute();
+      await dbInstance.schema.dropTable("workflow_run").ifExists().execute();
+    },
+  },
+];
@@ -1,23 +1,61 @@
 import { Hono } from "hono";
-import { Context } from "hono";
+import { Context, Next } from "hono";
 import { createJWT, JWTPayload } from "./api/api.admin.ts";
+import { DatabaseContext, loadConfig } from "../database/config.ts";
+import { isValidScope, parseScopes, SCOPES } from "./api/scopes.ts";
+import { ipInCIDR } from "./utils.ts";
 
-// Localhost-only middleware
-const localhostOnly = async (c: Context, next: () => Promise<void>) => {
-  const clientIP = c.req.header("x-forwarded-for") || c.req.header("x-real-ip") || "127.0.0.1";
-  const allowedIPs = ["127.0.0.1", "::1", "localhost"];
+const DEFAULT_TTL = 24 * 60 * 60; // 24 hours in seconds
+const MAX_TTL = 30 * 24 * 60 * 60; // 30 days in seconds
 
-  if (!allowedIPs.includes(clientIP)) {
-    return c.json({ error: "Access denied. Only localhost is allowed." }, 403);
+const LOOPBACK_RANGES = ["127.0.0.0/8", "::1/128"];
+
+// The socket peer Deno.serve passes as env, absent when the app is called without a connection
+function remoteAddress(c: Context): string | null {
+  const info = c.env as Deno.ServeHandlerInfo | undefined;
+  const addr = info?.remoteAddr;
+  return addr && "hostname" in addr ? addr.hostname : null;
+}
+
+// Resolves the client address, forwarded headers only count when the peer is a trusted proxy
+export function resolveClientIP(c: Context, trustedProxies: string[]): string | null {
+  const peer = remoteAddress(c);
+  if (!peer) return null;
+
+  const isTrusted = (ip: string) => trustedProxies.some((cidr) => ipInCIDR(ip, cidr));
+  if (!isTrusted(peer)) return peer;
+
+  // walk x-forwarded-for from the right, the first hop not added by our own proxies is the client
+  const forwarded = (c.req.header("x-forwarded-for") ?? "").split(",").map((ip) => ip.trim())
+    .filter((ip) => ip);
+  for (let i = forwarded.length - 1; i >= 0; i--) {
+    if (i === 0 || !isTrusted(forwarded[i])) return forwarded[i];
   }
+  return c.req.header("x-real-ip")?.trim() || peer;
+}
 
-  await next();
-};
+// Localhost-only middleware, also hides the routes when jwt_create_enabled is off
+function localhostOnly(dbContext: DatabaseContext) {
+  return async (c: Context, next: Next) => {
+    const config = dbContext.config ?? await loadConfig(dbContext.dbInstance);
+    if (config.jwt_create_enabled === false) {
+      return c.json({ error: "Not Found" }, 404);
+    }
 
-// Generate expiration time (24 hours from now)
-function generateExpiration(): number {
+    const trustedProxies = (config.trusted_proxies ?? "").split(",").filter((cidr) => cidr.trim());
+    const clientIP = resolveClientIP(c, trustedProxies);
+    if (!clientIP || !LOOPBACK_RANGES.some((cidr) => ipInCIDR(clientIP, cidr))) {
+      return c.json({ error: "Access denied. Only localhost is allowed." }, 403);
+    }
+
+    await next();
+  };
+}
+
+// Generate expiration time (ttl seconds from now)
+function generateExpiration(ttl: number): number {
   const now = Math.floor(Date.now() / 1000);
-  return now + (24 * 60 * 60); // 24 hours
+  return now + ttl;
 }
 
 // Generate a default user ID
@@ -25,25 +63,44 @@ function generateUserId(): string {
   return `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
-export function setupJWTRoutes() {
+export function setupJWTRoutes(dbContext: DatabaseContext) {
   const app = new Hono();
 
-  // Simple JWT creation - no parameters needed
-  app.all("/create", localhostOnly, async (c: Context) => {
+  // JWT creation, scope and ttl (seconds) may be passed as JSON body or query parameters
+  app.all("/create", localhostOnly(dbContext), async (c: Context) => {
     try {
+      const body = c.req.header("content-type")?.includes("application/json")
+        ? await c.req.json().catch(() => ({}))
+        : {};
+      const scope: string = body.scope ?? c.req.query("scope") ?? "full";
+      const ttl = Number(body.ttl ?? c.req.query("ttl") ?? DEFAULT_TTL);
+
+      const scopes = parseScopes(scope);
+      const invalidScopes = scopes.filter((s) => !isValidScope(s));
+      if (scopes.length === 0 || invalidScopes.length > 0) {
+        return c.json({
+          error: "Invalid scope",
+          message: `Unknown scopes: ${invalidScopes.join(" ") || "(none given)"}`,
+          valid_scopes: ["full", ...SCOPES],
+        }, 400);
+      }
+      if (!Number.isInteger(ttl) || ttl <= 0 || ttl > MAX_TTL) {
+        return c.json({ error: `ttl must be an integer between 1 and ${MAX_TTL} seconds` }, 400);
+      }
+
       const payload: JWTPayload = {
         sub: generateUserId(),
-        exp: generateExpiration(),
+        exp: generateExpiration(ttl),
         iat: Math.floor(Date.now() / 1000), // issued at
         type: "access",
-        scope: "full",
+        scope: scopes.join(" "),
       };
 
-      const token = await createJWT(payload);
+      const token = await createJWT(dbContext, payload);
       return c.json({
         token,
         payload,
-        expires_in: 24 * 60 * 60, // 24 hours in seconds
+        expires_in: ttl,
         expires_at: new Date(payload.exp * 1000).toISOString(),
       }, 200);
     } catch (error) {
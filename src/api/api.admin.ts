@@ -1,17 +1,35 @@
 import { Hono } from "hono";
-import { jwt, sign, verify } from "hono/jwt";
-import { databaseMiddleware, setupAPIRoutes } from "../../database/api/api.service.ts";
+import { decode, sign, verify } from "hono/jwt";
+import { jwk } from "hono/jwk";
+import {
+  databaseMiddleware,
+  serviceManagerMiddleware,
+  setupAPIRoutes,
+} from "../../database/api/api.service.ts";
 import { setupFunctionAPIRoutes } from "../../database/api/api.function.ts";
 import { Context } from "hono";
 import JSZip from "jszip";
 import { DatabaseContext } from "../../database/config.ts";
 import { createService } from "../../database/tables/services.ts";
 import { setupTaskAPIRoutes } from "../../database/api/api.task.ts";
+import { setupWorkflowAPIRoutes } from "../../database/api/api.workflow.ts";
+import { setupJWTKeyAPIRoutes } from "../../database/api/api.jwt.ts";
+import { setupAPIKeyAPIRoutes } from "../../database/api/api.api_keys.ts";
+import { setupQueueAdminAPIRoutes } from "../../database/api/api.queue.ts";
+import { setupBackupAPIRoutes } from "../../database/api/api.backup.ts";
+import { setupApplyAPIRoutes } from "../../database/api/api.apply.ts";
+import { queueBaseMiddleware } from "../../database/api/api.task.ts";
+import { QueueBase } from "../../database/task_tables/queue.ts";
+import { Kysely } from "kysely";
+import { getSigningKey, getVerificationKeys, JWTKey } from "../../database/tables/jwt_keys.ts";
+import { requireScope, resourceScope } from "./scopes.ts";
+import { ServiceManagerState } from "../managers/service-manager.ts";
 
 // Extend Hono's Context to include our database context
 export interface JWTPayload {
   sub: string; // Subject (user ID)
   exp: number; // Expiration time
+  scope?: string; // Space separated scopes, see SCOPES in scopes.ts
   // deno-lint-ignore no-explicit-any
   [key: string]: any; // Additional custom claims
 }
@@ -20,16 +38,35 @@ declare module "hono" {
     jwtPayload: JWTPayload;
   }
 }
-const secret = "my_super_duper_secret_key_for_admin_jwt";
+// HMAC key as a JWK so hono puts its kid into the token header
+function toJWK(key: JWTKey): JsonWebKey & { kid: string; alg: "HS256" } {
+  const bytes = new TextEncoder().encode(key.secret);
+  const k = btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  return { kty: "oct", k, alg: "HS256", kid: key.kid };
+}
 
-export async function createJWT(payload: JWTPayload): Promise<string> {
-  const jwt = await sign(payload, secret, "HS256");
+export async function createJWT(context: DatabaseContext, payload: JWTPayload): Promise<string> {
+  const key = await getSigningKey(context);
+  const jwt = await sign(payload, toJWK(key));
   return jwt;
 }
 
-export async function verifyJWT(token: string): Promise<JWTPayload | null> {
+export async function verifyJWT(
+  context: DatabaseContext,
+  token: string,
+): Promise<JWTPayload | null> {
   try {
-    const payload = await verify(token, secret);
+    const { header } = decode(token);
+    const kid = (header as { kid?: string }).kid;
+    // tokens signed with a retired or unknown key are rejected
+    const key = (await getVerificationKeys(context)).find((key) => key.kid === kid);
+    if (!key) {
+      throw new Error(`Unknown or retired JWT key: ${kid}`);
+    }
+    const payload = await verify(token, key.secret, "HS256");
     return payload as JWTPayload;
   } catch (error) {
     console.error("JWT verification failed:", error);
@@ -37,9 +74,12 @@ export async function verifyJWT(token: string): Promise<JWTPayload | null> {
   }
 }
 
-// export function jwtCheck(c: Context, next: MiddlewareHandler) {
-//   return
-// }
+// Verifies the bearer token against the active JWT keys and sets jwtPayload
+export function jwtMiddleware(dbContext: DatabaseContext) {
+  return jwk({
+    keys: async () => (await getVerificationKeys(dbContext)).map(toJWK),
+  });
+}
 
 async function hostFrontendHandler(c: Context): Promise<Response> {
   try {
@@ -136,22 +176,53 @@ async function hostFrontendHandler(c: Context): Promise<Response> {
 
 export function setupAdminAPIRoutes(
   dbContext: DatabaseContext,
+  queueBase?: Kysely<QueueBase>,
+  serviceManagerState?: ServiceManagerState,
 ) {
   const app = new Hono();
-  app.use(
-    "*",
-    jwt({
-      secret,
-      // algorithms: ["HS256"],
-    }),
-  );
+  app.use("*", jwtMiddleware(dbContext));
   // Apply database middleware to all API routes
   app.use("*", databaseMiddleware(dbContext));
+  // deploys switch the services running in this process over, replacing imports stop them
+  if (serviceManagerState) {
+    app.use("/services/*", serviceManagerMiddleware(serviceManagerState));
+    app.use("/backup/*", serviceManagerMiddleware(serviceManagerState));
+  }
+
+  // Per-route authorization, config routes live under /services/config
+  const servicesScope = resourceScope("services");
+  const configScope = resourceScope("config");
+  app.use("/host-frontend", requireScope("services:write"));
+  app.use(
+    "/services/*",
+    requireScope((c) =>
+      /\/services\/config(\/|$)/.test(c.req.path) ? configScope(c) : servicesScope(c)
+    ),
+  );
+  app.use("/functions/*", requireScope(resourceScope("functions")));
+  app.use("/tasks/*", requireScope(resourceScope("tasks")));
+  app.use("/workflows/*", requireScope(resourceScope("tasks")));
+  app.use("/jwt/*", requireScope(resourceScope("jwt")));
+  app.use("/api-keys/*", requireScope(resourceScope("api_keys")));
+  app.use("/queue/*", requireScope(resourceScope("tasks")));
+  // archives hold the JWT and API key secrets
+  app.use("/backup/*", requireScope("full"));
+  // apply checks the scopes of the sections its manifest lists
 
   app.post("/host-frontend", hostFrontendHandler);
   app.route("/services", setupAPIRoutes());
   app.route("/functions", setupFunctionAPIRoutes());
   app.route("/tasks", setupTaskAPIRoutes());
+  app.route("/workflows", setupWorkflowAPIRoutes());
+  app.route("/jwt", setupJWTKeyAPIRoutes());
+  app.route("/api-keys", setupAPIKeyAPIRoutes());
+  app.route("/backup", setupBackupAPIRoutes());
+  app.route("/apply", setupApplyAPIRoutes());
+  // queue routes need the queue database
+  if (queueBase) {
+    app.use("/queue/*", queueBaseMiddleware(queueBase));
+    app.route("/queue", setupQueueAdminAPIRoutes());
+  }
 
   return app;
 }
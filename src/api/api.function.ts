@@ -4,6 +4,7 @@ import { execFunction } from "../managers/function-manager.ts";
 import { databaseMiddleware } from "../../database/api/api.service.ts";
 import { DatabaseContext } from "../../database/config.ts";
 import { getFunction } from "../../database/tables/functions.ts";
+import { checkAuthPolicy } from "./auth.ts";
 
 // Setup function execution API routes
 export function setupFunctionAPIRoutes(dbContext: DatabaseContext) {
@@ -20,7 +21,8 @@ export function setupFunctionAPIRoutes(dbContext: DatabaseContext) {
 // Function execution handler
 async function executeFunctionHandler(c: Context): Promise<Response> {
   const dbContext = c.get("dbContext");
-  const functionName = c.req.param("name");
+  // "name@3" invokes revision 3 of the function
+  const [, functionName, revision] = c.req.param("name").match(/^(.*?)(?:@(\d+))?$/)!;
 
   try {
     // Get function from database
@@ -29,12 +31,28 @@ async function executeFunctionHandler(c: Context): Promise<Response> {
       return c.json({ error: "Function not found" }, 404);
     }
 
+    // jwt and api_key functions need functions:invoke plus the function's auth_scope
+    const denied = await checkAuthPolicy(
+      dbContext,
+      c,
+      functionConfig,
+      functionConfig.auth === "public" ? undefined : "functions:invoke",
+    );
+    if (denied) {
+      return denied;
+    }
+
     if (!functionConfig.enabled) {
       return c.json({ error: "Function is disabled" }, 403);
     }
 
     // Execute the function
-    const result = await execFunction(dbContext, functionName, await c.req.json());
+    const result = await execFunction(
+      dbContext,
+      functionName,
+      await c.req.json(),
+      revision !== undefined ? parseInt(revision) : undefined,
+    );
 
     return result;
   } catch (error) {
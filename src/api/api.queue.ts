@@ -1,10 +1,48 @@
 import { Context, Hono } from "hono";
 import { Kysely } from "kysely";
-import { queueBaseMiddleware } from "../../database/api/api.task.ts";
-import { enqueueTask, QueueBase } from "../../database/task_tables/queue.ts";
+import {
+  queueBaseMiddleware,
+  validateWebhookTarget,
+  validateWebhookUrl,
+} from "../../database/api/api.task.ts";
+import {
+  cancelQueueItem,
+  enqueueTask,
+  getFunctionNameByQueueId,
+  getQueueItem,
+  getTracesByQueueId,
+  listQueueItems,
+  purgeCompletedItems,
+  Queue,
+  QUEUE_STATUSES,
+  QueueBase,
+} from "../../database/task_tables/queue.ts";
 import { DatabaseContext } from "../../database/config.ts";
 import { databaseMiddleware } from "../../database/api/api.service.ts";
-import { subscribeToTraceByQueueId } from "../../database/task_tables/subscriber.ts";
+import {
+  subscribeToTraceByQueueId,
+  waitForQueueItem,
+} from "../../database/task_tables/subscriber.ts";
+import { getAllTasks, getTaskById } from "../../database/tables/tasks.ts";
+import { getFunction } from "../../database/tables/functions.ts";
+import { authorize, checkAuthPolicy } from "./auth.ts";
+import { Scope } from "./scopes.ts";
+import { abortQueueItem, getExecutorStats } from "../managers/task-manager.ts";
+import { getWorkflowById, WorkflowStep } from "../../database/tables/workflows.ts";
+import {
+  finishWorkflowRun,
+  getWorkflowRun,
+  getWorkflowRunItems,
+  getWorkflowRunTraces,
+  listWorkflowRuns,
+  WORKFLOW_RUN_STATUSES,
+  WorkflowRun,
+} from "../../database/task_tables/workflow_runs.ts";
+import { advanceWorkflowRun, startWorkflowRun } from "../managers/workflow-manager.ts";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+const MAX_ENQUEUE_WAIT = 60 * 1000; // enqueue requests wait at most this long for the result
 
 // Setup function execution API routes
 export function setupQueueAPIRoutes(dbContext: DatabaseContext, queueBase: Kysely<QueueBase>) {
@@ -12,8 +50,23 @@ export function setupQueueAPIRoutes(dbContext: DatabaseContext, queueBase: Kysel
   // Function execution route
   app.use("*", databaseMiddleware(dbContext));
   app.use("*", queueBaseMiddleware(queueBase));
+  // Routes need a JWT or API key with the route's scope, plus the task function's auth policy
   app.post("enqueue", enqueueTaskHandler);
   app.post("subscribe", subscribeToTraceHandler);
+  app.get("stats", queueStatsHandler);
+  // Queue item inspection and management
+  app.get("items", listQueueItemsHandler);
+  app.delete("items", purgeQueueItemsHandler);
+  app.get("items/:id", getQueueItemHandler);
+  app.post("items/:id/cancel", cancelQueueItemHandler);
+  app.post("items/:id/rerun", rerunQueueItemHandler);
+  // Workflow runs
+  app.post("workflows/:id/runs", startWorkflowRunHandler);
+  app.get("workflows/runs", listWorkflowRunsHandler);
+  app.get("workflows/runs/:id", getWorkflowRunHandler);
+  app.post("workflows/runs/:id/cancel", cancelWorkflowRunHandler);
+  // Results of finished items
+  app.get(":queue_id/result", getQueueResultHandler);
   return app;
 }
 
@@ -24,26 +77,502 @@ async function enqueueTaskHandler(c: Context): Promise<Response> {
   const {
     taskId,
     params,
+    run_at,
+    delay,
+    priority,
+    dedupe_key,
+    callback_url,
+    wait,
   } = await c.req.json();
   if (!taskId || !params) {
     return c.json({ error: "taskId and params are required" }, 400);
   }
-  const queue_id = await enqueueTask(dbContext, queueBase, taskId, params);
+  const validationError = validateEnqueueOptions(run_at, delay, priority, dedupe_key) ??
+    validateWebhookUrl(callback_url, "callback_url") ??
+    await validateWebhookTarget(dbContext, callback_url, "callback_url");
+  if (validationError) {
+    return c.json({ error: validationError }, 400);
+  }
+  if (
+    wait !== undefined && (!Number.isInteger(wait) || wait < 0 || wait > MAX_ENQUEUE_WAIT)
+  ) {
+    return c.json(
+      { error: `wait must be an integer of milliseconds up to ${MAX_ENQUEUE_WAIT}` },
+      400,
+    );
+  }
+  // unknown tasks are only reported to callers allowed to enqueue
+  const task = await getTaskById(dbContext, taskId);
+  const denied = await checkAuthPolicy(dbContext, c, task ?? {}, "tasks:enqueue");
+  if (denied) {
+    return denied;
+  }
+  if (!task) {
+    return c.json({ error: "Task not found" }, 404);
+  }
+  if (!task.enabled) {
+    return c.json({ error: "Task is disabled" }, 403);
+  }
+  const queue_id = await enqueueTask(dbContext, queueBase, taskId, params, {
+    run_at: run_at !== undefined
+      ? new Date(run_at)
+      : delay !== undefined
+      ? new Date(Date.now() + delay)
+      : undefined,
+    priority,
+    dedupe_key,
+    callback_url: callback_url || undefined,
+  });
+  if (!wait) {
+    return c.json({ queue_id }, 200);
+  }
+
+  // wait for the item to finish, or answer 202 and let the caller fetch the result later
+  const item = await waitForQueueItem(queueBase, queue_id, wait, c.req.raw.signal);
+  if (!item || item.status === "queued" || item.status === "running") {
+    return c.json({ queue_id, status: item?.status ?? "queued" }, 202);
+  }
+  return c.json(formatQueueResult(item), 200);
+}
+
+function formatQueueResult(item: Queue) {
+  return {
+    queue_id: item.id,
+    status: item.status,
+    result: item.result != null ? JSON.parse(item.result) : null,
+    error: item.error ?? null,
+    result_expires_at: item.result_expires_at ?? null,
+  };
+}
+
+// Returns an error message for an invalid run_at, delay, priority or dedupe_key
+function validateEnqueueOptions(
+  runAt: unknown,
+  delay: unknown,
+  priority: unknown,
+  dedupeKey: unknown,
+): string | null {
+  if (runAt !== undefined && delay !== undefined) {
+    return "Use either run_at or delay";
+  }
+  if (runAt !== undefined && (typeof runAt !== "string" || isNaN(Date.parse(runAt)))) {
+    return "run_at must be an ISO 8601 date";
+  }
+  if (delay !== undefined && (!Number.isInteger(delay) || (delay as number) < 0)) {
+    return "delay must be a non-negative integer of milliseconds";
+  }
+  if (priority !== undefined && !Number.isInteger(priority)) {
+    return "priority must be an integer";
+  }
+  if (dedupeKey !== undefined && (typeof dedupeKey !== "string" || !dedupeKey)) {
+    return "dedupe_key must be a non-empty string";
+  }
+  return null;
+}
+
+// Executor and per-task concurrency with queue counts
+async function queueStatsHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const queueBase = c.get("queueBase");
+  const denied = await checkAuthPolicy(dbContext, c, {}, "tasks:read");
+  if (denied) {
+    return denied;
+  }
+  try {
+    return c.json(await getExecutorStats(dbContext, queueBase));
+  } catch (error) {
+    console.error("Get queue stats error:", error);
+    return c.json(
+      {
+        error: "Failed to get queue stats",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+// Ids of the tasks whose own auth policy admits the caller checkAuthPolicy verified
+async function permittedTaskIds(c: Context, required: Scope): Promise<string[]> {
+  const principal = c.get("principal") ?? null;
+  return (await getAllTasks(c.get("dbContext")))
+    .filter((task) => !authorize(principal, task, required))
+    .map((task) => task.id!);
+}
+
+// Ids of the tasks whose own auth policy refuses the caller
+async function deniedTaskIds(c: Context, required: Scope): Promise<string[]> {
+  const principal = c.get("principal") ?? null;
+  return (await getAllTasks(c.get("dbContext")))
+    .filter((task) => authorize(principal, task, required))
+    .map((task) => task.id!);
+}
+
+// Lists queue items of the tasks the caller may read, filtered by ?task_id, ?status and
+// a ?from / ?to created_at range, paginated with ?limit and ?offset
+async function listQueueItemsHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const queueBase = c.get("queueBase");
+  const denied = await checkAuthPolicy(dbContext, c, {}, "tasks:read");
+  if (denied) {
+    return denied;
+  }
+
+  const { task_id, status, from, to } = c.req.query();
+  const limit = Number(c.req.query("limit") ?? DEFAULT_PAGE_SIZE);
+  const offset = Number(c.req.query("offset") ?? 0);
+  if (status !== undefined && !QUEUE_STATUSES.includes(status as Queue["status"])) {
+    return c.json({ error: `status must be one of ${QUEUE_STATUSES.join(", ")}` }, 400);
+  }
+  if ([from, to].some((date) => date !== undefined && isNaN(Date.parse(date)))) {
+    return c.json({ error: "from and to must be ISO 8601 dates" }, 400);
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return c.json({ error: `limit must be an integer from 1 to ${MAX_PAGE_SIZE}` }, 400);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return c.json({ error: "offset must be a non-negative integer" }, 400);
+  }
+
+  try {
+    const { items, total } = await listQueueItems(queueBase, {
+      task_id,
+      task_ids: await permittedTaskIds(c, "tasks:read"),
+      status: status as Queue["status"] | undefined,
+      from: from !== undefined ? new Date(from).toISOString() : undefined,
+      to: to !== undefined ? new Date(to).toISOString() : undefined,
+      limit,
+      offset,
+    });
+    return c.json({ items, total, limit, offset });
+  } catch (error) {
+    console.error("List queue items error:", error);
+    return c.json(
+      {
+        error: "Failed to list queue items",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+// A queue item with its trace history, behind the task function's auth policy like subscribe
+async function getQueueItemHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const queueBase = c.get("queueBase");
+  const id = c.req.param("id");
+
+  const item = await getQueueItem(queueBase, id);
+  const functionName = item ? await getFunctionNameByQueueId(dbContext, queueBase, id) : null;
+  const functionConfig = functionName ? await getFunction(dbContext, functionName) : null;
+  const denied = await checkAuthPolicy(dbContext, c, functionConfig ?? {}, "tasks:read");
+  if (denied) {
+    return denied;
+  }
+  if (!item) {
+    return c.json({ error: "Queue item not found" }, 404);
+  }
+  return c.json({ ...item, traces: await getTracesByQueueId(queueBase, id) });
+}
+
+// The result or error of a finished item, 202 while it is queued or running and 410 once
+// its result expired
+async function getQueueResultHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const queueBase = c.get("queueBase");
+  const id = c.req.param("queue_id");
+
+  const item = await getQueueItem(queueBase, id);
+  const functionName = item ? await getFunctionNameByQueueId(dbContext, queueBase, id) : null;
+  const functionConfig = functionName ? await getFunction(dbContext, functionName) : null;
+  const denied = await checkAuthPolicy(dbContext, c, functionConfig ?? {}, "tasks:read");
+  if (denied) {
+    return denied;
+  }
+  if (!item) {
+    return c.json({ error: "Queue item not found" }, 404);
+  }
+  if (item.status === "queued" || item.status === "running") {
+    return c.json({ queue_id: id, status: item.status }, 202);
+  }
+  if (item.result_expires_at && Date.parse(item.result_expires_at) <= Date.now()) {
+    return c.json({ error: "Result expired", queue_id: id, status: item.status }, 410);
+  }
+  return c.json(formatQueueResult(item));
+}
+
+// Cancels a queued item, or stops the worker of a running one
+async function cancelQueueItemHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const queueBase = c.get("queueBase");
+  const id = c.req.param("id");
+
+  const item = await getQueueItem(queueBase, id);
+  const task = item ? await getTaskById(dbContext, item.task_id) : null;
+  const denied = await checkAuthPolicy(dbContext, c, task ?? {}, "tasks:write");
+  if (denied) {
+    return denied;
+  }
+  if (!item) {
+    return c.json({ error: "Queue item not found" }, 404);
+  }
+  if (!await cancelQueueItem(queueBase, id)) {
+    return c.json({ error: `Queue item is already ${item.status}` }, 409);
+  }
+  abortQueueItem(queueBase, id);
+  // a cancelled step fails its workflow run
+  if (item.workflow_run_id) {
+    await advanceWorkflowRun(dbContext, queueBase, item.workflow_run_id);
+  }
+  return c.json({ message: "Queue item cancelled", queue_id: id });
+}
+
+// Enqueues the item's task again with the same params, as a new queue item
+async function rerunQueueItemHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const queueBase = c.get("queueBase");
+  const id = c.req.param("id");
+
+  const item = await getQueueItem(queueBase, id);
+  const task = item ? await getTaskById(dbContext, item.task_id) : null;
+  const denied = await checkAuthPolicy(dbContext, c, task ?? {}, "tasks:enqueue");
+  if (denied) {
+    return denied;
+  }
+  if (!item) {
+    return c.json({ error: "Queue item not found" }, 404);
+  }
+  if (!task) {
+    return c.json({ error: "Task not found" }, 404);
+  }
+  if (!task.enabled) {
+    return c.json({ error: "Task is disabled" }, 403);
+  }
+  const queue_id = await enqueueTask(dbContext, queueBase, item.task_id, item.params, {
+    priority: item.priority,
+    callback_url: item.callback_url ?? undefined,
+  });
   return c.json({ queue_id }, 200);
 }
 
+// Purges completed items older than ?older_than_days of the tasks the caller may write
+async function purgeQueueItemsHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const queueBase = c.get("queueBase");
+  const denied = await checkAuthPolicy(dbContext, c, {}, "tasks:write");
+  if (denied) {
+    return denied;
+  }
+
+  const days = Number(c.req.query("older_than_days"));
+  if (!c.req.query("older_than_days") || isNaN(days) || days < 0) {
+    return c.json({ error: "older_than_days must be a non-negative number" }, 400);
+  }
+  try {
+    const purged = await purgeCompletedItems(
+      queueBase,
+      new Date(Date.now() - days * 24 * 60 * 60 * 1000),
+      await permittedTaskIds(c, "tasks:write"),
+    );
+    return c.json({ message: "Completed queue items purged", purged });
+  } catch (error) {
+    console.error("Purge queue items error:", error);
+    return c.json(
+      {
+        error: "Failed to purge queue items",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+// Workflow runs need the route's scope plus the auth policy of every task they run
+async function checkWorkflowPolicy(
+  c: Context,
+  steps: WorkflowStep[],
+  required: Scope,
+): Promise<Response | null> {
+  const dbContext = c.get("dbContext");
+  for (const taskId of new Set(steps.map((step) => step.task_id))) {
+    const task = await getTaskById(dbContext, taskId).catch(() => null);
+    const denied = await checkAuthPolicy(dbContext, c, task ?? {}, required);
+    if (denied) {
+      return denied;
+    }
+  }
+  return steps.length === 0 ? await checkAuthPolicy(dbContext, c, {}, required) : null;
+}
+
+function formatWorkflowRun(run: WorkflowRun) {
+  return {
+    ...run,
+    params: JSON.parse(run.params),
+    steps: JSON.parse(run.steps),
+    outputs: JSON.parse(run.outputs),
+    output: run.output ? JSON.parse(run.output) : null,
+  };
+}
+
+// Starts a run of the workflow, the body's params go to the steps without dependencies
+async function startWorkflowRunHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const queueBase = c.get("queueBase");
+  const workflow = await getWorkflowById(dbContext, c.req.param("id"));
+  const denied = await checkWorkflowPolicy(c, workflow?.steps ?? [], "tasks:enqueue");
+  if (denied) {
+    return denied;
+  }
+  if (!workflow) {
+    return c.json({ error: "Workflow not found" }, 404);
+  }
+  if (!workflow.enabled) {
+    return c.json({ error: "Workflow is disabled" }, 403);
+  }
+  for (const step of workflow.steps) {
+    const task = await getTaskById(dbContext, step.task_id).catch(() => null);
+    if (!task?.enabled) {
+      return c.json({ error: `Task of step ${step.id} is missing or disabled` }, 403);
+    }
+  }
+
+  try {
+    const { params = {} } = await c.req.json().catch(() => ({}));
+    const run_id = await startWorkflowRun(
+      dbContext,
+      queueBase,
+      workflow.id!,
+      JSON.stringify(params),
+    );
+    return c.json({ run_id }, 200);
+  } catch (error) {
+    console.error("Start workflow run error:", error);
+    return c.json(
+      {
+        error: "Failed to start workflow run",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+// Lists the workflow runs whose tasks the caller may all read, filtered by ?workflow_id and
+// ?status, paginated with ?limit and ?offset
+async function listWorkflowRunsHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
+  const queueBase = c.get("queueBase");
+  const denied = await checkAuthPolicy(dbContext, c, {}, "tasks:read");
+  if (denied) {
+    return denied;
+  }
+
+  const { workflow_id, status } = c.req.query();
+  const limit = Number(c.req.query("limit") ?? DEFAULT_PAGE_SIZE);
+  const offset = Number(c.req.query("offset") ?? 0);
+  if (
+    status !== undefined && !WORKFLOW_RUN_STATUSES.includes(status as WorkflowRun["status"])
+  ) {
+    return c.json({ error: `status must be one of ${WORKFLOW_RUN_STATUSES.join(", ")}` }, 400);
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return c.json({ error: `limit must be an integer from 1 to ${MAX_PAGE_SIZE}` }, 400);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return c.json({ error: "offset must be a non-negative integer" }, 400);
+  }
+
+  try {
+    const { runs, total } = await listWorkflowRuns(queueBase, {
+      workflow_id,
+      status: status as WorkflowRun["status"] | undefined,
+      excluded_task_ids: await deniedTaskIds(c, "tasks:read"),
+      limit,
+      offset,
+    });
+    return c.json({ runs: runs.map(formatWorkflowRun), total, limit, offset });
+  } catch (error) {
+    console.error("List workflow runs error:", error);
+    return c.json(
+      {
+        error: "Failed to list workflow runs",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500,
+    );
+  }
+}
+
+// A workflow run with its queue items and the traces of all its steps in order
+async function getWorkflowRunHandler(c: Context): Promise<Response> {
+  const queueBase = c.get("queueBase");
+  const id = c.req.param("id");
+
+  const run = await getWorkflowRun(queueBase, id);
+  const denied = await checkWorkflowPolicy(c, run ? JSON.parse(run.steps) : [], "tasks:read");
+  if (denied) {
+    return denied;
+  }
+  if (!run) {
+    return c.json({ error: "Workflow run not found" }, 404);
+  }
+  return c.json({
+    ...formatWorkflowRun(run),
+    items: await getWorkflowRunItems(queueBase, id),
+    traces: await getWorkflowRunTraces(queueBase, id),
+  });
+}
+
+// Cancels a running workflow run with its pending steps
+async function cancelWorkflowRunHandler(c: Context): Promise<Response> {
+  const queueBase = c.get("queueBase");
+  const id = c.req.param("id");
+
+  const run = await getWorkflowRun(queueBase, id);
+  const denied = await checkWorkflowPolicy(c, run ? JSON.parse(run.steps) : [], "tasks:write");
+  if (denied) {
+    return denied;
+  }
+  if (!run) {
+    return c.json({ error: "Workflow run not found" }, 404);
+  }
+  const cancelled = await finishWorkflowRun(queueBase, id, "cancelled", "Cancelled");
+  if (!cancelled) {
+    return c.json({ error: `Workflow run is already ${run.status}` }, 409);
+  }
+  for (const queueId of cancelled) {
+    abortQueueItem(queueBase, queueId);
+  }
+  return c.json({ message: "Workflow run cancelled", run_id: id, cancelled });
+}
+
 // Subscribe to trace handler
 async function subscribeToTraceHandler(c: Context): Promise<Response> {
+  const dbContext = c.get("dbContext");
   const queueBase = c.get("queueBase");
   const { queue_id } = await c.req.json();
   if (!queue_id) {
     return c.json({ error: "queue_id is required" }, 400);
   }
+  const functionName = await getFunctionNameByQueueId(dbContext, queueBase, queue_id);
+  const functionConfig = functionName ? await getFunction(dbContext, functionName) : null;
+  const denied = await checkAuthPolicy(dbContext, c, functionConfig ?? {}, "tasks:read");
+  if (denied) {
+    return denied;
+  }
+  if (!functionConfig) {
+    return c.json({ error: "Queue item not found" }, 404);
+  }
+  // a reconnecting client resumes after the last trace it received
+  const lastEventId = parseInt(c.req.header("Last-Event-ID") ?? "0") || 0;
   const ac = new AbortController();
   const stream = new ReadableStream({
     async start(controller) {
-      for await (const trace of subscribeToTraceByQueueId(queueBase, queue_id, ac)) {
-        controller.enqueue(`data: ${JSON.stringify(trace)}\n\n`);
+      for await (
+        const trace of subscribeToTraceByQueueId(queueBase, queue_id, ac, lastEventId)
+      ) {
+        controller.enqueue(`id: ${trace.id}\ndata: ${JSON.stringify(trace)}\n\n`);
       }
       controller.enqueue("data: [DONE]\n\n");
       controller.close();
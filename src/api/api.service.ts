@@ -1,14 +1,16 @@
 import { swaggerUI } from "@hono/swagger-ui";
 import { Hono } from "hono";
 import { loadConfig } from "../../database/config.ts";
-import { getService as getServiceFromDB } from "../../database/tables/services.ts";
+import { getDeployedService } from "../../database/tables/services.ts";
 import {
+  followDeployedRevision,
   getService,
   ServiceInstance,
   ServiceManagerState,
   startService,
 } from "../managers/service-manager.ts";
-import { verifyJWT } from "./api.admin.ts";
+import { authenticate } from "./auth.ts";
+import { hasScope } from "./scopes.ts";
 
 // Service-specific documentation routes
 export function setupDocsRoutes(
@@ -28,7 +30,7 @@ export function setupDocsRoutes(
       return c.json({ error: "Service name is required" }, 400);
     }
 
-    const dbService = await getServiceFromDB(context.dbContext, serviceName);
+    const dbService = await getDeployedService(context.dbContext, serviceName);
     try {
       const schema = JSON.parse(dbService?.schema || "null");
 
@@ -70,17 +72,20 @@ export function setupApiRoutes(
     const service = getService(context, serviceName);
 
     const handleService = async (service: ServiceInstance) => {
-      // JWT authentication check
+      // JWT or API key authentication check
       if (service.config.jwt_check) {
         try {
-          const _payload = await verifyJWT(
-            c.req.header("Authorization")?.replace("Bearer ", "") || "",
-          );
-          if (_payload) {
-            return await forwardToService(service, c.req.raw);
-          } else {
+          const principal = await authenticate(context.dbContext, c);
+          if (!principal) {
             return c.json({ error: "Unauthorized" }, 401);
           }
+          if (!hasScope(principal.scope, "services:invoke")) {
+            return c.json(
+              { error: "Forbidden", message: "Token lacks the services:invoke scope" },
+              403,
+            );
+          }
+          return await forwardToService(service, c.req.raw);
         } catch (_error) {
           return c.json({ error: "Unauthorized " + _error }, 401);
         }
@@ -94,7 +99,7 @@ export function setupApiRoutes(
     };
 
     if (!service) {
-      const serviceConfig = await getServiceFromDB(context.dbContext, serviceName);
+      const serviceConfig = await getDeployedService(context.dbContext, serviceName);
       if (!serviceConfig) {
         return c.json({ error: `Service '${serviceName}' not found` }, 404);
       }
@@ -102,6 +107,9 @@ export function setupApiRoutes(
       const service = await startService(context, serviceConfig);
       return handleService(service);
     } else {
+      // keep serving the running revision until a new one is healthy
+      followDeployedRevision(context, service)
+        .catch((error) => console.error(`Failed to deploy service ${serviceName}:`, error));
       return handleService(service);
     }
   });
@@ -109,9 +117,19 @@ export function setupApiRoutes(
 }
 
 async function forwardToService(
-  service: { config: { name: string }; port: number },
+  service: ServiceInstance,
   request: Request,
 ): Promise<Response> {
+  // a replaced worker is only stopped once its in-flight requests are done
+  let settled = false;
+  const done = () => {
+    if (!settled) {
+      settled = true;
+      service.inflight = (service.inflight ?? 1) - 1;
+    }
+  };
+  service.inflight = (service.inflight ?? 0) + 1;
+
   try {
     const serviceUrl = `http://127.0.0.1:${service.port}${new URL(request.url).pathname}${
       new URL(request.url).search
@@ -123,8 +141,16 @@ async function forwardToService(
       body: request.body,
     });
 
-    return response;
+    if (!response.body) {
+      done();
+      return response;
+    }
+    return new Response(
+      response.body.pipeThrough(new TransformStream({ flush: done, cancel: done })),
+      response,
+    );
   } catch (error) {
+    done();
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(`Error forwarding to service ${service.config.name}:`, errorMessage);
     return new Response(
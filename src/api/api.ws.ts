@@ -0,0 +1,304 @@
+import { Context, Hono, Next } from "hono";
+import { upgradeWebSocket } from "hono/deno";
+import type { WSContext, WSEvents } from "hono/ws";
+import { Kysely } from "kysely";
+import { queueBaseMiddleware } from "../../database/api/api.task.ts";
+import { databaseMiddleware } from "../../database/api/api.service.ts";
+import { DatabaseContext } from "../../database/config.ts";
+import { getFunction } from "../../database/tables/functions.ts";
+import { getFunctionNameByQueueId, QueueBase } from "../../database/task_tables/queue.ts";
+import { subscribeToTraceByQueueId } from "../../database/task_tables/subscriber.ts";
+import { execFunction, readFunctionEvents } from "../managers/function-manager.ts";
+import { authenticate, authenticateToken, authorize, hasCredentials, Principal } from "./auth.ts";
+
+// Client to server messages, see "WebSocket Protocol" in the README
+type ClientMessage =
+  | { type: "subscribe"; queue_id: string; last_event_id?: number }
+  | { type: "unsubscribe"; queue_id: string }
+  | { type: "invoke"; id: string; function: string; params?: object }
+  | { type: "cancel"; id: string };
+
+type ServerMessage =
+  | { type: "subscribed" | "unsubscribed" | "done"; queue_id: string }
+  | { type: "trace"; queue_id: string; trace: unknown }
+  | { type: "progress" | "result"; id: string; value: unknown }
+  | { type: "error"; id?: string; queue_id?: string; error: string; message?: string };
+
+// How often an authenticated socket verifies its credential again
+const CREDENTIAL_CHECK_INTERVAL = 60 * 1000;
+// Longer setTimeout delays overflow, later expirations are left to the credential check
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// State of one connection, everything still running is aborted when it closes
+interface SocketSession {
+  dbContext: DatabaseContext;
+  queueBase: Kysely<QueueBase>;
+  principal: Principal | null;
+  credential?: string; // the JWT or API key the socket was opened with
+  subscriptions: Map<string, AbortController>; // by queue ID
+  invocations: Map<string, AbortController>; // by client chosen invocation ID
+  timers: ReturnType<typeof setTimeout>[];
+}
+
+declare module "hono" {
+  interface ContextVariableMap {
+    socketCredential: string;
+  }
+}
+
+// Setup the multiplexed WebSocket route for queue traces and function streams
+export function setupWebSocketRoutes(dbContext: DatabaseContext, queueBase: Kysely<QueueBase>) {
+  const app = new Hono();
+  app.use("*", databaseMiddleware(dbContext));
+  app.use("*", queueBaseMiddleware(queueBase));
+  app.get("/", authenticateSocket, upgradeWebSocket(socketEvents));
+  return app;
+}
+
+// Credentials are verified once at the upgrade. Browsers cannot set headers on a WebSocket,
+// so a JWT or API key may also be passed as ?token=. Anonymous sockets may call public functions.
+async function authenticateSocket(c: Context, next: Next) {
+  const dbContext = c.get("dbContext");
+  const token = c.req.query("token");
+  if (token || hasCredentials(c)) {
+    const principal = token
+      ? await authenticateToken(dbContext, token)
+      : await authenticate(dbContext, c);
+    if (!principal) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+    c.set("principal", principal);
+    c.set(
+      "socketCredential",
+      token || c.req.header("X-API-Key") || c.req.header("Authorization")!.replace("Bearer ", ""),
+    );
+  }
+  await next();
+}
+
+function socketEvents(c: Context): WSEvents {
+  const session: SocketSession = {
+    dbContext: c.get("dbContext"),
+    queueBase: c.get("queueBase"),
+    principal: c.get("principal") ?? null,
+    credential: c.get("socketCredential"),
+    subscriptions: new Map(),
+    invocations: new Map(),
+    timers: [],
+  };
+  return {
+    onOpen(_event, ws) {
+      watchCredential(session, ws);
+    },
+    onMessage(event, ws) {
+      handleMessage(session, ws, event.data).catch((error) => {
+        console.error("WebSocket message error:", error);
+        send(ws, {
+          type: "error",
+          error: "Internal Server Error",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      });
+    },
+    onClose() {
+      endSession(session);
+    },
+  };
+}
+
+// Aborts subscriptions and invocations, which cancels the streams of running functions
+function endSession(session: SocketSession) {
+  session.timers.forEach(clearTimeout);
+  session.timers = [];
+  for (const ac of [...session.subscriptions.values(), ...session.invocations.values()]) {
+    ac.abort();
+  }
+  session.subscriptions.clear();
+  session.invocations.clear();
+}
+
+// A socket outlives its upgrade, so it is closed when its JWT expires and its credential is
+// verified again every CREDENTIAL_CHECK_INTERVAL, which ends sockets of revoked API keys
+function watchCredential(session: SocketSession, ws: WSContext) {
+  const { principal, credential } = session;
+  if (!principal || !credential) return;
+  const close = () => {
+    endSession(session);
+    ws.close(1008, "Credential expired or revoked");
+  };
+
+  if (principal.exp !== undefined) {
+    const expiresIn = principal.exp * 1000 - Date.now();
+    if (expiresIn <= MAX_TIMER_DELAY) session.timers.push(setTimeout(close, expiresIn));
+  }
+  session.timers.push(setInterval(async () => {
+    const current = await authenticateToken(session.dbContext, credential).catch(() => null);
+    if (current) {
+      // scopes of later messages follow the credential
+      session.principal = current;
+    } else {
+      close();
+    }
+  }, CREDENTIAL_CHECK_INTERVAL));
+}
+
+function send(ws: WSContext, message: ServerMessage) {
+  // subscriptions and invocations may still finish after the socket closed
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+async function handleMessage(session: SocketSession, ws: WSContext, data: unknown) {
+  let message: ClientMessage;
+  try {
+    message = JSON.parse(typeof data === "string" ? data : "");
+  } catch {
+    return send(ws, {
+      type: "error",
+      error: "Invalid message",
+      message: "Messages must be JSON text",
+    });
+  }
+
+  switch (message?.type) {
+    case "subscribe":
+    case "unsubscribe":
+      if (typeof message.queue_id !== "string") {
+        return send(ws, { type: "error", error: "queue_id is required" });
+      }
+      return message.type === "subscribe"
+        ? await subscribe(session, ws, message.queue_id, message.last_event_id)
+        : unsubscribe(session, ws, message.queue_id);
+    case "invoke":
+      if (typeof message.id !== "string" || typeof message.function !== "string") {
+        return send(ws, { type: "error", error: "id and function are required" });
+      }
+      return await invoke(session, ws, message.id, message.function, message.params ?? {});
+    case "cancel": {
+      const ac = session.invocations.get(message.id);
+      if (!ac) {
+        return send(ws, { type: "error", id: message.id, error: "Invocation not found" });
+      }
+      return ac.abort();
+    }
+    default:
+      return send(ws, {
+        type: "error",
+        error: "Invalid message",
+        message: `Unknown message type: ${(message as { type?: unknown })?.type}`,
+      });
+  }
+}
+
+// Streams a queue item's traces like POST /queue/v2/subscribe, ending with "done"
+async function subscribe(
+  session: SocketSession,
+  ws: WSContext,
+  queueId: string,
+  lastEventId?: number,
+) {
+  const { dbContext, queueBase } = session;
+  if (session.subscriptions.has(queueId)) {
+    return send(ws, { type: "error", queue_id: queueId, error: "Already subscribed" });
+  }
+  const functionName = await getFunctionNameByQueueId(dbContext, queueBase, queueId);
+  const functionConfig = functionName ? await getFunction(dbContext, functionName) : null;
+  const failure = authorize(session.principal, functionConfig ?? {}, "tasks:read");
+  if (failure) {
+    const { error, message } = failure;
+    return send(ws, { type: "error", queue_id: queueId, error, message });
+  }
+  if (!functionConfig) {
+    return send(ws, { type: "error", queue_id: queueId, error: "Queue item not found" });
+  }
+
+  const ac = new AbortController();
+  session.subscriptions.set(queueId, ac);
+  send(ws, { type: "subscribed", queue_id: queueId });
+  try {
+    for await (
+      const trace of subscribeToTraceByQueueId(queueBase, queueId, ac, Number(lastEventId) || 0)
+    ) {
+      send(ws, { type: "trace", queue_id: queueId, trace });
+    }
+    if (!ac.signal.aborted) {
+      send(ws, { type: "done", queue_id: queueId });
+    }
+  } finally {
+    if (session.subscriptions.get(queueId) === ac) {
+      session.subscriptions.delete(queueId);
+    }
+  }
+}
+
+function unsubscribe(session: SocketSession, ws: WSContext, queueId: string) {
+  const ac = session.subscriptions.get(queueId);
+  if (!ac) {
+    return send(ws, { type: "error", queue_id: queueId, error: "Not subscribed" });
+  }
+  ac.abort();
+  session.subscriptions.delete(queueId);
+  send(ws, { type: "unsubscribed", queue_id: queueId });
+}
+
+// Runs a function like POST /functions/v2/:name. Generator functions send their yielded values
+// as "progress" messages, every invocation ends with one "result" or "error".
+async function invoke(
+  session: SocketSession,
+  ws: WSContext,
+  id: string,
+  name: string,
+  params: object,
+) {
+  const { dbContext } = session;
+  if (session.invocations.has(id)) {
+    return send(ws, { type: "error", id, error: "Invocation id already in use" });
+  }
+  // "name@3" invokes revision 3 of the function
+  const [, functionName, revision] = name.match(/^(.*?)(?:@(\d+))?$/)!;
+  const functionConfig = await getFunction(dbContext, functionName);
+  if (!functionConfig) {
+    return send(ws, { type: "error", id, error: "Function not found" });
+  }
+  const failure = authorize(
+    session.principal,
+    functionConfig,
+    functionConfig.auth === "public" ? undefined : "functions:invoke",
+  );
+  if (failure) {
+    return send(ws, { type: "error", id, error: failure.error, message: failure.message });
+  }
+  if (!functionConfig.enabled) {
+    return send(ws, { type: "error", id, error: "Function is disabled" });
+  }
+
+  const ac = new AbortController();
+  session.invocations.set(id, ac);
+  try {
+    const resp = await execFunction(
+      dbContext,
+      functionName,
+      params,
+      revision !== undefined ? parseInt(revision) : undefined,
+      ac.signal,
+    );
+    if (!resp.ok) {
+      return send(ws, { type: "error", id, error: "Function failed", message: await resp.text() });
+    }
+    if (resp.headers.get("Content-Type") !== "text/event-stream") {
+      return send(ws, { type: "result", id, value: await resp.json() });
+    }
+    for await (const { event, data } of readFunctionEvents(resp, ac.signal)) {
+      if (event === "error") {
+        return send(ws, { type: "error", id, error: "Function failed", message: data });
+      } else if (data.startsWith("[DONE]")) {
+        const value = data.length > 6 ? JSON.parse(data.slice(6)) : null;
+        return send(ws, { type: "result", id, value });
+      }
+      send(ws, { type: "progress", id, value: JSON.parse(data) });
+    }
+  } finally {
+    session.invocations.delete(id);
+  }
+}
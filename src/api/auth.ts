@@ -0,0 +1,112 @@
+import type { Context } from "hono";
+import { DatabaseContext } from "../../database/config.ts";
+import { KEY_PREFIX, verifyAPIKey } from "../../database/tables/api_keys.ts";
+import { verifyJWT } from "./api.admin.ts";
+import { hasScope, parseScopes, Scope } from "./scopes.ts";
+import type { FunctionConfig } from "../../database/tables/functions.ts";
+
+// The verified caller of a service or function, from a bearer JWT or an X-API-Key header
+export interface Principal {
+  type: "jwt" | "api_key";
+  sub: string; // JWT subject or API key name
+  scope?: string;
+  exp?: number; // JWT expiration time
+}
+
+declare module "hono" {
+  interface ContextVariableMap {
+    principal: Principal;
+  }
+}
+
+export function hasCredentials(c: Context): boolean {
+  return !!c.req.header("X-API-Key") || !!c.req.header("Authorization")?.startsWith("Bearer ");
+}
+
+// Verifies the X-API-Key header, or the bearer token when no key is sent
+export async function authenticate(
+  dbContext: DatabaseContext,
+  c: Context,
+): Promise<Principal | null> {
+  const apiKey = c.req.header("X-API-Key");
+  if (apiKey) {
+    const key = await verifyAPIKey(dbContext, apiKey);
+    return key ? { type: "api_key", sub: key.name, scope: key.scope } : null;
+  }
+
+  const token = c.req.header("Authorization")?.replace("Bearer ", "") || "";
+  return token ? await authenticateToken(dbContext, token) : null;
+}
+
+// Verifies a credential sent without headers, e.g. the ?token= of a browser WebSocket.
+// API keys are recognised by their prefix, anything else must be a JWT.
+export async function authenticateToken(
+  dbContext: DatabaseContext,
+  token: string,
+): Promise<Principal | null> {
+  if (token.startsWith(KEY_PREFIX)) {
+    const key = await verifyAPIKey(dbContext, token);
+    return key ? { type: "api_key", sub: key.name, scope: key.scope } : null;
+  }
+  const payload = await verifyJWT(dbContext, token);
+  return payload ? { type: "jwt", sub: payload.sub, scope: payload.scope, exp: payload.exp } : null;
+}
+
+export interface AuthFailure {
+  status: 401 | 403;
+  error: string;
+  message?: string;
+}
+
+// Checks an already verified caller, or null for an anonymous one, against a function's auth
+// policy. See checkAuthPolicy for how `required` combines with the policy.
+export function authorize(
+  principal: Principal | null,
+  policy: Pick<FunctionConfig, "auth" | "auth_scope">,
+  required?: Scope,
+): AuthFailure | null {
+  const auth = policy.auth ?? "public";
+  if (auth === "public" && !required) {
+    return null;
+  }
+  if (!principal) {
+    return { status: 401, error: "Unauthorized" };
+  }
+  if (auth !== "public" && principal.type !== auth) {
+    const expected = auth === "jwt" ? "a bearer JWT" : "an X-API-Key header";
+    return { status: 401, error: "Unauthorized", message: `Requires ${expected}` };
+  }
+
+  const scopes = [...(required ? [required] : []), ...parseScopes(policy.auth_scope) as Scope[]];
+  const missing = scopes.find((scope) => !hasScope(principal.scope, scope));
+  if (missing) {
+    return { status: 403, error: "Forbidden", message: `Token lacks the ${missing} scope` };
+  }
+  return null;
+}
+
+// Checks the caller against a function's auth policy and returns an error response when refused.
+// `required` is the scope every authenticated caller needs, the policy's auth_scope adds to it.
+// Without a required scope public functions stay open, but credentials that are sent must be valid.
+export async function checkAuthPolicy(
+  dbContext: DatabaseContext,
+  c: Context,
+  policy: Pick<FunctionConfig, "auth" | "auth_scope">,
+  required?: Scope,
+): Promise<Response | null> {
+  const auth = policy.auth ?? "public";
+  if (auth === "public" && !required && !hasCredentials(c)) {
+    return null;
+  }
+
+  const principal = await authenticate(dbContext, c);
+  if (!principal) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  const failure = authorize(principal, policy, required);
+  if (failure) {
+    return c.json({ error: failure.error, message: failure.message }, failure.status);
+  }
+  c.set("principal", principal);
+  return null;
+}
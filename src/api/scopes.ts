@@ -0,0 +1,75 @@
+import type { Context, Next } from "hono";
+
+// Scopes a token can carry in its space separated `scope` claim
+export const SCOPES = [
+  "services:read",
+  "services:write",
+  "services:invoke",
+  "functions:read",
+  "functions:write",
+  "functions:invoke",
+  "tasks:read",
+  "tasks:write",
+  "tasks:enqueue",
+  "config:read",
+  "config:write",
+  "jwt:read",
+  "jwt:write",
+  "api_keys:read",
+  "api_keys:write",
+] as const;
+
+export type Scope = typeof SCOPES[number];
+
+// "full" and "*" grant everything, "<resource>:*" grants every action on a resource.
+// Routes that hand out secrets require "full" itself.
+const WILDCARDS = ["full", "*"];
+export type RequiredScope = Scope | "full";
+
+export function parseScopes(scope: unknown): string[] {
+  return typeof scope === "string" ? scope.split(/\s+/).filter((s) => s) : [];
+}
+
+export function isValidScope(scope: string): boolean {
+  if (WILDCARDS.includes(scope) || (SCOPES as readonly string[]).includes(scope)) return true;
+  const [resource, action] = scope.split(":");
+  return action === "*" && SCOPES.some((s) => s.startsWith(`${resource}:`));
+}
+
+export function hasScope(scope: unknown, required: RequiredScope): boolean {
+  const [resource] = required.split(":");
+  return parseScopes(scope).some((granted) =>
+    WILDCARDS.includes(granted) || granted === required || granted === `${resource}:*`
+  );
+}
+
+// The requested scopes a token with `scope` cannot hand out, wildcards need every scope they grant
+export function uncoveredScopes(scope: unknown, requested: string[]): string[] {
+  return requested.filter((s) => {
+    if (WILDCARDS.includes(s)) return !hasScope(scope, "full");
+    const [resource, action] = s.split(":");
+    const granted = action === "*" ? SCOPES.filter((r) => r.startsWith(`${resource}:`)) : [s];
+    return granted.some((r) => !hasScope(scope, r as Scope));
+  });
+}
+
+// Rejects requests whose verified token lacks the scope, must run after the JWT middleware
+export function requireScope(scope: RequiredScope | ((c: Context) => RequiredScope)) {
+  return async (c: Context, next: Next) => {
+    const payload = c.get("jwtPayload");
+    if (!payload) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+    const required = typeof scope === "function" ? scope(c) : scope;
+    if (!hasScope(payload.scope, required)) {
+      return c.json({ error: "Forbidden", message: `Token lacks the ${required} scope` }, 403);
+    }
+    return await next();
+  };
+}
+
+// Reads need <resource>:read, everything else <resource>:write
+export function resourceScope(resource: string) {
+  return (c: Context): Scope =>
+    `${resource}:${c.req.method === "GET" || c.req.method === "HEAD" ? "read" : "write"}` as Scope;
+}
@@ -0,0 +1,174 @@
+// Five field cron expressions: minute hour day-of-month month day-of-week
+// Supports *, lists, ranges, steps, month and weekday names and the @hourly style macros.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean; // day-of-month is *
+  anyWeekday: boolean; // day-of-week is *
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] = [],
+  offset = 0,
+): Set<number> {
+  const toNumber = (value: string) => {
+    const index = names.indexOf(value.toUpperCase());
+    const number = index >= 0 ? index + offset : Number(value);
+    if (!Number.isInteger(number) || number < min || number > max) {
+      throw new Error(`Invalid cron value "${value}", expected ${min}-${max}`);
+    }
+    return number;
+  };
+
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${stepText}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = toNumber(from);
+      // "5/15" means from 5 to the end of the range
+      end = to !== undefined ? toNumber(to) : stepText !== undefined ? max : start;
+    }
+    if (start > end) {
+      throw new Error(`Invalid cron range "${range}"`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = (MACROS[expression.trim().toLowerCase()] ?? expression).trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}", expected 5 fields`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields;
+  const weekdaySet = parseField(weekdays, 0, 7, WEEKDAY_NAMES);
+  // 7 is an alias for Sunday
+  if (weekdaySet.delete(7)) weekdaySet.add(0);
+
+  return {
+    minutes: parseField(minutes, 0, 59),
+    hours: parseField(hours, 0, 23),
+    days: parseField(days, 1, 31),
+    months: parseField(months, 1, 12, MONTH_NAMES, 1),
+    weekdays: weekdaySet,
+    anyDay: days === "*",
+    anyWeekday: weekdays === "*",
+  };
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall clock fields of an instant in a timezone
+function localTime(date: Date, timezone: string) {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map((p) => [p.type, p.value]));
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toUpperCase()),
+  };
+}
+
+const MINUTE = 60 * 1000;
+const SEARCH_LIMIT = 5 * 366 * 24 * 60; // minutes, covers Feb 29 schedules
+
+// The first time strictly after `after` that matches the schedule, in the given timezone.
+// Local times skipped by a DST change never match, repeated ones may match twice.
+export function nextCronRun(
+  schedule: CronSchedule | string,
+  after: Date,
+  timezone = "UTC",
+): Date {
+  const cron = typeof schedule === "string" ? parseCron(schedule) : schedule;
+  let time = Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE;
+
+  for (let searched = 0; searched < SEARCH_LIMIT;) {
+    const local = localTime(new Date(time), timezone);
+    // when both day fields are restricted either one matching is enough
+    const dayMatches = cron.anyDay || cron.anyWeekday
+      ? cron.days.has(local.day) && cron.weekdays.has(local.weekday)
+      : cron.days.has(local.day) || cron.weekdays.has(local.weekday);
+
+    // skip days and hours that cannot match, stopping an hour short of midnight for DST days
+    let skip = 1;
+    if (!cron.months.has(local.month) || !dayMatches) {
+      skip = Math.max(60 - local.minute, 23 * 60 - (local.hour * 60 + local.minute));
+    } else if (!cron.hours.has(local.hour)) {
+      skip = 60 - local.minute;
+    } else if (cron.minutes.has(local.minute)) {
+      return new Date(time);
+    }
+    time += skip * MINUTE;
+    searched += skip;
+  }
+  throw new Error("Cron expression never matches");
+}
@@ -1,43 +1,99 @@
 import { DatabaseContext } from "../../database/config.ts";
-import { getFunction } from "../../database/tables/functions.ts";
+import {
+  FunctionConfig,
+  getFunction,
+  getFunctionAtRevision,
+} from "../../database/tables/functions.ts";
+import { DEFAULT_DB_INIT_CONFIG } from "../../database/tables/index.ts";
 
-export async function execFunction(
-  context: DatabaseContext,
-  name: string,
-  params: object,
-): Promise<Response> {
-  try {
-    const functionConfig = await getFunction(context, name);
-    if (!functionConfig) {
-      return new Response(`Function ${name} not found`, { status: 404 });
-    }
-    const functionCode = functionConfig.code;
-    const staticDir = new URL(`../../static/${functionConfig.name}/`, import.meta.url);
-    const handlerCode = `
+interface PooledWorker {
+  worker: Worker;
+  invocations: number;
+  idleTimer?: number;
+  // set while an invocation owns the worker, receives unexpected worker errors
+  onFailure?: (error: Error) => void;
+}
+
+interface FunctionPool {
+  // code + permissions the workers were spawned with, a mismatch invalidates the pool
+  fingerprint: string;
+  idle: PooledWorker[];
+}
+
+// warm workers per database context, function name and revision
+const functionPools = new WeakMap<DatabaseContext, Map<string, FunctionPool>>();
+
+function getPoolSettings(context: DatabaseContext) {
+  return {
+    size: context.config?.function_pool_size ?? DEFAULT_DB_INIT_CONFIG.function_pool_size!,
+    idleTimeout: context.config?.function_pool_idle_timeout ??
+      DEFAULT_DB_INIT_CONFIG.function_pool_idle_timeout!,
+    maxInvocations: context.config?.function_pool_max_invocations ??
+      DEFAULT_DB_INIT_CONFIG.function_pool_max_invocations!,
+  };
+}
+
+function fingerprintOf(functionConfig: FunctionConfig): string {
+  return JSON.stringify([functionConfig.code, functionConfig.permissions]);
+}
+
+// revisions invoked side by side keep their own workers
+function poolKey(functionConfig: FunctionConfig): string {
+  return `${functionConfig.name}@${functionConfig.revision ?? ""}`;
+}
+
+function getPool(context: DatabaseContext, functionConfig: FunctionConfig): FunctionPool {
+  let pools = functionPools.get(context);
+  if (!pools) {
+    pools = new Map();
+    functionPools.set(context, pools);
+  }
+  const fingerprint = fingerprintOf(functionConfig);
+  let pool = pools.get(poolKey(functionConfig));
+  if (pool && pool.fingerprint !== fingerprint) {
+    // code or permissions changed since the workers were warmed
+    pool.idle.forEach(discardWorker);
+    pool = undefined;
+  }
+  if (!pool) {
+    pool = { fingerprint, idle: [] };
+    pools.set(poolKey(functionConfig), pool);
+  }
+  return pool;
+}
+
+function discardWorker(pooled: PooledWorker) {
+  clearTimeout(pooled.idleTimer);
+  pooled.worker.terminate();
+}
+
+function spawnWorker(functionConfig: FunctionConfig): Promise<PooledWorker> {
+  const functionCode = functionConfig.code;
+  const staticDir = new URL(`../../static/${functionConfig.name}/`, import.meta.url);
+  const handlerCode = `
 globalThis.staticDir = "${staticDir.toString()}";
 
 ${functionCode}
 `;
-    const handlerURI = "data:application/javascript," + encodeURIComponent(handlerCode);
+  const handlerURI = "data:application/javascript," + encodeURIComponent(handlerCode);
 
-    const workerAdapterCode = `
+  const workerAdapterCode = `
 let __handler;
+let __loadError;
 try {
   __handler = (await import(\`${handlerURI}\`)).default;
 } catch (error) {
-  self.postMessage({
-    type: "error",
+  __loadError = {
     message: error.message || "Failed to load function",
     stack: error.stack,
-  });
+  };
 }
 
-if (typeof __handler !== "function") {
+if (!__loadError && typeof __handler !== "function") {
   console.log(__handler);
-  self.postMessage({
-    type: "error",
+  __loadError = {
     message: "No default export found or default export is not a function",
-  });
+  };
 }
 
 const is_html = (t) => (/<\\/?[a-z][\\s\\S]*>/i.test(t));
@@ -51,104 +107,342 @@ const is_json = (t) => {
 };
 
 self.onmessage = async (event) => {
-  if (typeof event.data === "object" && event.data !== null) {
-    try {
-      const res = await __handler(event.data);
-      // check if res is a generator
-      if (res && typeof res.next === "function") {
-        self.postMessage({
-          contentType: "text/event-stream",
-        });
-        const generator = res;
-        while (true) {
-          const { value, done } = await generator.next();
-          if (done) {
-            self.postMessage({
-              type: "stream-result",
-              value,
-            });
-            break;
-          }
-          // post the value back to the main thread
+  // params may be any JSON value, workflow steps fan out over array elements
+  try {
+    const res = await __handler(event.data);
+    // check if res is a generator
+    if (res && typeof res.next === "function") {
+      self.postMessage({
+        contentType: "text/event-stream",
+      });
+      const generator = res;
+      while (true) {
+        const { value, done } = await generator.next();
+        if (done) {
           self.postMessage({
-            type: "progress",
+            type: "stream-result",
             value,
           });
+          break;
         }
-      } else if (res) {
-        if (is_html(res)) {
-          self.postMessage({
-            contentType: "text/html",
-          });
-        } else if (is_json(res)) {
-          self.postMessage({
-            contentType: "application/json",
-          });
-        } else {
-          self.postMessage({
-            contentType: "text/plain",
-          });
-        }
+        // post the value back to the main thread
         self.postMessage({
-          type: "result",
-          value: res,
+          type: "progress",
+          value,
         });
-      } else {
+      }
+    } else if (res) {
+      if (is_html(res)) {
         self.postMessage({
-          contentType: "text/plain",
+          contentType: "text/html",
         });
+      } else if (is_json(res)) {
         self.postMessage({
-          type: "result",
-          value: null,
+          contentType: "application/json",
+        });
+      } else {
+        self.postMessage({
+          contentType: "text/plain",
         });
       }
-    } catch (error) {
-      // Send error back to main thread
       self.postMessage({
-        type: "error",
-        message: error.message || "Unknown error",
-        stack: error.stack,
+        type: "result",
+        value: res,
+      });
+    } else {
+      self.postMessage({
+        contentType: "text/plain",
+      });
+      self.postMessage({
+        type: "result",
+        value: null,
       });
     }
+  } catch (error) {
+    // Send error back to main thread
+    self.postMessage({
+      type: "error",
+      message: error.message || "Unknown error",
+      stack: error.stack,
+    });
   }
 };
 
+if (__loadError) {
+  self.postMessage({ type: "error", ...__loadError });
+} else {
+  self.postMessage({ type: "ready" });
+}
   `;
 
-    // Create worker with appropriate permissions
-    const worker = new Worker(
-      URL.createObjectURL(new Blob([workerAdapterCode], { type: "application/javascript" })),
-      {
-        type: "module",
-        deno: {
-          permissions: {
-            net: true,
-            read: functionConfig.permissions?.read.map((urlString) => new URL(urlString)) || [],
-            write: functionConfig.permissions?.write || [],
-            env: functionConfig.permissions?.env || [],
-            run: functionConfig.permissions?.run || [],
-          },
+  // Create worker with appropriate permissions
+  const worker = new Worker(
+    URL.createObjectURL(new Blob([workerAdapterCode], { type: "application/javascript" })),
+    {
+      type: "module",
+      deno: {
+        permissions: {
+          net: true,
+          read: functionConfig.permissions?.read.map((urlString) => new URL(urlString)) || [],
+          write: functionConfig.permissions?.write || [],
+          env: functionConfig.permissions?.env || [],
+          run: functionConfig.permissions?.run || [],
         },
       },
-    );
+    },
+  );
+  const pooled: PooledWorker = { worker, invocations: 0 };
 
-    let streamController: ReadableStreamDefaultController;
-    const stream = new ReadableStream({
-      start(controller) {
-        streamController = controller;
-      },
-    });
+  worker.onerror = (event) => {
+    // uncaught errors must not take down the main thread
+    event.preventDefault();
+    worker.terminate();
+    pooled.onFailure?.(new Error(`Function execution error: ${event.message}`));
+  };
+
+  return new Promise((resolve, reject) => {
+    pooled.onFailure = reject;
+    worker.onmessage = (event) => {
+      pooled.onFailure = undefined;
+      if (event.data.type === "ready") {
+        resolve(pooled);
+      } else {
+        worker.terminate();
+        reject(new Error(`Function execution error: ${event.data.message}`));
+      }
+    };
+  });
+}
+
+async function acquireWorker(
+  context: DatabaseContext,
+  functionConfig: FunctionConfig,
+): Promise<PooledWorker> {
+  const pooled = getPool(context, functionConfig).idle.pop();
+  if (pooled) {
+    clearTimeout(pooled.idleTimer);
+    return pooled;
+  }
+  // every warm worker is busy or none exists yet, the pool size only bounds idle workers so
+  // concurrent calls are not queued
+  return await spawnWorker(functionConfig);
+}
+
+function releaseWorker(
+  context: DatabaseContext,
+  functionConfig: FunctionConfig,
+  pooled: PooledWorker,
+) {
+  pooled.worker.onmessage = null;
+  pooled.onFailure = undefined;
+  pooled.invocations++;
+
+  const { size, idleTimeout, maxInvocations } = getPoolSettings(context);
+  const pool = functionPools.get(context)?.get(poolKey(functionConfig));
+  if (
+    !pool ||
+    pool.fingerprint !== fingerprintOf(functionConfig) ||
+    pooled.invocations >= maxInvocations ||
+    pool.idle.length >= size
+  ) {
+    discardWorker(pooled);
+    return;
+  }
+
+  pooled.idleTimer = setTimeout(() => {
+    pool.idle = pool.idle.filter((p) => p !== pooled);
+    discardWorker(pooled);
+  }, idleTimeout);
+  // idle workers should not keep the process alive
+  Deno.unrefTimer(pooled.idleTimer);
+  pooled.onFailure = () => {
+    pool.idle = pool.idle.filter((p) => p !== pooled);
+    clearTimeout(pooled.idleTimer);
+  };
+  pool.idle.push(pooled);
+}
+
+// Terminates every warm worker of the given context
+export function drainFunctionPools(context: DatabaseContext) {
+  const pools = functionPools.get(context);
+  if (!pools) return;
+  for (const pool of pools.values()) {
+    pool.idle.forEach(discardWorker);
+  }
+  functionPools.delete(context);
+}
+
+// One event of a generator function's stream, see execFunction
+export interface FunctionStreamEvent {
+  event: string; // "message", or "error" when the function failed mid-stream
+  data: string; // JSON progress value, or "[DONE]" followed by the optional JSON return value
+}
+
+// Aborting `signal` or returning early cancels the stream, which stops the function's worker
+export async function* readFunctionEvents(
+  resp: Response,
+  signal?: AbortSignal,
+): AsyncGenerator<FunctionStreamEvent> {
+  const sse = resp.body;
+  if (!sse) {
+    throw new Error("Response body is not readable");
+  }
+  let buffer = "";
+  let event = "message";
+  const reader = sse.getReader();
+  const cancel = () => reader.cancel().catch(() => {});
+  if (signal?.aborted) cancel();
+  signal?.addEventListener("abort", cancel, { once: true });
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        if (line.startsWith("event: ")) {
+          event = line.slice(7).trim();
+        } else if (line.startsWith("data: ")) {
+          yield { event, data: line.slice(6).trim() };
+        }
+      }
+    }
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+    // a no-op when the stream already ended
+    await cancel();
+    reader.releaseLock();
+  }
+}
+
+// Aborting `signal` terminates the worker, like a timeout
+export async function execFunction(
+  context: DatabaseContext,
+  name: string,
+  params: object,
+  revision?: number,
+  signal?: AbortSignal,
+): Promise<Response> {
+  try {
+    let functionConfig = await getFunction(context, name);
+    if (!functionConfig) {
+      return new Response(`Function ${name} not found`, { status: 404 });
+    }
+    // an explicitly requested revision wins over the pinned one
+    const targetRevision = revision ?? functionConfig.pinned_revision;
+    if (targetRevision !== undefined && targetRevision !== functionConfig.revision) {
+      functionConfig = await getFunctionAtRevision(context, name, targetRevision);
+      if (!functionConfig) {
+        return new Response(`Revision ${targetRevision} of function ${name} not found`, {
+          status: 404,
+        });
+      }
+    }
+    // per-function override wins over the global config
+    const timeout = functionConfig.timeout ??
+      context.config?.function_execution_timeout ??
+      DEFAULT_DB_INIT_CONFIG.function_execution_timeout!;
+
+    const pooled = await acquireWorker(context, functionConfig);
+    const worker = pooled.worker;
 
     worker.postMessage(params);
     return await new Promise((resolve, reject) => {
-      worker.addEventListener("message", (event) => {
+      let streaming = false;
+      // set once the stream is closed or the client cancelled it, later events are dropped
+      let closed = false;
+      let streamController: ReadableStreamDefaultController;
+      const stream = new ReadableStream({
+        start(controller) {
+          streamController = controller;
+        },
+        cancel() {
+          closed = true;
+          settle();
+          discardWorker(pooled);
+        },
+      });
+      const send = (chunk: string) => {
+        if (!closed) streamController.enqueue(chunk);
+      };
+      const closeStream = () => {
+        if (closed) return;
+        closed = true;
+        streamController.close();
+      };
+      const cancel = () => {
+        settle();
+        discardWorker(pooled);
+        const error = new Error(`Function ${name} was cancelled`);
+        if (streaming) {
+          send(`event: error\ndata: ${JSON.stringify({ error: error.message })}\n\n`);
+          closeStream();
+        } else {
+          reject(error);
+        }
+      };
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", cancel);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", cancel);
+        discardWorker(pooled);
+        const timeoutError = {
+          error: "Function execution timed out",
+          message: `Function ${name} did not finish within ${timeout}ms`,
+        };
+        if (streaming) {
+          // headers are already sent, so close the stream with a final error event
+          send(`event: error\ndata: ${JSON.stringify(timeoutError)}\n\n`);
+          closeStream();
+        } else {
+          resolve(
+            new Response(JSON.stringify(timeoutError), {
+              status: 504,
+              headers: {
+                "Content-Type": "application/json",
+              },
+            }),
+          );
+        }
+      }, timeout);
+
+      if (signal?.aborted) {
+        cancel();
+        return;
+      }
+      signal?.addEventListener("abort", cancel, { once: true });
+
+      pooled.onFailure = (error) => {
+        settle();
+        if (streaming) {
+          send(`event: error\ndata: ${JSON.stringify({ error: error.message })}\n\n`);
+          closeStream();
+        } else {
+          reject(error);
+        }
+      };
+
+      worker.onmessage = (event) => {
         if (event.data.type === "error") {
-          reject(new Error(`Function execution error: ${event.data.message}`));
+          settle();
+          discardWorker(pooled);
+          const error = new Error(`Function execution error: ${event.data.message}`);
+          if (streaming) {
+            // a generator threw after its stream started
+            send(`event: error\ndata: ${JSON.stringify({ error: error.message })}\n\n`);
+            closeStream();
+          } else {
+            reject(error);
+          }
         }
 
         // handle response
         if (event.data.contentType) {
           if (event.data.contentType === "text/event-stream") {
+            streaming = true;
             resolve(
               new Response(stream, {
                 headers: {
@@ -160,20 +454,22 @@ self.onmessage = async (event) => {
         }
 
         if (event.data.type === "progress") {
-          streamController.enqueue(`data: ${JSON.stringify(event.data.value)}\n\n`);
+          send(`data: ${JSON.stringify(event.data.value)}\n\n`);
         }
 
         if (event.data.type === "stream-result") {
-          streamController.enqueue(
+          send(
             `data: [DONE]${event.data.value ? JSON.stringify(event.data.value) : ""}\n\n`,
           );
-          streamController.close();
-          worker.terminate();
+          closeStream();
+          settle();
+          releaseWorker(context, functionConfig, pooled);
         }
 
         if (event.data.type === "result") {
-          streamController.close();
-          worker.terminate();
+          settle();
+          closeStream();
+          releaseWorker(context, functionConfig, pooled);
           resolve(
             new Response(JSON.stringify(event.data.value), {
               headers: {
@@ -182,7 +478,7 @@ self.onmessage = async (event) => {
             }),
           );
         }
-      });
+      };
     });
   } catch (error) {
     // console.error(`Failed to execute function ${functionConfig.name}:`, error);
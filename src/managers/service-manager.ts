@@ -1,21 +1,53 @@
 import { DatabaseContext } from "../../database/config.ts";
 import {
   allocatePort,
+  assignServicePort,
+  freePort,
+  getDeployedService,
   getServicePort,
+  getTargetRevision,
   releasePort,
+  reservePort,
   ServiceConfig,
 } from "../../database/tables/services.ts";
 
+// How long a new revision may take to accept connections before the cutover is abandoned
+const HEALTH_CHECK_TIMEOUT = 10000;
+// How long a replaced worker may keep finishing in-flight requests
+const DRAIN_TIMEOUT = 30000;
+// How often requests to a running service look up the revision the database deploys
+const REVISION_CHECK_INTERVAL = 1000;
+// A revision that failed to start is retried after 5 seconds, doubling up to 5 minutes
+const REVISION_RETRY_DELAY = 5000;
+const MAX_REVISION_RETRY_DELAY = 5 * 60 * 1000;
+
 export interface ServiceInstance {
   config: ServiceConfig;
   worker?: Worker;
   port: number;
-  status: "starting" | "running" | "stopped" | "error";
+  status: "starting" | "running" | "draining" | "stopped" | "error";
+  revision?: number;
+  inflight?: number; // Requests forwarded to the worker that have not completed yet
 }
 
 export interface ServiceManagerState {
   services: Map<string, ServiceInstance>;
   dbContext: DatabaseContext;
+  // replaced instances finishing their in-flight requests
+  draining: Set<ServiceInstance>;
+  // pending cutovers per service, so concurrent requests start a revision only once
+  deployments: Map<string, Promise<ServiceInstance>>;
+  // the last revision per service that failed to start, while the previous one keeps serving
+  failedRevisions: Map<string, FailedRevision>;
+  // when each service last looked up its deployed revision
+  revisionCheckedAt: Map<string, number>;
+}
+
+export interface FailedRevision {
+  revision?: number;
+  error: string;
+  attempts: number;
+  retry_at: string; // The revision is not started again before then
 }
 
 export function createServiceManagerState(
@@ -25,6 +57,10 @@ export function createServiceManagerState(
   return {
     services,
     dbContext,
+    draining: new Set(),
+    deployments: new Map(),
+    failedRevisions: new Map(),
+    revisionCheckedAt: new Map(),
   };
 }
 
@@ -43,6 +79,7 @@ export function getAllServices(
       ...service,
       name: service.config.name,
       jwt_check: service.config.jwt_check,
+      failed_revision: state.failedRevisions.get(service.config.name),
       config: undefined, // Do not expose full config in API
       worker: undefined, // Do not expose worker in API
     }
@@ -71,19 +108,38 @@ export async function startService(
       config: serviceConfig,
       port,
       status: "starting",
+      revision: serviceConfig.revision,
+      inflight: 0,
     };
 
     state.services.set(serviceConfig.name, serviceInstance);
 
-    // Services must have code from database - no file-based services
-    if (!serviceConfig.code) {
-      throw new Error("Service code is required - file-based services are not supported");
-    }
+    spawnServiceWorker(state, serviceInstance);
+    serviceInstance.status = "running";
+
+    console.log(`✅ Service ${serviceConfig.name} started on port ${port}`);
+    return serviceInstance;
+  } catch (error) {
+    console.error(`Failed to start service ${serviceConfig.name}:`, error);
+    await releasePort(serviceConfig.name, state.dbContext.dbInstance);
+    state.services.delete(serviceConfig.name);
+    throw error;
+  }
+}
+
+function spawnServiceWorker(state: ServiceManagerState, serviceInstance: ServiceInstance) {
+  const serviceConfig = serviceInstance.config;
+  const port = serviceInstance.port;
 
-    const serviceCode = serviceConfig.code;
-    const staticDir = `static/${serviceConfig.name}/`;
-    const staticUrl = new URL(`../../${staticDir}`, import.meta.url);
-    const rewriteDenoServe = `
+  // Services must have code from database - no file-based services
+  if (!serviceConfig.code) {
+    throw new Error("Service code is required - file-based services are not supported");
+  }
+
+  const serviceCode = serviceConfig.code;
+  const staticDir = `static/${serviceConfig.name}/`;
+  const staticUrl = new URL(`../../${staticDir}`, import.meta.url);
+  const rewriteDenoServe = `
 import { serveDir } from "jsr:@std/http/file-server";
 const ____AC = new AbortController();
 const __import_meta = import.meta.url;
@@ -128,12 +184,12 @@ Deno.serve = (...params) => {
 };
     `;
 
-    const handlerCode = `
+  const handlerCode = `
 ${rewriteDenoServe}
 ${serviceCode}
 `;
-    const handlerURI = "data:application/javascript," + encodeURIComponent(handlerCode);
-    const workerAdapterCode = `
+  const handlerURI = "data:application/javascript," + encodeURIComponent(handlerCode);
+  const workerAdapterCode = `
 
 // Handle server startup
 try {
@@ -159,48 +215,199 @@ self.onmessage = async (event) => {
 };
   `;
 
-    // Create worker with appropriate permissions
-    const worker = new Worker(
-      URL.createObjectURL(new Blob([workerAdapterCode], { type: "application/javascript" })),
-      {
-        type: "module",
-        deno: {
-          permissions: {
-            net: true,
-            read: (serviceConfig.permissions?.read.map((urlString) => new URL(urlString)) || [])
-              .concat([new URL(`../../${staticDir}`, import.meta.url)]),
-            write: serviceConfig.permissions?.write.map((urlString) => new URL(urlString)) || [],
-            env: serviceConfig.permissions?.env || [],
-            run: serviceConfig.permissions?.run.map((urlString) => new URL(urlString)) || [],
-          },
+  // Create worker with appropriate permissions
+  const worker = new Worker(
+    URL.createObjectURL(new Blob([workerAdapterCode], { type: "application/javascript" })),
+    {
+      type: "module",
+      deno: {
+        permissions: {
+          net: true,
+          read: (serviceConfig.permissions?.read.map((urlString) => new URL(urlString)) || [])
+            .concat([new URL(`../../${staticDir}`, import.meta.url)]),
+          write: serviceConfig.permissions?.write.map((urlString) => new URL(urlString)) || [],
+          env: serviceConfig.permissions?.env || [],
+          run: serviceConfig.permissions?.run.map((urlString) => new URL(urlString)) || [],
         },
       },
-    );
+    },
+  );
 
-    worker.addEventListener("message", (event) => {
-      if (event.data.type === "startup_error") {
-        console.error(`Service ${serviceConfig.name} startup error:`, event.data.error);
-        serviceInstance.status = "error";
-      }
-    });
-
-    worker.addEventListener("error", async (error) => {
-      console.error(`Worker error for ${serviceConfig.name}:`, error);
+  worker.addEventListener("message", (event) => {
+    if (event.data.type === "startup_error") {
+      console.error(`Service ${serviceConfig.name} startup error:`, event.data.error);
       serviceInstance.status = "error";
+    }
+  });
+
+  worker.addEventListener("error", async (error) => {
+    console.error(`Worker error for ${serviceConfig.name}:`, error);
+    serviceInstance.status = "error";
+    if (state.services.get(serviceConfig.name) === serviceInstance) {
       await releasePort(serviceConfig.name, state.dbContext.dbInstance);
-    });
+    } else {
+      // a revision that is not serving traffic only owns its own port
+      await freePort(port, state.dbContext.dbInstance);
+    }
+  });
 
-    serviceInstance.worker = worker;
-    serviceInstance.status = "running";
+  serviceInstance.worker = worker;
+}
 
-    console.log(`✅ Service ${serviceConfig.name} started on port ${port}`);
-    return serviceInstance;
+// Resolves once the worker accepts connections on its port
+async function waitUntilHealthy(serviceInstance: ServiceInstance): Promise<void> {
+  const deadline = Date.now() + HEALTH_CHECK_TIMEOUT;
+  while (serviceInstance.status !== "error") {
+    try {
+      const conn = await Deno.connect({ hostname: "127.0.0.1", port: serviceInstance.port });
+      conn.close();
+      return;
+    } catch {
+      if (Date.now() >= deadline) break;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  }
+  throw new Error(
+    `Service ${serviceInstance.config.name} revision ${serviceInstance.revision} did not become healthy`,
+  );
+}
+
+// Starts the given revision on a fresh port and switches traffic over once it is
+// healthy. The replaced worker keeps serving its in-flight requests, then stops.
+export function deployService(
+  state: ServiceManagerState,
+  serviceConfig: ServiceConfig,
+): Promise<ServiceInstance> {
+  const current = state.services.get(serviceConfig.name);
+  if (!current) {
+    return startService(state, serviceConfig);
+  }
+  if (current.revision === serviceConfig.revision) {
+    return Promise.resolve(current);
+  }
+
+  const pending = state.deployments.get(serviceConfig.name);
+  if (pending) return pending;
+
+  const deployment = cutover(state, current, serviceConfig).finally(() => {
+    state.deployments.delete(serviceConfig.name);
+  });
+  state.deployments.set(serviceConfig.name, deployment);
+  return deployment;
+}
+
+async function cutover(
+  state: ServiceManagerState,
+  current: ServiceInstance,
+  serviceConfig: ServiceConfig,
+): Promise<ServiceInstance> {
+  const dbInstance = state.dbContext.dbInstance;
+  const port = await reservePort(serviceConfig.name, dbInstance);
+  const serviceInstance: ServiceInstance = {
+    config: serviceConfig,
+    port,
+    status: "starting",
+    revision: serviceConfig.revision,
+    inflight: 0,
+  };
+
+  try {
+    spawnServiceWorker(state, serviceInstance);
+    await waitUntilHealthy(serviceInstance);
   } catch (error) {
-    console.error(`Failed to start service ${serviceConfig.name}:`, error);
-    await releasePort(serviceConfig.name, state.dbContext.dbInstance);
-    state.services.delete(serviceConfig.name);
+    // the current revision keeps serving traffic
+    serviceInstance.worker?.terminate();
+    await freePort(port, dbInstance);
+    recordFailedRevision(state, serviceConfig, error);
     throw error;
   }
+
+  state.failedRevisions.delete(serviceConfig.name);
+  serviceInstance.status = "running";
+  await assignServicePort(serviceConfig.name, port, dbInstance);
+  state.services.set(serviceConfig.name, serviceInstance);
+  console.log(
+    `✅ Service ${serviceConfig.name} revision ${serviceConfig.revision} serving on port ${port}`,
+  );
+
+  drainService(state, current).catch(console.error);
+  return serviceInstance;
+}
+
+function recordFailedRevision(
+  state: ServiceManagerState,
+  serviceConfig: ServiceConfig,
+  error: unknown,
+) {
+  const previous = state.failedRevisions.get(serviceConfig.name);
+  const attempts = previous && previous.revision === serviceConfig.revision
+    ? previous.attempts + 1
+    : 1;
+  const delay = Math.min(REVISION_RETRY_DELAY * 2 ** (attempts - 1), MAX_REVISION_RETRY_DELAY);
+  state.failedRevisions.set(serviceConfig.name, {
+    revision: serviceConfig.revision,
+    error: error instanceof Error ? error.message : String(error),
+    attempts,
+    retry_at: new Date(Date.now() + delay).toISOString(),
+  });
+}
+
+// Starts a cutover when the database deploys another revision than the running one. Looked up
+// at most every REVISION_CHECK_INTERVAL, a revision that failed to start waits for its retry_at.
+export async function followDeployedRevision(
+  state: ServiceManagerState,
+  service: ServiceInstance,
+): Promise<void> {
+  const name = service.config.name;
+  const now = Date.now();
+  if (service.revision === undefined || state.deployments.has(name)) return;
+  if (now - (state.revisionCheckedAt.get(name) ?? 0) < REVISION_CHECK_INTERVAL) return;
+  state.revisionCheckedAt.set(name, now);
+
+  const targetRevision = await getTargetRevision(state.dbContext, name);
+  if (targetRevision === null || targetRevision === service.revision) return;
+  const failed = state.failedRevisions.get(name);
+  if (failed?.revision === targetRevision && now < Date.parse(failed.retry_at)) return;
+
+  const serviceConfig = await getDeployedService(state.dbContext, name);
+  if (serviceConfig) await deployService(state, serviceConfig);
+}
+
+// Switches a running service over to the revision the database deploys and waits until it
+// serves. A service that is not running starts with that revision on its next request.
+export async function applyDeployedRevision(
+  state: ServiceManagerState,
+  name: string,
+): Promise<ServiceInstance | undefined> {
+  if (!state.services.has(name)) return undefined;
+  // a pending cutover may be starting another revision
+  await state.deployments.get(name)?.catch(() => {});
+  const serviceConfig = await getDeployedService(state.dbContext, name);
+  return serviceConfig ? await deployService(state, serviceConfig) : undefined;
+}
+
+async function drainService(state: ServiceManagerState, service: ServiceInstance) {
+  service.status = "draining";
+  state.draining.add(service);
+
+  const deadline = Date.now() + DRAIN_TIMEOUT;
+  while ((service.inflight ?? 0) > 0 && Date.now() < deadline && state.draining.has(service)) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  // stopAllServices may have stopped it already
+  if (!state.draining.delete(service)) return;
+
+  stopWorker(service);
+  await freePort(service.port, state.dbContext.dbInstance);
+  console.log(`Drained service ${service.config.name} revision ${service.revision}`);
+}
+
+function stopWorker(service: ServiceInstance) {
+  if (service.worker) {
+    service.worker.postMessage("stop");
+    service.worker.terminate();
+  }
+  service.status = "stopped";
 }
 
 export async function stopService(
@@ -213,10 +420,7 @@ export async function stopService(
     return;
   }
 
-  if (service.worker) {
-    service.worker.postMessage("stop");
-    service.worker.terminate();
-  }
+  stopWorker(service);
 
   await releasePort(serviceName, state.dbContext.dbInstance);
   state.services.delete(serviceName);
@@ -229,5 +433,10 @@ export async function stopAllServices(
   for (const serviceName of state.services.keys()) {
     await stopService(state, serviceName);
   }
+  for (const service of state.draining) {
+    state.draining.delete(service);
+    stopWorker(service);
+    await freePort(service.port, state.dbContext.dbInstance);
+  }
   console.log("✅ All services stopped");
 }
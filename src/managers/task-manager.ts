@@ -1,16 +1,180 @@
 import { Kysely } from "kysely";
-import { DatabaseContext } from "../../database/config.ts";
+import { DatabaseContext, loadConfig } from "../../database/config.ts";
+import { DEFAULT_DB_INIT_CONFIG } from "../../database/tables/index.ts";
 import {
+  claimQueueItem,
+  clearExpiredResults,
   emitTrace,
+  enqueueTask,
   getFunctionNameByQueueId,
-  getQueueAvailableRetries,
+  getQueueCountsByTask,
   getQueuedTasks,
+  Queue,
   QueueBase,
-  reduceQueueRetries,
+  QueueOutcome,
+  renewQueueLease,
+  requeueExpiredLeases,
+  scheduleQueueRetry,
   updateQueueStatus,
 } from "../../database/task_tables/queue.ts";
-import { execFunction } from "./function-manager.ts";
-import { safeSleep } from "../utils.ts";
+import { createQueueEventWaiter, publishQueueEvent } from "../../database/task_tables/events.ts";
+import { execFunction, readFunctionEvents } from "./function-manager.ts";
+import { advanceWorkflowRun } from "./workflow-manager.ts";
+import { enqueueWebhooks } from "./webhook-manager.ts";
+import { nextCronRun, parseCron } from "../cron.ts";
+import {
+  advanceCronSchedule,
+  getAllTasks,
+  getDueCronTasks,
+  getTaskById,
+} from "../../database/tables/tasks.ts";
+
+const SCHEDULER_INTERVAL = 1000; // how often cron tasks are checked, in milliseconds
+// the executor wakes up on enqueues in this process, and checks the queue at least this often
+// for items enqueued by other processes, delayed items and retries becoming due
+const QUEUE_POLL_INTERVAL = 1000;
+const MISFIRE_THRESHOLD = 60 * 1000; // runs due longer ago than this were missed during downtime
+const MAX_CATCH_UP_RUNS = 100; // the "all" catch-up policy enqueues at most this many missed runs
+const LEASE_DURATION = 30 * 1000; // running items are re-queued when their lease is not renewed
+const LEASE_RENEW_INTERVAL = 10 * 1000;
+const REAPER_INTERVAL = 5 * 1000; // how often expired leases are looked for
+const MAX_RETRY_DELAY = 60 * 60 * 1000; // cap of the retry delay when a task sets none
+
+// Enqueues the runs of cron tasks that are due and moves their schedule forward
+export async function scheduleCronTasks(
+  context: DatabaseContext,
+  dbInstance: Kysely<QueueBase>,
+  now: Date = new Date(),
+): Promise<number> {
+  let enqueued = 0;
+  for (const task of await getDueCronTasks(context, now)) {
+    try {
+      const schedule = parseCron(task.cron!);
+      const timezone = task.timezone || "UTC";
+
+      const missed: Date[] = [];
+      const onTime: Date[] = [];
+      for (
+        let run = new Date(task.next_run!);
+        run <= now;
+        run = nextCronRun(schedule, run, timezone)
+      ) {
+        if (now.getTime() - run.getTime() <= MISFIRE_THRESHOLD) {
+          onTime.push(run);
+        } else {
+          missed.push(run);
+          if (missed.length > MAX_CATCH_UP_RUNS) missed.shift();
+        }
+      }
+
+      const catchUp = task.catch_up === "all"
+        ? missed
+        : task.catch_up === "once"
+        ? missed.slice(-1)
+        : [];
+      const runs = [...catchUp, ...onTime];
+
+      // claim the runs first so two executors never enqueue the same run
+      const claimed = await advanceCronSchedule(context, task.id!, task.next_run!, {
+        last_run: runs.at(-1)?.toISOString(),
+        next_run: nextCronRun(schedule, now, timezone).toISOString(),
+      });
+      if (!claimed || runs.length === 0) continue;
+
+      const taskConfig = await getTaskById(context, task.id!);
+      if (!taskConfig?.enabled) continue;
+      for (const _run of runs) {
+        await enqueueTask(context, dbInstance, task.id!, task.default_params || "{}");
+        enqueued++;
+      }
+    } catch (error) {
+      console.error(`Failed to schedule task ${task.id}:`, error);
+    }
+  }
+  return enqueued;
+}
+
+// running queue items per task, per queue database
+const runningTasks = new WeakMap<Kysely<QueueBase>, Map<string, number>>();
+// abort controllers of the items this process runs, per queue database
+const runningItems = new WeakMap<Kysely<QueueBase>, Map<string, AbortController>>();
+
+function getRunningTasks(dbInstance: Kysely<QueueBase>): Map<string, number> {
+  let running = runningTasks.get(dbInstance);
+  if (!running) {
+    running = new Map();
+    runningTasks.set(dbInstance, running);
+  }
+  return running;
+}
+
+function getRunningItems(dbInstance: Kysely<QueueBase>): Map<string, AbortController> {
+  let items = runningItems.get(dbInstance);
+  if (!items) {
+    items = new Map();
+    runningItems.set(dbInstance, items);
+  }
+  return items;
+}
+
+// Stops a running item's worker if this process runs it, returns false otherwise.
+// Items run by other processes stop once their executor fails to renew the lease.
+export function abortQueueItem(dbInstance: Kysely<QueueBase>, queueId: string): boolean {
+  const controller = getRunningItems(dbInstance).get(queueId);
+  controller?.abort();
+  return !!controller;
+}
+
+export interface TaskQueueStats {
+  task_id: string;
+  name?: string;
+  concurrency_count: number | null; // null is unlimited
+  running: number;
+  queued: number;
+  completed: number;
+  dead: number;
+  cancelled: number;
+}
+
+// Executor-wide and per-task slot usage with queue item counts by status
+export async function getExecutorStats(
+  context: DatabaseContext,
+  dbInstance: Kysely<QueueBase>,
+): Promise<{ running: number; max_concurrency: number; tasks: TaskQueueStats[] }> {
+  const running = getRunningTasks(dbInstance);
+  const tasks = new Map<string, TaskQueueStats>();
+  for (const row of await getQueueCountsByTask(dbInstance)) {
+    const stats = tasks.get(row.task_id) ?? {
+      task_id: row.task_id,
+      concurrency_count: null,
+      running: running.get(row.task_id) ?? 0,
+      queued: 0,
+      completed: 0,
+      dead: 0,
+      cancelled: 0,
+    };
+    // "running" rows are tracked in memory, rows left running by a dead executor are not counted
+    if (row.status !== "running") stats[row.status] = row.count;
+    tasks.set(row.task_id, stats);
+  }
+  for (const task of await getAllTasks(context)) {
+    const stats = tasks.get(task.id!);
+    if (stats) {
+      stats.name = task.name;
+      stats.concurrency_count = task.concurrency_count ?? null;
+    }
+  }
+
+  return {
+    running: [...running.values()].reduce((total, count) => total + count, 0),
+    max_concurrency: getMaxConcurrency(context),
+    tasks: [...tasks.values()],
+  };
+}
+
+function getMaxConcurrency(context: DatabaseContext): number {
+  return context.config?.queue_max_concurrency ?? DEFAULT_DB_INIT_CONFIG.queue_max_concurrency!;
+}
 
 export async function queueExecutor(
   context: DatabaseContext,
@@ -18,70 +182,254 @@ export async function queueExecutor(
   ac: AbortController,
 ) {
   console.log("🔄 Starting queue executor...");
+  const running = getRunningTasks(dbInstance);
+  // identifies this executor's leases, other processes may share the queue database
+  const owner = crypto.randomUUID();
+  const ready = createQueueEventWaiter(dbInstance, "ready");
+  let lastScheduled = 0;
+  let lastReaped = 0;
   while (!ac.signal.aborted) {
-    // resolution of queue tasks: 5hz
-    await safeSleep(200, ac.signal);
-
-    // select tasks that are queued, adjust their status to running
-    const justQueuedTasks = await getQueuedTasks(dbInstance);
-    justQueuedTasks.forEach(async (task) => {
-      await updateQueueStatus(
-        dbInstance,
-        task.id,
-        "running",
-      );
-    });
+    // enqueue due cron runs before picking up queued tasks
+    if (Date.now() - lastScheduled >= SCHEDULER_INTERVAL) {
+      lastScheduled = Date.now();
+      await scheduleCronTasks(context, dbInstance).catch((error) => {
+        console.error("Cron scheduling failed:", error);
+      });
+    }
 
-    // process each task
-    Promise.allSettled(justQueuedTasks.map(async (queue) => {
-      while (true) {
-        const retries = await getQueueAvailableRetries(dbInstance, queue.id);
-        const fc = await getFunctionNameByQueueId(context, dbInstance, queue.id);
-        try {
-          await fcToTrace(
-            context,
-            dbInstance,
-            queue.id,
-            fc!,
-            queue.params,
+    if (Date.now() - lastReaped >= REAPER_INTERVAL) {
+      lastReaped = Date.now();
+      await requeueExpiredLeases(dbInstance, {
+        retryAt: (item) => new Date(Date.now() + retryDelay(item, item.retries + 1)),
+        result_expires_at: resultExpiry(context),
+      }).then(async ({ requeued, dead }) => {
+        if (requeued.length > 0) {
+          console.warn(`Re-queued ${requeued.length} items with expired leases`);
+        }
+        for (const item of dead) {
+          console.error(
+            `Task ${item.id} lost its lease with no retries left, moved to dead letter`,
           );
-          await updateQueueStatus(dbInstance, queue.id, "completed");
-        } catch (error) {
-          if (retries <= 0) {
-            console.error(`Task ${queue.id} failed with no retries left:`, error);
-            await updateQueueStatus(dbInstance, queue.id, "failed");
-            break;
-          } else {
-            console.warn(`Task ${queue.id} failed, retrying... (${retries} retries left)`);
-            await safeSleep(queue.retry_delay, ac.signal);
-
-            // reduce retries count
-            await reduceQueueRetries(dbInstance, queue.id);
-            continue;
-          }
+          await finishQueueItem(context, dbInstance, item);
         }
-        break;
-      }
-    })).then((ps) => {
-      ps.filter((p) => p.status === "rejected").forEach((p) => {
-        console.error("Task processing failed:", p.reason);
+      }).catch((error) => {
+        console.error("Lease reaping failed:", error);
+      });
+      await clearExpiredResults(dbInstance).catch((error) => {
+        console.error("Clearing expired results failed:", error);
       });
+    }
+
+    try {
+      // config updates invalidate the cached config, reload it for the global limit
+      context.config ??= await loadConfig(context.dbInstance);
+      await startQueuedTasks(context, dbInstance, running, owner);
+    } catch (error) {
+      console.error("Queue executor failed:", error);
+    }
+
+    await ready.wait(QUEUE_POLL_INTERVAL, ac.signal);
+  }
+  ready.close();
+}
+
+// Starts due items in queue order while executor and task slots are free, the rest stay queued.
+// Only as many items as there are free slots are read, tasks at their limit are left out.
+export async function startQueuedTasks(
+  context: DatabaseContext,
+  dbInstance: Kysely<QueueBase>,
+  running: Map<string, number>,
+  owner: string,
+) {
+  const maxConcurrency = getMaxConcurrency(context);
+  let total = [...running.values()].reduce((sum, count) => sum + count, 0);
+
+  const limits = new Map<string, number | null>();
+  const taskLimit = async (taskId: string) => {
+    if (!limits.has(taskId)) {
+      const task = await getTaskById(context, taskId).catch(() => null);
+      limits.set(taskId, task?.concurrency_count ?? null);
+    }
+    return limits.get(taskId);
+  };
+
+  while (total < maxConcurrency) {
+    const saturated: string[] = [];
+    for (const [taskId, active] of running) {
+      const limit = await taskLimit(taskId);
+      if (limit && active >= limit) saturated.push(taskId);
+    }
+    const slots = maxConcurrency - total;
+    const queued = await getQueuedTasks(dbInstance, new Date(), {
+      limit: slots,
+      exclude_task_ids: saturated,
     });
+
+    let started = 0;
+    for (const queue of queued) {
+      const limit = await taskLimit(queue.task_id);
+      const active = running.get(queue.task_id) ?? 0;
+      if (limit && active >= limit) continue;
+
+      // another executor may have claimed the item since it was read
+      const claimed = await claimQueueItem(dbInstance, queue.id, owner, LEASE_DURATION);
+      if (!claimed) continue;
+
+      running.set(queue.task_id, active + 1);
+      total++;
+      started++;
+      processQueueItem(context, dbInstance, claimed, owner)
+        .catch((error) => console.error("Task processing failed:", error))
+        .finally(() => {
+          const count = (running.get(queue.task_id) ?? 1) - 1;
+          if (count > 0) running.set(queue.task_id, count);
+          else running.delete(queue.task_id);
+          // a slot is free, queued items may start now
+          publishQueueEvent(dbInstance, "ready");
+        });
+    }
+    // read again when items were skipped because their task reached its limit in this batch
+    if (started === 0 || queued.length < slots) break;
+  }
+}
+
+// Delay before retry number `attempt`: fixed waits retry_delay every time, linear waits
+// retry_delay * attempt, exponential doubles it per attempt and picks a point in its upper half
+export function retryDelay(
+  queue: Pick<Queue, "retry_delay" | "retry_strategy" | "retry_max_delay">,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const maxDelay = queue.retry_max_delay ?? MAX_RETRY_DELAY;
+  switch (queue.retry_strategy) {
+    case "linear":
+      return Math.min(queue.retry_delay * attempt, maxDelay);
+    case "exponential": {
+      const delay = Math.min(queue.retry_delay * 2 ** (attempt - 1), maxDelay);
+      return Math.round(delay / 2 + random() * delay / 2);
+    }
+    default:
+      return Math.min(queue.retry_delay, maxDelay);
   }
 }
 
+// Runs a queue item once, a failure re-queues it for a later attempt or moves it to the
+// dead-letter queue when it has no retries left
+async function processQueueItem(
+  context: DatabaseContext,
+  dbInstance: Kysely<QueueBase>,
+  queue: Queue,
+  owner: string,
+) {
+  const controller = new AbortController();
+  getRunningItems(dbInstance).set(queue.id, controller);
+  // keep the lease while the item runs, a lost lease means it was cancelled or re-queued
+  const heartbeat = setInterval(() => {
+    renewQueueLease(dbInstance, queue.id, owner, LEASE_DURATION).then((renewed) => {
+      if (!renewed) {
+        console.warn(`Task ${queue.id} lost its lease, stopping it`);
+        controller.abort();
+      }
+    }).catch((error) => console.error(`Failed to renew the lease of task ${queue.id}:`, error));
+  }, LEASE_RENEW_INTERVAL);
+
+  try {
+    const fc = await getFunctionNameByQueueId(context, dbInstance, queue.id);
+    const result = await fcToTrace(
+      context,
+      dbInstance,
+      queue.id,
+      fc!,
+      queue.params,
+      controller.signal,
+    );
+    await updateQueueStatus(
+      dbInstance,
+      queue.id,
+      "completed",
+      owner,
+      resultOutcome(context, result),
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (controller.signal.aborted) {
+      console.warn(`Task ${queue.id} was stopped`);
+    } else if (queue.retries >= queue.max_retries) {
+      console.error(`Task ${queue.id} failed with no retries left, moved to dead letter:`, error);
+      await updateQueueStatus(dbInstance, queue.id, "dead", owner, {
+        error: message,
+        result_expires_at: resultExpiry(context),
+      });
+    } else {
+      const delay = retryDelay(queue, queue.retries + 1);
+      const left = queue.max_retries - queue.retries;
+      console.warn(`Task ${queue.id} failed, retrying in ${delay}ms (${left} retries left)`);
+      await scheduleQueueRetry(
+        dbInstance,
+        queue.id,
+        owner,
+        new Date(Date.now() + delay),
+        message,
+      );
+    }
+  } finally {
+    clearInterval(heartbeat);
+    getRunningItems(dbInstance).delete(queue.id);
+  }
+  await finishQueueItem(context, dbInstance, queue);
+}
+
+// Sends the webhooks of a completed or dead item and moves its workflow run on
+async function finishQueueItem(
+  context: DatabaseContext,
+  dbInstance: Kysely<QueueBase>,
+  queue: Queue,
+) {
+  // completed and dead items notify their callback_url and their task's webhook_url
+  await enqueueWebhooks(context, dbInstance, queue.id).catch((error) => {
+    console.error(`Failed to queue the webhooks of task ${queue.id}:`, error);
+  });
+  // the next steps of a workflow start once this one finished
+  if (queue.workflow_run_id) {
+    await advanceWorkflowRun(context, dbInstance, queue.workflow_run_id);
+  }
+}
+
+// The stored result of a completed item, results over queue_result_max_size are dropped
+function resultOutcome(context: DatabaseContext, result: unknown): QueueOutcome {
+  const maxSize = context.config?.queue_result_max_size ??
+    DEFAULT_DB_INIT_CONFIG.queue_result_max_size!;
+  const json = JSON.stringify(result ?? null);
+  const size = new TextEncoder().encode(json).length;
+  if (size > maxSize) {
+    return {
+      result: null,
+      error: `Result of ${size} bytes exceeds queue_result_max_size of ${maxSize}`,
+      result_expires_at: resultExpiry(context),
+    };
+  }
+  return { result: json, error: null, result_expires_at: resultExpiry(context) };
+}
+
+function resultExpiry(context: DatabaseContext): string | null {
+  const ttl = context.config?.queue_result_ttl ?? DEFAULT_DB_INIT_CONFIG.queue_result_ttl!;
+  return ttl > 0 ? new Date(Date.now() + ttl).toISOString() : null;
+}
+
+// Runs the item's function, writing its output as traces, and returns the value it returned
 async function fcToTrace(
   context: DatabaseContext,
   dbInstance: Kysely<QueueBase>,
   queueId: string,
   function_name: string,
   params: string,
-) {
+  signal?: AbortSignal,
+): Promise<unknown> {
   // normal: "data: {whateverjson}\n\n"
   // end either "data: [DONE]\n\n" or "data: [DONE]{whateverjson}\n\n"
   await emitTrace(dbInstance, queueId, "start", params);
 
-  const resp = await execFunction(context, function_name, JSON.parse(params));
+  const resp = await execFunction(context, function_name, JSON.parse(params), undefined, signal);
   if (!resp.ok) {
     await emitTrace(
       dbInstance,
@@ -94,34 +442,27 @@ async function fcToTrace(
     throw new Error(`Failed to fetch: ${resp.status} ${resp.statusText}`);
   }
   if (resp.headers.get("Content-Type") === "application/json") {
-    await emitTrace(dbInstance, queueId, "end", await resp.json());
-    return; // if not sse, just return
+    const result = await resp.json();
+    await emitTrace(dbInstance, queueId, "end", result);
+    return result; // if not sse, just return
   } else if (resp.headers.get("Content-Type") === "text/event-stream") {
-    const sse = resp.body;
-    if (!sse) {
-      throw new Error("Response body is not readable");
-    }
-    let buffer = "";
-    const reader = sse.getReader();
-    while (true) {
-      const { done, value } = await reader.read();
-      buffer += value;
-      const lines = buffer.split("\n");
-      buffer = lines.pop() || "";
-      for (const line of lines) {
-        if (line.startsWith("data: ")) {
-          const data = line.slice(6).trim();
-          if (data === "[DONE]") {
-            await emitTrace(dbInstance, queueId, "end");
-          } else if (data.startsWith("[DONE]")) {
-            await emitTrace(dbInstance, queueId, "end", JSON.parse(data.slice(6)));
-          } else {
-            await emitTrace(dbInstance, queueId, "stream", JSON.parse(data));
-          }
-        }
+    let result: unknown = null;
+    for await (const { event, data } of readFunctionEvents(resp)) {
+      if (event === "error") {
+        // e.g. the function timed out mid-stream, counts as a retryable failure
+        await emitTrace(dbInstance, queueId, "failed", data);
+        throw new Error(`Function stream failed: ${data}`);
+      } else if (data === "[DONE]") {
+        await emitTrace(dbInstance, queueId, "end");
+      } else if (data.startsWith("[DONE]")) {
+        const output = JSON.parse(data.slice(6));
+        await emitTrace(dbInstance, queueId, "end", output);
+        result = output;
+      } else {
+        await emitTrace(dbInstance, queueId, "stream", JSON.parse(data));
       }
-      if (done) break;
     }
+    return result;
   } else {
     throw new Error("Unsupported content type: " + resp.headers.get("Content-Type"));
   }
@@ -0,0 +1,202 @@
+import { Kysely } from "kysely";
+import { DatabaseContext, loadConfig } from "../../database/config.ts";
+import { isPrivateAddress } from "../utils.ts";
+import { DEFAULT_DB_INIT_CONFIG } from "../../database/tables/index.ts";
+import { getTaskById } from "../../database/tables/tasks.ts";
+import { getQueueItem, QueueBase } from "../../database/task_tables/queue.ts";
+import {
+  claimWebhookDelivery,
+  createWebhookDeliveries,
+  getDueWebhookDeliveries,
+  recordWebhookAttempt,
+  WebhookDelivery,
+} from "../../database/task_tables/webhooks.ts";
+import { createQueueEventWaiter } from "../../database/task_tables/events.ts";
+
+// deliveries written by other processes and retries becoming due are checked this often
+const WEBHOOK_POLL_INTERVAL = 1000;
+const WEBHOOK_TIMEOUT = 10 * 1000; // an attempt fails when the receiver takes longer
+const WEBHOOK_BATCH_SIZE = 10; // deliveries sent at once
+const WEBHOOK_RETRY_DELAY = 1000; // doubles per attempt
+const MAX_WEBHOOK_RETRY_DELAY = 60 * 60 * 1000;
+
+export const SIGNATURE_HEADER = "X-NanoEdgeRT-Signature";
+export const TIMESTAMP_HEADER = "X-NanoEdgeRT-Timestamp";
+export const DELIVERY_HEADER = "X-NanoEdgeRT-Delivery";
+
+export interface WebhookPayload {
+  queue_id: string;
+  task_id: string;
+  status: "completed" | "dead";
+  result: unknown;
+  error: string | null;
+  finished_at: string;
+}
+
+// Queues deliveries of a finished item's outcome to its callback_url and its task's
+// webhook_url, returns their IDs. Items that did not complete or die are skipped.
+export async function enqueueWebhooks(
+  context: DatabaseContext,
+  dbInstance: Kysely<QueueBase>,
+  queueId: string,
+): Promise<string[]> {
+  const item = await getQueueItem(dbInstance, queueId);
+  if (item?.status !== "completed" && item?.status !== "dead") return [];
+  const task = await getTaskById(context, item.task_id).catch(() => null);
+  const urls = [...new Set([item.callback_url, task?.webhook_url].filter((url) => !!url))];
+  if (urls.length === 0) return [];
+
+  const payload: WebhookPayload = {
+    queue_id: item.id,
+    task_id: item.task_id,
+    status: item.status,
+    result: item.result != null ? JSON.parse(item.result) : null,
+    error: item.error ?? null,
+    finished_at: item.updated_at,
+  };
+  return await createWebhookDeliveries(
+    dbInstance,
+    item.id,
+    urls as string[],
+    JSON.stringify(payload),
+    context.config?.webhook_max_attempts ?? DEFAULT_DB_INIT_CONFIG.webhook_max_attempts!,
+  );
+}
+
+// Hex HMAC-SHA256 of `${timestamp}.${body}`, sent as "sha256=<hex>" in the signature header.
+// Receivers recompute it with the shared webhook_secret and reject stale timestamps.
+export async function signWebhook(
+  secret: string,
+  timestamp: string,
+  body: string,
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`${timestamp}.${body}`),
+  );
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Delay before attempt number `attempt + 1`, doubling from WEBHOOK_RETRY_DELAY
+export function webhookRetryDelay(attempt: number): number {
+  return Math.min(WEBHOOK_RETRY_DELAY * 2 ** (attempt - 1), MAX_WEBHOOK_RETRY_DELAY);
+}
+
+// Refuses webhook URLs whose host is or resolves to a private address, unless the host is
+// listed in webhook_allowed_hosts. Returns why the URL is refused.
+export async function checkWebhookTarget(
+  context: DatabaseContext,
+  url: string,
+): Promise<string | null> {
+  context.config ??= await loadConfig(context.dbInstance);
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  const allowed = (context.config.webhook_allowed_hosts ?? "").split(",")
+    .map((entry) => entry.trim().toLowerCase());
+  if (allowed.includes(host)) return null;
+
+  let addresses = [host];
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    addresses = ["127.0.0.1"];
+  } else if (!/^[\d.]+$/.test(host) && !host.includes(":")) {
+    const [v4, v6] = await Promise.all([
+      Deno.resolveDns(host, "A").catch(() => []),
+      Deno.resolveDns(host, "AAAA").catch(() => []),
+    ]);
+    addresses = [...v4, ...v6];
+  }
+  if (addresses.length === 0) return `${host} does not resolve`;
+  const privateAddress = addresses.find(isPrivateAddress);
+  if (!privateAddress) return null;
+  return privateAddress === host
+    ? `${host} is a private address`
+    : `${host} resolves to the private address ${privateAddress}`;
+}
+
+// Sends one attempt of a delivery and records its outcome
+export async function sendWebhook(
+  context: DatabaseContext,
+  dbInstance: Kysely<QueueBase>,
+  delivery: WebhookDelivery,
+): Promise<WebhookDelivery["status"]> {
+  // seeded with the database, there is no shared default
+  context.config ??= await loadConfig(context.dbInstance);
+  const secret = context.config.webhook_secret!;
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  let outcome: { ok: boolean; response_status?: number; error?: string };
+  try {
+    // checked again on every attempt, the host may resolve elsewhere by now
+    const refused = await checkWebhookTarget(context, delivery.url);
+    if (refused) throw new Error(`Refused, ${refused}`);
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      // a redirect could lead to a private address, it counts as a failed attempt
+      redirect: "manual",
+      headers: {
+        "Content-Type": "application/json",
+        [DELIVERY_HEADER]: delivery.id,
+        [TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: `sha256=${await signWebhook(secret, timestamp, delivery.payload)}`,
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+    });
+    await response.body?.cancel();
+    outcome = response.ok ? { ok: true, response_status: response.status } : {
+      ok: false,
+      response_status: response.status,
+      error: `Receiver answered ${response.status}`,
+    };
+  } catch (error) {
+    outcome = { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const nextAttemptAt = new Date(Date.now() + webhookRetryDelay(delivery.attempts + 1));
+  const status = await recordWebhookAttempt(dbInstance, delivery, outcome, nextAttemptAt);
+  if (status === "failed") {
+    console.error(`Webhook delivery ${delivery.id} to ${delivery.url} failed: ${outcome.error}`);
+  } else if (status === "pending") {
+    console.warn(`Webhook delivery ${delivery.id} to ${delivery.url} failed, retrying`);
+  }
+  return status;
+}
+
+// Sends the due deliveries this process claims, returns how many were sent
+export async function sendDueWebhooks(
+  context: DatabaseContext,
+  dbInstance: Kysely<QueueBase>,
+): Promise<number> {
+  const claimed: WebhookDelivery[] = [];
+  for (const delivery of await getDueWebhookDeliveries(dbInstance, WEBHOOK_BATCH_SIZE)) {
+    // a delivery held past the timeout was lost by its dispatcher and becomes due again
+    const holdUntil = new Date(Date.now() + WEBHOOK_TIMEOUT * 2);
+    if (await claimWebhookDelivery(dbInstance, delivery, holdUntil)) claimed.push(delivery);
+  }
+  await Promise.all(claimed.map((delivery) => sendWebhook(context, dbInstance, delivery)));
+  return claimed.length;
+}
+
+export async function webhookDispatcher(
+  context: DatabaseContext,
+  dbInstance: Kysely<QueueBase>,
+  ac: AbortController,
+) {
+  const due = createQueueEventWaiter(dbInstance, "webhook");
+  while (!ac.signal.aborted) {
+    try {
+      // a full batch may leave more deliveries due
+      if (await sendDueWebhooks(context, dbInstance) === WEBHOOK_BATCH_SIZE) continue;
+    } catch (error) {
+      console.error("Webhook dispatcher failed:", error);
+    }
+    await due.wait(WEBHOOK_POLL_INTERVAL, ac.signal);
+  }
+  due.close();
+}
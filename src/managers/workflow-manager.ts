@@ -0,0 +1,210 @@
+import { Kysely } from "kysely";
+import { DatabaseContext } from "../../database/config.ts";
+import { getTaskById, TaskConfig } from "../../database/tables/tasks.ts";
+import { getWorkflowById, WorkflowStep } from "../../database/tables/workflows.ts";
+import { insertQueueItem, Queue, QueueBase } from "../../database/task_tables/queue.ts";
+import { finishWorkflowRun, getWorkflowRun } from "../../database/task_tables/workflow_runs.ts";
+import { publishQueueEvent } from "../../database/task_tables/events.ts";
+
+// Starts a run of the workflow with JSON params and returns its ID
+export async function startWorkflowRun(
+  context: DatabaseContext,
+  dbInstance: Kysely<QueueBase>,
+  workflowId: string,
+  params: string,
+): Promise<string> {
+  const workflow = await getWorkflowById(context, workflowId);
+  if (!workflow) {
+    throw new Error(`Workflow with ID ${workflowId} not found`);
+  }
+  const now = new Date().toISOString();
+  const runId = crypto.randomUUID();
+  await dbInstance
+    .insertInto("workflow_run")
+    .values({
+      id: runId,
+      workflow_id: workflowId,
+      status: "running",
+      params,
+      steps: JSON.stringify(workflow.steps),
+      outputs: "{}",
+      created_at: now,
+      updated_at: now,
+    })
+    .execute();
+  await advanceWorkflowRun(context, dbInstance, runId);
+  return runId;
+}
+
+// Records the outputs of completed steps, enqueues the steps whose dependencies completed and
+// finishes the run. Runs whenever one of the run's queue items finishes.
+export async function advanceWorkflowRun(
+  context: DatabaseContext,
+  dbInstance: Kysely<QueueBase>,
+  runId: string,
+): Promise<void> {
+  const run = await getWorkflowRun(dbInstance, runId);
+  if (run?.status !== "running") return;
+  const steps = JSON.parse(run.steps) as WorkflowStep[];
+  // the transaction below holds the queue database, so tasks are looked up first
+  const tasks = new Map<string, TaskConfig | null>();
+  for (const step of steps) {
+    if (!tasks.has(step.task_id)) {
+      tasks.set(step.task_id, await getTaskById(context, step.task_id).catch(() => null));
+    }
+  }
+
+  let started = false;
+  let failure: string | undefined;
+  const trx = await dbInstance.startTransaction().execute();
+  try {
+    // items finishing together advance the run one after another
+    const current = await trx
+      .selectFrom("workflow_run")
+      .selectAll()
+      .where("id", "=", runId)
+      .executeTakeFirst();
+    if (current?.status !== "running") {
+      await trx.commit().execute();
+      return;
+    }
+    const outputs = JSON.parse(current.outputs) as Record<string, unknown>;
+    const items: Pick<Queue, "id" | "workflow_step" | "workflow_index" | "status">[] = await trx
+      .selectFrom("queue")
+      .select(["id", "workflow_step", "workflow_index", "status"])
+      .where("workflow_run_id", "=", runId)
+      .orderBy("workflow_index")
+      .execute();
+    const results = await getItemOutputs(trx, runId);
+
+    // an empty fan-out completes its step at once, which may unblock further steps
+    let progressed = true;
+    while (progressed && !failure) {
+      progressed = false;
+      for (const step of steps) {
+        if (step.id in outputs) continue;
+
+        const stepItems = items.filter((item) => item.workflow_step === step.id);
+        if (stepItems.length > 0) {
+          const ended = stepItems.find((item) =>
+            item.status === "dead" || item.status === "cancelled"
+          );
+          if (ended) {
+            failure = `Step ${step.id} ${ended.status === "dead" ? "failed" : "was cancelled"}`;
+            break;
+          }
+          if (stepItems.every((item) => item.status === "completed")) {
+            const values = stepItems.map((item) => results.get(item.id) ?? null);
+            outputs[step.id] = step.for_each ? values : values[0];
+            progressed = true;
+          }
+          continue;
+        }
+
+        const dependencies = step.depends_on ?? [];
+        if (!dependencies.every((id) => id in outputs)) continue;
+        const task = tasks.get(step.task_id);
+        if (!task) {
+          failure = `Task ${step.task_id} of step ${step.id} not found`;
+          break;
+        }
+        const input = dependencies.length === 0
+          ? JSON.parse(current.params)
+          : dependencies.length === 1
+          ? outputs[dependencies[0]]
+          : Object.fromEntries(dependencies.map((id) => [id, outputs[id]]));
+        if (step.for_each && !Array.isArray(input)) {
+          failure = `Step ${step.id} fans out over an array, got ${JSON.stringify(input)}`;
+          break;
+        }
+
+        const elements: unknown[] = step.for_each ? input : [input];
+        if (elements.length === 0) {
+          outputs[step.id] = [];
+          progressed = true;
+          continue;
+        }
+        for (const [index, element] of elements.entries()) {
+          const id = await insertQueueItem(trx, task, JSON.stringify(element ?? null), {}, {
+            workflow_run_id: runId,
+            workflow_step: step.id,
+            workflow_index: step.for_each ? index : null,
+          });
+          items.push({
+            id,
+            workflow_step: step.id,
+            workflow_index: step.for_each ? index : null,
+            status: "queued",
+          });
+        }
+        started = true;
+      }
+    }
+
+    const completed = !failure && steps.every((step) => step.id in outputs);
+    await trx
+      .updateTable("workflow_run")
+      .set({
+        outputs: JSON.stringify(outputs),
+        status: completed ? "completed" : "running",
+        output: completed ? JSON.stringify(runOutput(steps, outputs)) : null,
+        updated_at: new Date().toISOString(),
+      })
+      .where("id", "=", runId)
+      .execute();
+    await trx.commit().execute();
+  } catch (error) {
+    await trx.rollback().execute();
+    throw error;
+  }
+
+  if (failure) {
+    console.warn(`Workflow run ${runId} failed: ${failure}`);
+    await finishWorkflowRun(dbInstance, runId, "failed", failure);
+  } else if (started) {
+    publishQueueEvent(dbInstance, "ready");
+  }
+}
+
+// The outputs of the final steps, those no other step depends on. A single final step's
+// output is the run's output, several are keyed by step ID.
+function runOutput(steps: WorkflowStep[], outputs: Record<string, unknown>): unknown {
+  const finalSteps = steps.filter((step) =>
+    !steps.some((other) => other.depends_on?.includes(step.id))
+  );
+  return finalSteps.length === 1
+    ? outputs[finalSteps[0].id]
+    : Object.fromEntries(finalSteps.map((step) => [step.id, outputs[step.id]]));
+}
+
+// The values completed items of the run returned, from their "end" traces
+async function getItemOutputs(
+  dbInstance: Kysely<QueueBase>,
+  runId: string,
+): Promise<Map<string, unknown>> {
+  const traces = await dbInstance
+    .selectFrom("trace")
+    .innerJoin("queue", "queue.id", "trace.queue_id")
+    .select(["trace.queue_id", "trace.data"])
+    .where("queue.workflow_run_id", "=", runId)
+    .where("queue.status", "=", "completed")
+    .where("trace.status", "=", "end")
+    .orderBy("trace.id")
+    .execute();
+
+  const outputs = new Map<string, unknown>();
+  for (const trace of traces) {
+    outputs.set(trace.queue_id, parseTraceData(trace.data));
+  }
+  return outputs;
+}
+
+// Trace data is JSON, except for functions that returned a plain string
+function parseTraceData(data: string | undefined): unknown {
+  if (data === undefined) return null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
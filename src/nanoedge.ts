@@ -19,8 +19,13 @@ import { setupFunctionAPIRoutes } from "./api/api.function.ts";
 import { createOrLoadQueuebase, QueueBase } from "../database/task_tables/queue.ts";
 import { Kysely } from "kysely";
 import { queueExecutor } from "./managers/task-manager.ts";
+import { drainFunctionPools } from "./managers/function-manager.ts";
+import { webhookDispatcher } from "./managers/webhook-manager.ts";
 import { setupQueueAPIRoutes } from "./api/api.queue.ts";
+import { setupWebSocketRoutes } from "./api/api.ws.ts";
 
+// `db` and `queuedb` are storage descriptors, a SQLite path ("sqlite:./nanoedge.db" or
+// ":memory:") or a "postgres://" URL that several nodes can share
 export async function createNanoEdgeRT(
   db: string | DatabaseContext = ":memory:",
   queuedb: string | Kysely<QueueBase> = ":memory:",
@@ -33,6 +38,8 @@ export async function createNanoEdgeRT(
     : db;
   const queueBase = typeof queuedb === "string" ? await createOrLoadQueuebase(queuedb) : queuedb;
   queueExecutor(dbContext, queueBase, ac);
+  webhookDispatcher(dbContext, queueBase, ac);
+  ac.signal.addEventListener("abort", () => drainFunctionPools(dbContext));
   const serviceManagerState = createServiceManagerState(dbContext);
   const startTime = new Date().toISOString();
   const app = new Hono();
@@ -66,10 +73,11 @@ export async function createNanoEdgeRT(
   app.route("/api/v2", setupApiRoutes(serviceManagerState));
   app.route("/functions/v2", setupFunctionAPIRoutes(dbContext));
   app.route("/queue/v2", setupQueueAPIRoutes(dbContext, queueBase));
-  app.route("/admin-api/v2", setupAdminAPIRoutes(dbContext));
+  app.route("/admin-api/v2", setupAdminAPIRoutes(dbContext, queueBase, serviceManagerState));
+  app.route("/ws", setupWebSocketRoutes(dbContext, queueBase));
 
   // 隐藏API
-  app.route("/jwt", setupJWTRoutes());
+  app.route("/jwt", setupJWTRoutes(dbContext));
 
   return [app, dbContext.config?.main_port || 8000, ac, serviceManagerState];
 }
@@ -10,3 +10,105 @@ export function safeSleep(ms: number, signal?: AbortSignal): Promise<void> {
     }, ms);
   });
 }
+
+export interface DiffLine {
+  op: "=" | "+" | "-";
+  line: string;
+}
+
+// Line based diff using the longest common subsequence
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before === "" ? [] : before.split("\n");
+  const b = after === "" ? [] : after.split("\n");
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ op: "=", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ op: "-", line: a[i++] });
+    } else {
+      diff.push({ op: "+", line: b[j++] });
+    }
+  }
+  while (i < a.length) diff.push({ op: "-", line: a[i++] });
+  while (j < b.length) diff.push({ op: "+", line: b[j++] });
+  return diff;
+}
+
+// Revision numbers are positive integers, anything else is rejected
+export function parseRevision(value: string | undefined): number | null {
+  const revision = Number(value);
+  return Number.isInteger(revision) && revision > 0 ? revision : null;
+}
+
+// Parses an IPv4 or IPv6 address into its bits, IPv4-mapped IPv6 addresses become IPv4
+function parseIP(ip: string): { value: bigint; bits: number } | null {
+  const address = ip.trim().replace(/^\[|\]$/g, "").split("%")[0];
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped || /^\d+\.\d+\.\d+\.\d+$/.test(address)) {
+    const octets = (mapped ? mapped[1] : address).split(".").map(Number);
+    if (octets.some((o) => !Number.isInteger(o) || o > 255)) return null;
+    return { value: octets.reduce((acc, o) => (acc << 8n) | BigInt(o), 0n), bits: 32 };
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2 || !/^[0-9a-f:]+$/i.test(address)) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (groups.some((g) => g.length === 0 || g.length > 4)) return null;
+  const value = groups.reduce((acc, g) => (acc << 16n) | BigInt(`0x${g}`), 0n);
+  // mapped addresses written in hex, as URLs normalize them
+  if (value >> 32n === 0xffffn) return { value: value & 0xffffffffn, bits: 32 };
+  return { value, bits: 128 };
+}
+
+// Loopback, private, shared, link-local, multicast and reserved ranges
+const PRIVATE_RANGES = [
+  "0.0.0.0/8",
+  "10.0.0.0/8",
+  "100.64.0.0/10",
+  "127.0.0.0/8",
+  "169.254.0.0/16",
+  "172.16.0.0/12",
+  "192.0.0.0/24",
+  "192.168.0.0/16",
+  "198.18.0.0/15",
+  "224.0.0.0/3",
+  "::/128",
+  "::1/128",
+  "fc00::/7",
+  "fe80::/10",
+  "ff00::/8",
+];
+
+// Whether an address is not reachable on the public internet, unparsable ones count as private
+export function isPrivateAddress(ip: string): boolean {
+  return !parseIP(ip) || PRIVATE_RANGES.some((cidr) => ipInCIDR(ip, cidr));
+}
+
+// Checks whether an IP address falls inside a CIDR range, a bare address matches only itself
+export function ipInCIDR(ip: string, cidr: string): boolean {
+  const [range, prefix] = cidr.trim().split("/");
+  const address = parseIP(ip);
+  const network = parseIP(range);
+  if (!address || !network || address.bits !== network.bits) return false;
+
+  const length = prefix === undefined ? network.bits : Number(prefix);
+  if (!Number.isInteger(length) || length < 0 || length > network.bits) return false;
+  const shift = BigInt(network.bits - length);
+  return (address.value >> shift) === (network.value >> shift);
+}
@@ -43,8 +43,9 @@ Deno.test("Integration: Admin API CRUD operations", async () => {
 
   try {
     // Create a mock token (note: this won't work with real JWT validation)
-    const mockToken = await createJWT({
+    const mockToken = await createJWT(dbContext, {
       sub: "user123",
+      scope: "full",
       role: "admin",
       exp: Math.floor(Date.now() / 1000) + 60 * 5, // Token expires in 5 minutes
     });
@@ -148,6 +149,392 @@ Deno.test("Integration: Admin API service management", async () => {
   }
 });
 
+Deno.test("Integration: Admin API service revisions - list, deploy and rollback", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  try {
+    const token = await createJWT(dbContext, {
+      sub: "admin",
+      scope: "full",
+      exp: Math.floor(Date.now() / 1000) + 60 * 5,
+    });
+    const request = (path: string, method = "GET", body?: unknown) =>
+      app.fetch(
+        new Request(`http://localhost:8000/admin-api/v2/services${path}`, {
+          method,
+          headers: {
+            "Authorization": `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+          body: body ? JSON.stringify(body) : undefined,
+        }),
+      );
+
+    const createResponse = await request("", "POST", {
+      name: "revisioned",
+      code: "Deno.serve(() => new Response('v1'))",
+    });
+    assertEquals(createResponse.status, 201);
+    await createResponse.text();
+
+    const updateResponse = await request("/revisioned", "PUT", {
+      code: "Deno.serve(() => new Response('v2'))",
+    });
+    assertEquals((await updateResponse.json()).revision, 2);
+
+    const listResponse = await request("/revisioned/revisions");
+    const list = await listResponse.json();
+    assertEquals(list.current_revision, 2);
+    assertEquals(list.deployed_revision, null);
+    assertEquals(list.revisions.map((r: { revision: number }) => r.revision), [2, 1]);
+
+    const revisionResponse = await request("/revisioned/revisions/1");
+    assertEquals((await revisionResponse.json()).code, "Deno.serve(() => new Response('v1'))");
+
+    const deployResponse = await request("/revisioned/revisions/1/deploy", "POST");
+    assertEquals((await deployResponse.json()).deployed_revision, 1);
+
+    const latestResponse = await request("/revisioned/deploy", "POST");
+    assertEquals((await latestResponse.json()).deployed_revision, 2);
+
+    const rollbackResponse = await request("/revisioned/revisions/1/rollback", "POST");
+    const rollback = await rollbackResponse.json();
+    assertEquals(rollback.rolled_back_to, 1);
+    assertEquals(rollback.current_revision, 3);
+
+    const missingResponse = await request("/revisioned/revisions/9/deploy", "POST");
+    assertEquals(missingResponse.status, 404);
+    await missingResponse.text();
+
+    const invalidResponse = await request("/revisioned/revisions/abc", "GET");
+    assertEquals(invalidResponse.status, 400);
+    await invalidResponse.text();
+  } finally {
+    abortController.abort();
+  }
+});
+
+Deno.test("Integration: Scoped tokens - per-route authorization", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  try {
+    const request = (path: string, token: string, method = "GET", body?: unknown) =>
+      app.fetch(
+        new Request(`http://localhost:8000${path}`, {
+          method,
+          headers: {
+            "Authorization": `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+          body: body ? JSON.stringify(body) : undefined,
+        }),
+      );
+
+    // /jwt/create checks the socket peer that Deno.serve passes along
+    const localPeer: Deno.ServeHandlerInfo = {
+      remoteAddr: { transport: "tcp", hostname: "127.0.0.1", port: 51234 },
+      completed: Promise.resolve(),
+    };
+
+    // mint a deploy-only token the way CI would
+    const createResponse = await app.fetch(
+      new Request("http://localhost:8000/jwt/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scope: "functions:read functions:write", ttl: 600 }),
+      }),
+      localPeer,
+    );
+    assertEquals(createResponse.status, 200);
+    const created = await createResponse.json();
+    assertEquals(created.payload.scope, "functions:read functions:write");
+    assertEquals(created.expires_in, 600);
+    const ciToken = created.token;
+
+    const functionResponse = await request("/admin-api/v2/functions", ciToken, "POST", {
+      name: "ci-function",
+      code: "export default function () { return 1; }",
+    });
+    assertEquals(functionResponse.status, 201);
+    await functionResponse.text();
+
+    const forbidden = [
+      await request("/admin-api/v2/services/hello", ciToken, "DELETE"),
+      await request("/admin-api/v2/services/config", ciToken),
+      await request("/admin-api/v2/tasks", ciToken),
+      await request("/queue/v2/enqueue", ciToken, "POST", { taskId: "x", params: {} }),
+    ];
+    for (const response of forbidden) {
+      assertEquals(response.status, 403);
+      await response.text();
+    }
+
+    // config routes are guarded by config scopes, not service scopes
+    const configToken = await createJWT(dbContext, {
+      sub: "ops",
+      scope: "config:read",
+      exp: Math.floor(Date.now() / 1000) + 60,
+    });
+    const configResponse = await request("/admin-api/v2/services/config", configToken);
+    assertEquals(configResponse.status, 200);
+    await configResponse.text();
+    const servicesResponse = await request("/admin-api/v2/services", configToken);
+    assertEquals(servicesResponse.status, 403);
+    await servicesResponse.text();
+
+    // the queue now requires a token
+    const anonymousResponse = await app.fetch(
+      new Request("http://localhost:8000/queue/v2/enqueue", {
+        method: "POST",
+        body: JSON.stringify({ taskId: "x", params: {} }),
+      }),
+    );
+    assertEquals(anonymousResponse.status, 401);
+    await anonymousResponse.text();
+
+    const invalidScopeResponse = await app.fetch(
+      new Request("http://localhost:8000/jwt/create?scope=services:delete"),
+      localPeer,
+    );
+    assertEquals(invalidScopeResponse.status, 400);
+    await invalidScopeResponse.text();
+  } finally {
+    abortController.abort();
+  }
+});
+
+Deno.test("Integration: API keys - create, authenticate and revoke", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  try {
+    const adminToken = await createJWT(dbContext, {
+      sub: "admin",
+      scope: "full",
+      exp: Math.floor(Date.now() / 1000) + 60,
+    });
+    const admin = (path: string, method = "GET", body?: unknown, token = adminToken) =>
+      app.fetch(
+        new Request(`http://localhost:8000/admin-api/v2${path}`, {
+          method,
+          headers: {
+            "Authorization": `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+          body: body ? JSON.stringify(body) : undefined,
+        }),
+      );
+    const invoke = (key?: string) =>
+      app.fetch(
+        new Request("http://localhost:8000/functions/v2/keyed-function", {
+          method: "POST",
+          headers: key ? { "X-API-Key": key } : {},
+          body: JSON.stringify({}),
+        }),
+      );
+
+    const functionResponse = await admin("/functions", "POST", {
+      name: "keyed-function",
+      code: "export default function () { return { ok: true }; }",
+    });
+    assertEquals(functionResponse.status, 201);
+    await functionResponse.text();
+
+    const invalidResponse = await admin("/api-keys", "POST", { name: "ci", scope: "nope" });
+    assertEquals(invalidResponse.status, 400);
+    await invalidResponse.text();
+
+    // a key cannot grant more than the token creating it
+    const keysToken = await createJWT(dbContext, {
+      sub: "ci",
+      scope: "api_keys:write services:invoke",
+      exp: Math.floor(Date.now() / 1000) + 60,
+    });
+    for (const scope of ["full", "services:*", "services:invoke functions:invoke"]) {
+      const escalateResponse = await admin("/api-keys", "POST", { name: "ci", scope }, keysToken);
+      assertEquals(escalateResponse.status, 403);
+      await escalateResponse.text();
+    }
+
+    const createResponse = await admin("/api-keys", "POST", {
+      name: "ci",
+      scope: "services:invoke",
+    }, keysToken);
+    assertEquals(createResponse.status, 201);
+    const created = await createResponse.json();
+    assertEquals(created.key.startsWith(created.prefix), true);
+
+    const duplicateResponse = await admin("/api-keys", "POST", {
+      name: "ci",
+      scope: "services:invoke",
+    });
+    assertEquals(duplicateResponse.status, 409);
+    await duplicateResponse.text();
+
+    // the key is accepted, a wrong key is rejected
+    const keyedResponse = await invoke(created.key);
+    assertEquals(keyedResponse.status, 200);
+    assertEquals((await keyedResponse.json()).ok, true);
+    const wrongResponse = await invoke("nek_wrong");
+    assertEquals(wrongResponse.status, 401);
+    await wrongResponse.text();
+
+    // listing never returns the key or its hash, but records its use
+    const listResponse = await admin("/api-keys");
+    const { keys } = await listResponse.json();
+    assertEquals(keys.length, 1);
+    assertEquals(keys[0].key, undefined);
+    assertEquals(keys[0].key_hash, undefined);
+    assertExists(keys[0].last_used_at);
+
+    const revokeResponse = await admin("/api-keys/ci", "DELETE");
+    assertEquals(revokeResponse.status, 200);
+    await revokeResponse.text();
+    const revokedResponse = await invoke(created.key);
+    assertEquals(revokedResponse.status, 401);
+    await revokedResponse.text();
+
+    const missingResponse = await admin("/api-keys/ci");
+    assertEquals(missingResponse.status, 404);
+    await missingResponse.text();
+  } finally {
+    abortController.abort();
+  }
+});
+
+Deno.test("Integration: Backup - export and dry-run import", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  try {
+    const tokenFor = (scope: string) =>
+      createJWT(dbContext, { sub: "admin", scope, exp: Math.floor(Date.now() / 1000) + 60 });
+    // archives hold secrets, scopes short of full are not enough
+    const scopedToken = await tokenFor("config:* jwt:* api_keys:*");
+    const fullToken = await tokenFor("full");
+    const backup = (token: string, path = "", body?: Uint8Array<ArrayBuffer>) =>
+      app.fetch(
+        new Request(`http://localhost:8000/admin-api/v2/backup${path}`, {
+          method: body ? "POST" : "GET",
+          headers: { "Authorization": `Bearer ${token}` },
+          body,
+        }),
+      );
+
+    const scopedResponse = await backup(scopedToken);
+    assertEquals(scopedResponse.status, 403);
+    await scopedResponse.text();
+
+    const exportResponse = await backup(fullToken);
+    assertEquals(exportResponse.status, 200);
+    assertEquals(exportResponse.headers.get("Content-Type"), "application/zip");
+    const archive = new Uint8Array(await exportResponse.arrayBuffer());
+    const zip = await JSZip.loadAsync(archive);
+    const services = JSON.parse(await zip.file("tables/services.json")!.async("string"));
+    assertEquals(services.map((service: { name: string }) => service.name), ["hello"]);
+
+    const forbiddenResponse = await backup(scopedToken, "/import?dry_run=true", archive);
+    assertEquals(forbiddenResponse.status, 403);
+    await forbiddenResponse.text();
+
+    // importing an instance's own backup conflicts on every row
+    const importResponse = await backup(fullToken, "/import?dry_run=true", archive);
+    assertEquals(importResponse.status, 200);
+    const { report } = await importResponse.json();
+    assertEquals(report.dry_run, true);
+    assertEquals(report.tables.services, { inserted: 0, skipped: 1, conflicts: ["hello"] });
+
+    const modeResponse = await backup(fullToken, "/import?mode=overwrite", archive);
+    assertEquals(modeResponse.status, 400);
+    await modeResponse.text();
+    const invalidResponse = await backup(fullToken, "/import", new Uint8Array([1, 2, 3]));
+    assertEquals(invalidResponse.status, 400);
+    assertEquals((await invalidResponse.json()).message, "Archive is not a zip file");
+  } finally {
+    abortController.abort();
+  }
+});
+
+Deno.test("Integration: Apply - plan and apply a manifest with the scopes of its sections", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  try {
+    const tokenFor = (scope: string) =>
+      createJWT(dbContext, { sub: "admin", scope, exp: Math.floor(Date.now() / 1000) + 60 });
+    const readToken = await tokenFor("services:read functions:read");
+    const writeToken = await tokenFor("services:write functions:write");
+    const manifest = {
+      services: [{ name: "hello", code: "export default () => new Response('hi');" }],
+      functions: [{ name: "add", code: "export default ({ a, b }) => a + b;" }],
+    };
+    const apply = (token: string, query: string, body: unknown = manifest) =>
+      app.fetch(
+        new Request(`http://localhost:8000/admin-api/v2/apply${query}`, {
+          method: "POST",
+          headers: { "Authorization": `Bearer ${token}`, "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }),
+      );
+
+    const planResponse = await apply(readToken, "?dry_run=true");
+    assertEquals(planResponse.status, 200);
+    const plan = await planResponse.json();
+    assertEquals(plan.changes.map((change: { action: string }) => change.action), [
+      "update",
+      "create",
+    ]);
+
+    const forbiddenResponse = await apply(readToken, "");
+    assertEquals(forbiddenResponse.status, 403);
+    await forbiddenResponse.text();
+    const invalidResponse = await apply(writeToken, "", { services: {} });
+    assertEquals(invalidResponse.status, 400);
+    assertEquals((await invalidResponse.json()).error, "services must be a list");
+
+    const applyResponse = await apply(writeToken, "?prune=true");
+    assertEquals(applyResponse.status, 200);
+    assertEquals((await applyResponse.json()).changes, plan.changes);
+    const functionResponse = await app.fetch(
+      new Request("http://localhost:8000/functions/v2/add", {
+        method: "POST",
+        body: JSON.stringify({ a: 1, b: 2 }),
+      }),
+    );
+    assertEquals(await functionResponse.json(), 3);
+
+    // keys cannot grant more than the token, secrets need full, nothing is applied then
+    const keysToken = await tokenFor("api_keys:write config:write services:invoke");
+    for (
+      const [body, message] of [
+        [{ api_keys: [{ name: "ci", scope: "full" }] }, "Token lacks the full scope"],
+        [{ config: { webhook_secret: "changed" } }, "Token lacks the full scope"],
+        [
+          { api_keys: [{ name: "ci", scope: "services:invoke tasks:*" }] },
+          "Token lacks the tasks:* scope",
+        ],
+      ]
+    ) {
+      const escalateResponse = await apply(keysToken, "", body);
+      assertEquals(escalateResponse.status, 403);
+      assertEquals((await escalateResponse.json()).message, message);
+    }
+    assertEquals(
+      (await dbContext.dbInstance.selectFrom("api_keys").selectAll().execute()).length,
+      0,
+    );
+  } finally {
+    abortController.abort();
+  }
+});
+
 Deno.test("Integration: Admin API configuration management", async () => {
   const [_app, _port, abortController, serviceManagerState] = await createNanoEdgeRT(":memory:");
 
@@ -286,8 +673,9 @@ Deno.test("Integration: Frontend hosting API", async () => {
 
   try {
     // Create a mock token
-    const _mockToken = await createJWT({
+    const _mockToken = await createJWT(dbContext, {
       sub: "admin",
+      scope: "full",
       role: "admin",
       exp: Math.floor(Date.now() / 1000) + 60 * 5,
     });
@@ -407,8 +795,9 @@ Deno.test("Integration: Admin API - host-frontend validation", async () => {
   const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
 
   try {
-    const mockToken = await createJWT({
+    const mockToken = await createJWT(dbContext, {
       sub: "user123",
+      scope: "full",
       role: "admin",
       exp: Math.floor(Date.now() / 1000) + 60 * 5,
     });
@@ -504,8 +893,9 @@ Deno.test("Integration: Admin API - unauthorized access", async () => {
     assertEquals(invalidTokenResponse.status, 401);
 
     // Test access with expired token
-    const expiredToken = await createJWT({
+    const expiredToken = await createJWT(dbContext, {
       sub: "user123",
+      scope: "full",
       role: "admin",
       exp: Math.floor(Date.now() / 1000) - 60, // Expired 1 minute ago
     });
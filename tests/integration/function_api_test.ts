@@ -4,6 +4,7 @@ import { createIsolatedDb } from "../test_utils.ts";
 import { createDatabaseContext } from "../../database/config.ts";
 import { createJWT } from "../../src/api/api.admin.ts";
 import { createFunction } from "../../database/tables/functions.ts";
+import { createAPIKey } from "../../database/tables/api_keys.ts";
 
 Deno.test("Integration: Function API execution", async () => {
   const db = await createIsolatedDb();
@@ -318,8 +319,9 @@ Deno.test("Integration: Admin API function management with JWT", async () => {
 
   try {
     // Create a JWT token for admin access
-    const mockToken = await createJWT({
+    const mockToken = await createJWT(dbContext, {
       sub: "admin",
+      scope: "full",
       role: "admin",
       exp: Math.floor(Date.now() / 1000) + 60 * 5,
     });
@@ -387,3 +389,177 @@ Deno.test("Integration: Admin API function management with JWT", async () => {
     abortController.abort();
   }
 });
+
+Deno.test("Integration: Function revisions - list, diff, invoke, pin and rollback", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  try {
+    const token = await createJWT(dbContext, {
+      sub: "admin",
+      scope: "full",
+      role: "admin",
+      exp: Math.floor(Date.now() / 1000) + 60 * 5,
+    });
+    const admin = (path: string, method = "GET", body?: object) =>
+      app.fetch(
+        new Request(`http://localhost:8000/admin-api/v2/functions${path}`, {
+          method,
+          headers: {
+            "Authorization": `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+          body: body ? JSON.stringify(body) : undefined,
+        }),
+      );
+    const invoke = async (ref: string) => {
+      const response = await app.fetch(
+        new Request(`http://localhost:8000/functions/v2/${ref}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({}),
+        }),
+      );
+      return await response.json();
+    };
+
+    await (await admin("", "POST", {
+      name: "versioned",
+      code: `export default function() { return { version: 1 }; }`,
+    })).text();
+    await (await admin("/versioned", "PUT", {
+      code: `export default function() { return { version: 2 }; }`,
+      description: "Second version",
+    })).text();
+    // enabling alone does not create a revision
+    await (await admin("/versioned", "PUT", { enabled: true })).text();
+
+    const listResponse = await admin("/versioned/revisions");
+    assertEquals(listResponse.status, 200);
+    const list = await listResponse.json();
+    assertEquals(list.current_revision, 2);
+    assertEquals(list.pinned_revision, null);
+    assertEquals(list.revisions.map((r: { revision: number }) => r.revision), [2, 1]);
+
+    const diff = await (await admin("/versioned/revisions/2/diff")).json();
+    assertEquals(diff.from, 1);
+    assertEquals(diff.to, 2);
+    assertEquals(
+      diff.code.filter((l: { op: string }) => l.op !== "=").map((l: { op: string }) => l.op),
+      ["-", "+"],
+    );
+
+    assertEquals((await invoke("versioned")).version, 2);
+    assertEquals((await invoke("versioned@1")).version, 1);
+
+    const pinResponse = await admin("/versioned/revisions/1/pin", "POST");
+    assertEquals(pinResponse.status, 200);
+    await pinResponse.text();
+    assertEquals((await invoke("versioned")).version, 1);
+    await (await admin("/versioned/revisions/pin", "DELETE")).text();
+    assertEquals((await invoke("versioned")).version, 2);
+
+    const rollbackResponse = await admin("/versioned/revisions/1/rollback", "POST");
+    assertEquals(rollbackResponse.status, 200);
+    const rollback = await rollbackResponse.json();
+    assertEquals(rollback.current_revision, 3);
+    assertEquals((await invoke("versioned")).version, 1);
+    // revision 1 had no description
+    assertEquals((await (await admin("/versioned")).json()).description, undefined);
+
+    const missing = await admin("/versioned/revisions/42");
+    assertEquals(missing.status, 404);
+    await missing.text();
+  } finally {
+    abortController.abort();
+  }
+});
+
+Deno.test("Integration: Function auth policy - public, jwt and api_key", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  try {
+    const code = "export default function () { return { ok: true }; }";
+    const permissions = { read: [], write: [], env: [], run: [] };
+    await createFunction(dbContext, { name: "open", code, permissions });
+    await createFunction(dbContext, {
+      name: "jwt-only",
+      code,
+      permissions,
+      auth: "jwt",
+    });
+    await createFunction(dbContext, {
+      name: "key-only",
+      code,
+      permissions,
+      auth: "api_key",
+      auth_scope: "tasks:enqueue",
+    });
+
+    const exp = Math.floor(Date.now() / 1000) + 60;
+    const invokeToken = await createJWT(dbContext, { sub: "app", scope: "functions:invoke", exp });
+    const readToken = await createJWT(dbContext, { sub: "app", scope: "functions:read", exp });
+    const { key: fullKey } = await createAPIKey(dbContext, {
+      name: "worker",
+      scope: "functions:invoke tasks:enqueue",
+    });
+    const { key: invokeKey } = await createAPIKey(dbContext, {
+      name: "narrow",
+      scope: "functions:invoke",
+    });
+
+    const invoke = async (name: string, headers: Record<string, string> = {}) => {
+      const response = await app.fetch(
+        new Request(`http://localhost:8000/functions/v2/${name}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...headers },
+          body: JSON.stringify({}),
+        }),
+      );
+      await response.text();
+      return response.status;
+    };
+
+    assertEquals(await invoke("open"), 200);
+    // sent credentials must be valid even for public functions
+    assertEquals(await invoke("open", { "Authorization": "Bearer invalid" }), 401);
+
+    assertEquals(await invoke("jwt-only"), 401);
+    assertEquals(await invoke("jwt-only", { "Authorization": `Bearer ${readToken}` }), 403);
+    assertEquals(await invoke("jwt-only", { "Authorization": `Bearer ${invokeToken}` }), 200);
+    assertEquals(await invoke("jwt-only", { "X-API-Key": fullKey }), 401);
+
+    assertEquals(await invoke("key-only", { "Authorization": `Bearer ${invokeToken}` }), 401);
+    assertEquals(await invoke("key-only", { "X-API-Key": invokeKey }), 403);
+    assertEquals(await invoke("key-only", { "X-API-Key": fullKey }), 200);
+
+    // the policy is managed through the admin API
+    const adminToken = await createJWT(dbContext, { sub: "admin", scope: "full", exp });
+    const update = (body: unknown) =>
+      app.fetch(
+        new Request("http://localhost:8000/admin-api/v2/functions/open", {
+          method: "PUT",
+          headers: {
+            "Authorization": `Bearer ${adminToken}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(body),
+        }),
+      );
+    const invalidResponse = await update({ auth: "password" });
+    assertEquals(invalidResponse.status, 400);
+    await invalidResponse.text();
+    const wildcardResponse = await update({ auth: "jwt", auth_scope: "functions:*" });
+    assertEquals(wildcardResponse.status, 400);
+    await wildcardResponse.text();
+    const updateResponse = await update({ auth: "jwt" });
+    assertEquals(updateResponse.status, 200);
+    await updateResponse.text();
+    assertEquals(await invoke("open"), 401);
+  } finally {
+    abortController.abort();
+  }
+});
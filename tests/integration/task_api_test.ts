@@ -1,8 +1,10 @@
 import { assertEquals, assertExists } from "https://deno.land/std@0.208.0/assert/mod.ts";
 import { createNanoEdgeRT } from "../../src/nanoedge.ts";
 import { createIsolatedDb } from "../test_utils.ts";
-import { createDatabaseContext } from "../../database/config.ts";
+import { createDatabaseContext, updateConfig } from "../../database/config.ts";
 import { createJWT } from "../../src/api/api.admin.ts";
+import { createTask, updateTask } from "../../database/tables/tasks.ts";
+import { createAPIKey } from "../../database/tables/api_keys.ts";
 
 Deno.test("Integration: Task API - CRUD operations", async () => {
   const db = await createIsolatedDb();
@@ -10,8 +12,9 @@ Deno.test("Integration: Task API - CRUD operations", async () => {
   const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
 
   try {
-    const mockToken = await createJWT({
+    const mockToken = await createJWT(dbContext, {
       sub: "user123",
+      scope: "full",
       role: "admin",
       exp: Math.floor(Date.now() / 1000) + 60 * 5,
     });
@@ -173,8 +176,9 @@ Deno.test("Integration: Task API - validation errors", async () => {
   const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
 
   try {
-    const mockToken = await createJWT({
+    const mockToken = await createJWT(dbContext, {
       sub: "user123",
+      scope: "full",
       role: "admin",
       exp: Math.floor(Date.now() / 1000) + 60 * 5,
     });
@@ -279,8 +283,9 @@ Deno.test("Integration: Task API - task execution integration", async () => {
   const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
 
   try {
-    const mockToken = await createJWT({
+    const mockToken = await createJWT(dbContext, {
       sub: "user123",
+      scope: "full",
       role: "admin",
       exp: Math.floor(Date.now() / 1000) + 60 * 5,
     });
@@ -367,8 +372,9 @@ Deno.test("Integration: Task API - task with streaming function", async () => {
   const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
 
   try {
-    const mockToken = await createJWT({
+    const mockToken = await createJWT(dbContext, {
       sub: "user123",
+      scope: "full",
       role: "admin",
       exp: Math.floor(Date.now() / 1000) + 60 * 5,
     });
@@ -463,3 +469,714 @@ Deno.test("Integration: Task API - task with streaming function", async () => {
     abortController.abort();
   }
 });
+
+Deno.test("Integration: Task API - enqueue and subscribe follow the task's auth policy", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  try {
+    const task = await createTask(dbContext, {
+      name: "paid-job",
+      code: "export default function () { return 1; }",
+      permissions: { read: [], write: [], env: [], run: [] },
+      retry_count: 0,
+      retry_delay: 1000,
+      auth: "api_key",
+      auth_scope: "functions:invoke",
+    });
+
+    const exp = Math.floor(Date.now() / 1000) + 60;
+    const token = await createJWT(dbContext, { sub: "ops", scope: "full", exp });
+    const { key: enqueueKey } = await createAPIKey(dbContext, {
+      name: "enqueue-only",
+      scope: "tasks:enqueue",
+    });
+    const { key: workerKey } = await createAPIKey(dbContext, {
+      name: "worker",
+      scope: "tasks:enqueue tasks:read functions:invoke",
+    });
+
+    const post = async (path: string, body: unknown, headers: Record<string, string> = {}) => {
+      const response = await app.fetch(
+        new Request(`http://localhost:8000/queue/v2/${path}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...headers },
+          body: JSON.stringify(body),
+        }),
+      );
+      const result = response.headers.get("Content-Type")?.includes("json")
+        ? await response.json()
+        : await response.body?.cancel();
+      return { status: response.status, result };
+    };
+    const enqueue = { taskId: task.id, params: {} };
+
+    assertEquals((await post("enqueue", enqueue)).status, 401);
+    // a full JWT is not an API key
+    assertEquals(
+      (await post("enqueue", enqueue, { "Authorization": `Bearer ${token}` })).status,
+      401,
+    );
+    // the task's auth_scope is required on top of tasks:enqueue
+    assertEquals((await post("enqueue", enqueue, { "X-API-Key": enqueueKey })).status, 403);
+
+    const enqueued = await post("enqueue", enqueue, { "X-API-Key": workerKey });
+    assertEquals(enqueued.status, 200);
+    const queueId = enqueued.result.queue_id;
+
+    const subscribe = { queue_id: queueId };
+    assertEquals((await post("subscribe", subscribe)).status, 401);
+    assertEquals((await post("subscribe", subscribe, { "X-API-Key": enqueueKey })).status, 403);
+    assertEquals((await post("subscribe", subscribe, { "X-API-Key": workerKey })).status, 200);
+    assertEquals(
+      (await post("subscribe", { queue_id: "missing" }, { "X-API-Key": workerKey })).status,
+      404,
+    );
+
+    // listing leaves out the items of tasks whose policy refuses the caller
+    const list = async (headers: Record<string, string>) =>
+      await (await app.fetch(new Request("http://localhost:8000/queue/v2/items", { headers })))
+        .json();
+    assertEquals((await list({ "Authorization": `Bearer ${token}` })).total, 0);
+    assertEquals((await list({ "X-API-Key": workerKey })).items[0].id, queueId);
+    assertEquals(
+      (await post(`items/${queueId}/cancel`, {}, { "Authorization": `Bearer ${token}` })).status,
+      401,
+    );
+
+    // disabled tasks cannot be enqueued
+    await updateTask(dbContext, task.id!, {}, { enabled: false });
+    assertEquals((await post("enqueue", enqueue, { "X-API-Key": workerKey })).status, 403);
+  } finally {
+    abortController.abort();
+  }
+});
+
+Deno.test("Integration: Task API - cron schedules", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  try {
+    const token = await createJWT(dbContext, {
+      sub: "ops",
+      scope: "full",
+      exp: Math.floor(Date.now() / 1000) + 60,
+    });
+    const request = (path: string, method: string, body: unknown) =>
+      app.fetch(
+        new Request(`http://localhost:8000/admin-api/v2/tasks${path}`, {
+          method,
+          headers: { "Authorization": `Bearer ${token}`, "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }),
+      );
+    const task = {
+      name: "nightly-report",
+      code: "export default function (input) { return input; }",
+      cron: "30 2 * * *",
+      timezone: "Europe/Berlin",
+      default_params: { full: true },
+      catch_up: "once",
+    };
+
+    for (
+      const invalid of [{ cron: "61 * * * *" }, { timezone: "Mars/Olympus" }, { catch_up: "some" }]
+    ) {
+      const response = await request("", "POST", { ...task, ...invalid });
+      assertEquals(response.status, 400);
+      await response.text();
+    }
+
+    const createResponse = await request("", "POST", task);
+    assertEquals(createResponse.status, 201);
+    const { task: created } = await createResponse.json();
+    assertEquals(created.default_params, JSON.stringify({ full: true }));
+    const nextRun = new Date(created.next_run);
+    assertEquals(nextRun > new Date(), true);
+    assertEquals(nextRun.getUTCMinutes(), 30);
+
+    // removing the cron expression unschedules the task
+    const updateResponse = await request(`/${created.id}`, "PUT", { cron: null });
+    assertEquals(updateResponse.status, 200);
+    const { task: updated } = await updateResponse.json();
+    assertEquals(updated.cron, null);
+    assertEquals(updated.next_run, null);
+  } finally {
+    abortController.abort();
+  }
+});
+
+Deno.test("Integration: Task API - concurrency limits and queue stats", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  try {
+    const token = await createJWT(dbContext, {
+      sub: "ops",
+      scope: "full",
+      exp: Math.floor(Date.now() / 1000) + 60,
+    });
+    const request = (url: string, method: string, body?: unknown) =>
+      app.fetch(
+        new Request(`http://localhost:8000${url}`, {
+          method,
+          headers: { "Authorization": `Bearer ${token}`, "Content-Type": "application/json" },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        }),
+      );
+    const task = {
+      name: "limited",
+      code: "export default function (input) { return input; }",
+      concurrency_count: 2,
+    };
+
+    for (const concurrency_count of [0, -1, 1.5, "2"]) {
+      const response = await request("/admin-api/v2/tasks", "POST", { ...task, concurrency_count });
+      assertEquals(response.status, 400);
+      await response.text();
+    }
+
+    const createResponse = await request("/admin-api/v2/tasks", "POST", task);
+    assertEquals(createResponse.status, 201);
+    const { task: created } = await createResponse.json();
+    assertEquals(created.concurrency_count, 2);
+
+    const updateResponse = await request(`/admin-api/v2/tasks/${created.id}`, "PUT", {
+      concurrency_count: 1,
+    });
+    assertEquals((await updateResponse.json()).task.concurrency_count, 1);
+
+    const statsResponse = await request("/queue/v2/stats", "GET");
+    assertEquals(statsResponse.status, 200);
+    const stats = await statsResponse.json();
+    assertEquals(typeof stats.max_concurrency, "number");
+    assertEquals(stats.running, 0);
+
+    const unauthorized = await app.fetch(new Request("http://localhost:8000/queue/v2/stats"));
+    assertEquals(unauthorized.status, 401);
+    await unauthorized.text();
+  } finally {
+    abortController.abort();
+  }
+});
+
+Deno.test("Integration: Task API - exhausted retries end in the dead-letter queue", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  try {
+    const token = await createJWT(dbContext, {
+      sub: "ops",
+      scope: "full",
+      exp: Math.floor(Date.now() / 1000) + 60,
+    });
+    const request = (url: string, method: string, body?: unknown) =>
+      app.fetch(
+        new Request(`http://localhost:8000${url}`, {
+          method,
+          headers: { "Authorization": `Bearer ${token}`, "Content-Type": "application/json" },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        }),
+      );
+    const task = {
+      name: "flaky",
+      code: "export default function () { throw new Error('boom'); }",
+      retry_count: 1,
+      retry_delay: 100,
+      retry_strategy: "exponential",
+    };
+
+    const invalid = await request("/admin-api/v2/tasks", "POST", { ...task, retry_strategy: "x" });
+    assertEquals(invalid.status, 400);
+    await invalid.text();
+
+    const createResponse = await request("/admin-api/v2/tasks", "POST", task);
+    const { task: created } = await createResponse.json();
+    assertEquals(created.retry_strategy, "exponential");
+
+    const enqueueResponse = await request("/queue/v2/enqueue", "POST", {
+      taskId: created.id,
+      params: {},
+    });
+    const { queue_id } = await enqueueResponse.json();
+
+    const waitForDead = async () => {
+      for (let i = 0; i < 100; i++) {
+        const response = await request(
+          `/admin-api/v2/queue/dead-letter?task_id=${created.id}`,
+          "GET",
+        );
+        const { items } = await response.json();
+        if (items.length > 0) return items;
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      throw new Error("Item did not reach the dead-letter queue");
+    };
+
+    const [dead] = await waitForDead();
+    assertEquals(dead.id, queue_id);
+    assertEquals(dead.status, "dead");
+    assertEquals(dead.retries, 1);
+
+    const replayResponse = await request(
+      `/admin-api/v2/queue/dead-letter/${queue_id}/replay`,
+      "POST",
+    );
+    assertEquals((await replayResponse.json()).replayed, [queue_id]);
+    await waitForDead();
+
+    const purgeResponse = await request(`/admin-api/v2/queue/dead-letter/${queue_id}`, "DELETE");
+    assertEquals((await purgeResponse.json()).purged, [queue_id]);
+    const missing = await request(`/admin-api/v2/queue/dead-letter/${queue_id}`, "GET");
+    assertEquals(missing.status, 404);
+    await missing.text();
+  } finally {
+    abortController.abort();
+  }
+});
+
+Deno.test("Integration: Task API - inspect, cancel and re-run queue items", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  try {
+    const token = await createJWT(dbContext, {
+      sub: "ops",
+      scope: "full",
+      exp: Math.floor(Date.now() / 1000) + 60,
+    });
+    const request = (url: string, method: string, body?: unknown) =>
+      app.fetch(
+        new Request(`http://localhost:8000${url}`, {
+          method,
+          headers: { "Authorization": `Bearer ${token}`, "Content-Type": "application/json" },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        }),
+      );
+    const createResponse = await request("/admin-api/v2/tasks", "POST", {
+      name: "slow",
+      code: "export default async function () { await new Promise((r) => setTimeout(r, 20000)); }",
+      permissions: { read: [], write: [], env: [], run: [] },
+    });
+    const { task } = await createResponse.json();
+    const enqueueResponse = await request("/queue/v2/enqueue", "POST", {
+      taskId: task.id,
+      params: { n: 1 },
+    });
+    const { queue_id } = await enqueueResponse.json();
+
+    const getItem = async (id: string) =>
+      await (await request(`/queue/v2/items/${id}`, "GET")).json();
+    for (let i = 0; i < 100 && (await getItem(queue_id)).status !== "running"; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    const running = await getItem(queue_id);
+    assertEquals(running.status, "running");
+    assertEquals(running.traces[0].status, "start");
+
+    const cancelResponse = await request(`/queue/v2/items/${queue_id}/cancel`, "POST");
+    assertEquals(cancelResponse.status, 200);
+    await cancelResponse.text();
+    const again = await request(`/queue/v2/items/${queue_id}/cancel`, "POST");
+    assertEquals(again.status, 409);
+    await again.text();
+    // the stopped worker must not complete the item
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    assertEquals((await getItem(queue_id)).status, "cancelled");
+
+    for (const invalid of [{ delay: -1 }, { run_at: "soon" }, { priority: 1.5 }]) {
+      const response = await request("/queue/v2/enqueue", "POST", {
+        taskId: task.id,
+        params: {},
+        ...invalid,
+      });
+      assertEquals(response.status, 400);
+      await response.text();
+    }
+    const delayed = { taskId: task.id, params: {}, delay: 60000, dedupe_key: "later" };
+    const { queue_id: delayedId } = await (await request("/queue/v2/enqueue", "POST", delayed))
+      .json();
+    const { queue_id: dedupedId } = await (await request("/queue/v2/enqueue", "POST", delayed))
+      .json();
+    assertEquals(dedupedId, delayedId);
+    assertEquals((await getItem(delayedId)).status, "queued");
+    await (await request(`/queue/v2/items/${delayedId}/cancel`, "POST")).text();
+
+    const rerunResponse = await request(`/queue/v2/items/${queue_id}/rerun`, "POST");
+    const { queue_id: rerunId } = await rerunResponse.json();
+    assertEquals(rerunId !== queue_id, true);
+    const rerun = await getItem(rerunId);
+    assertEquals(JSON.parse(rerun.params), { n: 1 });
+    const cancelRerun = await request(`/queue/v2/items/${rerunId}/cancel`, "POST");
+    assertEquals(cancelRerun.status, 200);
+    await cancelRerun.text();
+
+    const listResponse = await request(
+      `/queue/v2/items?task_id=${task.id}&status=cancelled&limit=1`,
+      "GET",
+    );
+    const list = await listResponse.json();
+    assertEquals(list.total, 3);
+    assertEquals(list.items.length, 1);
+    for (const query of ["status=unknown", "limit=0", "from=yesterday"]) {
+      const invalid = await request(`/queue/v2/items?${query}`, "GET");
+      assertEquals(invalid.status, 400, query);
+      await invalid.text();
+    }
+
+    const purgeInvalid = await request("/queue/v2/items", "DELETE");
+    assertEquals(purgeInvalid.status, 400);
+    await purgeInvalid.text();
+    const purgeResponse = await request("/queue/v2/items?older_than_days=7", "DELETE");
+    assertEquals((await purgeResponse.json()).purged, 0);
+  } finally {
+    abortController.abort();
+  }
+});
+
+Deno.test("Integration: Task API - workflow runs chain, fan out and join tasks", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  try {
+    const token = await createJWT(dbContext, {
+      sub: "ops",
+      scope: "full",
+      exp: Math.floor(Date.now() / 1000) + 60,
+    });
+    const request = (url: string, method: string, body?: unknown) =>
+      app.fetch(
+        new Request(`http://localhost:8000${url}`, {
+          method,
+          headers: { "Authorization": `Bearer ${token}`, "Content-Type": "application/json" },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        }),
+      );
+    const permissions = { read: [], write: [], env: [], run: [] };
+    const newTask = (name: string, code: string) =>
+      createTask(dbContext, { name, code, permissions, retry_count: 0, retry_delay: 100 });
+    const fetch = await newTask("fetch", "export default (input) => [1, 2, input.n];");
+    const square = await newTask("square", "export default (n) => n * n;");
+    const sum = await newTask(
+      "sum",
+      "export default (values) => values.reduce((total, n) => total + n, 0);",
+    );
+
+    const steps = [
+      { id: "fetch", task_id: fetch.id },
+      { id: "square", task_id: square.id, depends_on: ["fetch"], for_each: true },
+      { id: "sum", task_id: sum.id, depends_on: ["square"] },
+    ];
+    const cyclic = await request("/admin-api/v2/workflows", "POST", {
+      name: "cyclic",
+      steps: [{ ...steps[0], depends_on: ["sum"] }, ...steps.slice(1)],
+    });
+    assertEquals(cyclic.status, 400);
+    await cyclic.text();
+
+    const createResponse = await request("/admin-api/v2/workflows", "POST", {
+      name: "sum-of-squares",
+      steps,
+    });
+    assertEquals(createResponse.status, 201);
+    const { workflow } = await createResponse.json();
+
+    const runResponse = await request(`/queue/v2/workflows/${workflow.id}/runs`, "POST", {
+      params: { n: 3 },
+    });
+    assertEquals(runResponse.status, 200);
+    const { run_id } = await runResponse.json();
+
+    let run;
+    for (let i = 0; i < 100; i++) {
+      run = await (await request(`/queue/v2/workflows/runs/${run_id}`, "GET")).json();
+      if (run.status !== "running") break;
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    assertEquals(run.status, "completed");
+    assertEquals(run.output, 14);
+    assertEquals(run.outputs, { fetch: [1, 2, 3], square: [1, 4, 9], sum: 14 });
+    assertEquals(run.items.length, 5);
+    // the aggregated trace holds every step's start and end
+    assertEquals(run.traces.length, 10);
+    assertEquals(run.traces.at(-1).workflow_step, "sum");
+
+    const listResponse = await request(
+      `/queue/v2/workflows/runs?workflow_id=${workflow.id}`,
+      "GET",
+    );
+    const { runs, total } = await listResponse.json();
+    assertEquals([total, runs[0].id, runs[0].status], [1, run_id, "completed"]);
+
+    const cancelResponse = await request(`/queue/v2/workflows/runs/${run_id}/cancel`, "POST");
+    assertEquals(cancelResponse.status, 409);
+    await cancelResponse.text();
+  } finally {
+    abortController.abort();
+  }
+});
+
+Deno.test("Integration: Task API - workflow runs follow the auth policy of their tasks", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  try {
+    const task = await createTask(dbContext, {
+      name: "paid-step",
+      code: "export default () => new Promise((resolve) => setTimeout(resolve, 5000));",
+      permissions: { read: [], write: [], env: [], run: [] },
+      retry_count: 0,
+      retry_delay: 1000,
+      auth: "api_key",
+      auth_scope: "functions:invoke",
+    });
+    const token = await createJWT(dbContext, {
+      sub: "ops",
+      scope: "full",
+      exp: Math.floor(Date.now() / 1000) + 60,
+    });
+    const { key: tasksKey } = await createAPIKey(dbContext, {
+      name: "tasks-only",
+      scope: "tasks:read tasks:write",
+    });
+    const { key: workerKey } = await createAPIKey(dbContext, {
+      name: "worker",
+      scope: "tasks:enqueue tasks:read tasks:write functions:invoke",
+    });
+    const request = async (
+      url: string,
+      method: string,
+      headers: Record<string, string>,
+      body?: unknown,
+    ) => {
+      const response = await app.fetch(
+        new Request(`http://localhost:8000${url}`, {
+          method,
+          headers: { ...headers, "Content-Type": "application/json" },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        }),
+      );
+      return { status: response.status, result: await response.json() };
+    };
+    const admin = { "Authorization": `Bearer ${token}` };
+    const worker = { "X-API-Key": workerKey };
+
+    const { result: { workflow } } = await request("/admin-api/v2/workflows", "POST", admin, {
+      name: "paid-workflow",
+      steps: [{ id: "pay", task_id: task.id }],
+    });
+    const started = await request(`/queue/v2/workflows/${workflow.id}/runs`, "POST", worker, {});
+    assertEquals(started.status, 200);
+    const runs = `/queue/v2/workflows/runs`;
+
+    // listing leaves out runs with a step whose task refuses the caller
+    assertEquals((await request(runs, "GET", admin)).result.total, 0);
+    assertEquals((await request(runs, "GET", { "X-API-Key": tasksKey })).result.total, 0);
+    assertEquals((await request(runs, "GET", worker)).result.runs[0].id, started.result.run_id);
+
+    const cancel = `${runs}/${started.result.run_id}/cancel`;
+    assertEquals((await request(cancel, "POST", admin)).status, 401);
+    assertEquals((await request(cancel, "POST", { "X-API-Key": tasksKey })).status, 403);
+    assertEquals((await request(cancel, "POST", worker)).status, 200);
+  } finally {
+    abortController.abort();
+  }
+});
+
+Deno.test("Integration: Task API - results of finished queue items", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  try {
+    const token = await createJWT(dbContext, {
+      sub: "ops",
+      scope: "full",
+      exp: Math.floor(Date.now() / 1000) + 60,
+    });
+    const request = (url: string, method: string, body?: unknown) =>
+      app.fetch(
+        new Request(`http://localhost:8000${url}`, {
+          method,
+          headers: { "Authorization": `Bearer ${token}`, "Content-Type": "application/json" },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        }),
+      );
+    const createTaskFrom = async (name: string, code: string) => {
+      const response = await request("/admin-api/v2/tasks", "POST", {
+        name,
+        code,
+        retry_count: 0,
+        permissions: { read: [], write: [], env: [], run: [] },
+      });
+      return (await response.json()).task.id;
+    };
+    const add = await createTaskFrom(
+      "add",
+      "export default function ({ a, b }) { return { sum: a + b }; }",
+    );
+    const broken = await createTaskFrom(
+      "broken",
+      "export default function () { throw new Error('boom'); }",
+    );
+
+    const invalid = await request("/queue/v2/enqueue", "POST", {
+      taskId: add,
+      params: {},
+      wait: 600000,
+    });
+    assertEquals(invalid.status, 400);
+    await invalid.text();
+
+    const waited = await request("/queue/v2/enqueue", "POST", {
+      taskId: add,
+      params: { a: 1, b: 2 },
+      wait: 10000,
+    });
+    assertEquals(waited.status, 200);
+    const completed = await waited.json();
+    assertEquals([completed.status, completed.result], ["completed", { sum: 3 }]);
+
+    const resultResponse = await request(`/queue/v2/${completed.queue_id}/result`, "GET");
+    assertEquals((await resultResponse.json()).result, { sum: 3 });
+
+    const failed = await request("/queue/v2/enqueue", "POST", {
+      taskId: broken,
+      params: {},
+      wait: 10000,
+    });
+    const dead = await failed.json();
+    assertEquals(dead.status, "dead");
+    assertEquals(dead.result, null);
+    assertEquals(typeof dead.error, "string");
+
+    // results over the size limit are dropped, expired results are gone
+    dbContext.config!.queue_result_max_size = 5;
+    dbContext.config!.queue_result_ttl = 1;
+    const large = await request("/queue/v2/enqueue", "POST", {
+      taskId: add,
+      params: { a: 1, b: 2 },
+      wait: 10000,
+    });
+    const dropped = await large.json();
+    assertEquals(dropped.result, null);
+    assertEquals(dropped.error, "Result of 9 bytes exceeds queue_result_max_size of 5");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const expired = await request(`/queue/v2/${dropped.queue_id}/result`, "GET");
+    assertEquals(expired.status, 410);
+    await expired.text();
+
+    const missing = await request("/queue/v2/unknown/result", "GET");
+    assertEquals(missing.status, 404);
+    await missing.text();
+  } finally {
+    abortController.abort();
+  }
+});
+
+Deno.test("Integration: Task API - webhooks of finished queue items", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+
+  const received: { url: string; payload: Record<string, unknown> }[] = [];
+  const server = Deno.serve({ port: 0, onListen: () => {} }, async (request) => {
+    received.push({ url: request.url, payload: await request.json() });
+    return new Response(null, { status: 204 });
+  });
+  const hook = `http://localhost:${server.addr.port}`;
+  await updateConfig(dbContext, "webhook_allowed_hosts", "localhost");
+  const waitForDeliveries = async (count: number) => {
+    for (let i = 0; i < 100 && received.length < count; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    assertEquals(received.length, count);
+  };
+
+  try {
+    const token = await createJWT(dbContext, {
+      sub: "ops",
+      scope: "full",
+      exp: Math.floor(Date.now() / 1000) + 60,
+    });
+    const request = (url: string, method: string, body?: unknown) =>
+      app.fetch(
+        new Request(`http://localhost:8000${url}`, {
+          method,
+          headers: { "Authorization": `Bearer ${token}`, "Content-Type": "application/json" },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        }),
+      );
+    const createResponse = await request("/admin-api/v2/tasks", "POST", {
+      name: "notified",
+      code: "export default function ({ n }) { return { double: n * 2 }; }",
+      webhook_url: `${hook}/task`,
+      permissions: { read: [], write: [], env: [], run: [] },
+    });
+    const { task } = await createResponse.json();
+    assertEquals(task.webhook_url, `${hook}/task`);
+
+    const invalid = await request("/queue/v2/enqueue", "POST", {
+      taskId: task.id,
+      params: { n: 1 },
+      callback_url: "ftp://example.com",
+    });
+    assertEquals(invalid.status, 400);
+    await invalid.text();
+    const privateResponse = await request("/queue/v2/enqueue", "POST", {
+      taskId: task.id,
+      params: { n: 1 },
+      callback_url: "http://169.254.169.254/latest/meta-data",
+    });
+    assertEquals(privateResponse.status, 400);
+    assertEquals(
+      (await privateResponse.json()).error,
+      "callback_url is refused, 169.254.169.254 is a private address",
+    );
+
+    const enqueueResponse = await request("/queue/v2/enqueue", "POST", {
+      taskId: task.id,
+      params: { n: 21 },
+      callback_url: `${hook}/callback`,
+    });
+    const { queue_id } = await enqueueResponse.json();
+    await waitForDeliveries(2);
+    assertEquals(received.map((delivery) => new URL(delivery.url).pathname).sort(), [
+      "/callback",
+      "/task",
+    ]);
+    assertEquals(received[0].payload.queue_id, queue_id);
+    assertEquals(received[0].payload.status, "completed");
+    assertEquals(received[0].payload.result, { double: 42 });
+
+    const logResponse = await request(
+      `/admin-api/v2/queue/webhooks?queue_id=${queue_id}&status=delivered`,
+      "GET",
+    );
+    const { deliveries, total } = await logResponse.json();
+    assertEquals(total, 2);
+    assertEquals(deliveries[0].response_status, 204);
+
+    const replayResponse = await request(
+      `/admin-api/v2/queue/webhooks/${deliveries[0].id}/replay`,
+      "POST",
+    );
+    assertEquals(replayResponse.status, 200);
+    await replayResponse.text();
+    await waitForDeliveries(3);
+
+    const missing = await request("/admin-api/v2/queue/webhooks/unknown/replay", "POST");
+    assertEquals(missing.status, 404);
+    await missing.text();
+  } finally {
+    abortController.abort();
+    await server.shutdown();
+  }
+});
@@ -0,0 +1,143 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { createNanoEdgeRT } from "../../src/nanoedge.ts";
+import { createIsolatedDb } from "../test_utils.ts";
+import { createDatabaseContext } from "../../database/config.ts";
+import { createJWT } from "../../src/api/api.admin.ts";
+import { createFunction } from "../../database/tables/functions.ts";
+import { createTask } from "../../database/tables/tasks.ts";
+
+// A WebSocket client that collects the server's messages
+function connect(url: string) {
+  const socket = new WebSocket(url);
+  const received: Record<string, unknown>[] = [];
+  let waiting: { until: (message: Record<string, unknown>) => boolean; done: () => void }[] = [];
+  socket.onmessage = (event) => {
+    const message = JSON.parse(event.data);
+    received.push(message);
+    waiting = waiting.filter((w) => !(w.until(message) && (w.done(), true)));
+  };
+  const opened = new Promise<void>((resolve, reject) => {
+    socket.onopen = () => resolve();
+    socket.onerror = () => reject(new Error("WebSocket connection failed"));
+  });
+  const closed = new Promise<void>((resolve) => socket.onclose = () => resolve());
+
+  return {
+    opened,
+    closed,
+    received,
+    send: (message: unknown) => socket.send(JSON.stringify(message)),
+    waitFor: (until: (message: Record<string, unknown>) => boolean) =>
+      new Promise<void>((done) => received.some(until) ? done() : waiting.push({ until, done })),
+    close: async () => {
+      socket.close();
+      await closed;
+    },
+  };
+}
+
+Deno.test("Integration: WebSocket - invoke, subscribe and auth", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const [app, _port, abortController, _serviceManagerState] = await createNanoEdgeRT(dbContext);
+  const server = Deno.serve(
+    { port: 0, signal: abortController.signal, onListen: () => {} },
+    app.fetch,
+  );
+  const url = `ws://localhost:${server.addr.port}/ws`;
+
+  try {
+    const permissions = { read: [], write: [], env: [], run: [] };
+    await createFunction(dbContext, {
+      name: "counter",
+      code: "export default async function* (input) { yield 1; yield 2; return input.n; }",
+      permissions,
+    });
+    await createFunction(dbContext, {
+      name: "private",
+      code: "export default function () { return 1; }",
+      permissions,
+      auth: "jwt",
+    });
+    const task = await createTask(dbContext, {
+      name: "ws-job",
+      code: "export default function (input) { return { doubled: input.n * 2 }; }",
+      permissions,
+      retry_count: 0,
+      retry_delay: 1000,
+    });
+
+    // anonymous sockets may invoke public functions only
+    const anonymous = connect(url);
+    await anonymous.opened;
+    anonymous.send({ type: "invoke", id: "a", function: "counter", params: { n: 3 } });
+    anonymous.send({ type: "invoke", id: "b", function: "private" });
+    anonymous.send({ type: "subscribe", queue_id: "missing" });
+    anonymous.send({ type: "hello" });
+    // messages are handled concurrently, so replies may arrive in any order
+    await anonymous.waitFor((m) => m.type === "result" && m.id === "a");
+    await anonymous.waitFor((m) => m.id === "b");
+    await anonymous.waitFor(() => anonymous.received.filter((m) => !m.id).length === 2);
+    const byId = (id: string) => anonymous.received.filter((m) => m.id === id);
+    assertEquals(byId("a"), [
+      { type: "progress", id: "a", value: 1 },
+      { type: "progress", id: "a", value: 2 },
+      { type: "result", id: "a", value: 3 },
+    ]);
+    assertEquals(byId("b"), [{ type: "error", id: "b", error: "Unauthorized" }]);
+    const errors = anonymous.received.filter((m) => m.type === "error" && !m.id);
+    assertEquals(errors.map((m) => m.error).sort(), ["Invalid message", "Unauthorized"]);
+    await anonymous.close();
+
+    // invalid credentials are refused at the upgrade
+    await connect(`${url}?token=invalid`).opened.then(
+      () => {
+        throw new Error("expected the upgrade to fail");
+      },
+      () => {},
+    );
+
+    const exp = Math.floor(Date.now() / 1000) + 60;
+    const token = await createJWT(dbContext, { sub: "dashboard", scope: "full", exp });
+    const client = connect(`${url}?token=${token}`);
+    await client.opened;
+    const enqueueResponse = await app.fetch(
+      new Request("http://localhost:8000/queue/v2/enqueue", {
+        method: "POST",
+        headers: { "Authorization": `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ taskId: task.id, params: { n: 21 } }),
+      }),
+    );
+    const { queue_id } = await enqueueResponse.json();
+
+    client.send({ type: "subscribe", queue_id });
+    client.send({ type: "invoke", id: "c", function: "private" });
+    await client.waitFor((m) => m.type === "done" && m.queue_id === queue_id);
+    const traces = client.received
+      .filter((m) => m.type === "trace")
+      .map((m) => (m.trace as { status: string; data: string }));
+    assertEquals(client.received[0], { type: "subscribed", queue_id });
+    assertEquals(traces.map((trace) => trace.status), ["start", "end"]);
+    assertEquals(JSON.parse(traces[1].data), { doubled: 42 });
+    await client.waitFor((m) => m.id === "c");
+    assertEquals(client.received.find((m) => m.id === "c"), { type: "result", id: "c", value: 1 });
+
+    // the subscription ended with the item
+    client.send({ type: "unsubscribe", queue_id });
+    await client.waitFor((m) => m.type === "error" && m.error === "Not subscribed");
+    await client.close();
+
+    // sockets close when their JWT expires
+    const shortLived = await createJWT(dbContext, {
+      sub: "dashboard",
+      scope: "full",
+      exp: Math.floor(Date.now() / 1000) + 1,
+    });
+    const expiring = connect(`${url}?token=${shortLived}`);
+    await expiring.opened;
+    await expiring.closed;
+  } finally {
+    abortController.abort();
+    await server.finished;
+  }
+});
@@ -1,7 +1,9 @@
 import { assertEquals, assertExists } from "https://deno.land/std@0.208.0/assert/mod.ts";
-import { createJWT, setupAdminAPIRoutes } from "../../src/api/api.admin.ts";
+import { sign } from "hono/jwt";
+import { createJWT, setupAdminAPIRoutes, verifyJWT } from "../../src/api/api.admin.ts";
 import { createDatabaseContext } from "../../database/config.ts";
 import { createIsolatedDb } from "../test_utils.ts";
+import { rotateJWTKey } from "../../database/tables/jwt_keys.ts";
 
 Deno.test("setupAdminAPIRoutes - should create admin router with JWT middleware", async () => {
   const db = await createIsolatedDb();
@@ -37,8 +39,9 @@ Deno.test("setupAdminAPIRoutes - should accept valid JWT token", async () => {
   const adminRouter = setupAdminAPIRoutes(dbContext);
 
   // Create a valid JWT token
-  const token = await createJWT({
+  const token = await createJWT(dbContext, {
     sub: "user123",
+    scope: "full",
     role: "admin",
     exp: Math.floor(Date.now() / 1000) + 60 * 5, // Token expires in 5 minutes
   });
@@ -102,3 +105,90 @@ Deno.test("setupAdminAPIRoutes - should use default JWT secret when env not set"
 
   assertEquals(response.status, 401);
 });
+
+Deno.test("verifyJWT - should reject tokens without a known key id", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const payload = { sub: "user123", scope: "full", exp: Math.floor(Date.now() / 1000) + 60 };
+
+  // the old hardcoded secret and tokens without kid are no longer accepted
+  const legacyToken = await sign(payload, "my_super_duper_secret_key_for_admin_jwt", "HS256");
+  assertEquals(await verifyJWT(dbContext, legacyToken), null);
+
+  const token = await createJWT(dbContext, payload);
+  assertEquals((await verifyJWT(dbContext, token))?.sub, "user123");
+});
+
+Deno.test("setupAdminAPIRoutes - should honour the grace period and reject retired keys", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const adminRouter = setupAdminAPIRoutes(dbContext);
+  const request = async (token: string, path = "/services", method = "GET") => {
+    const response = await adminRouter.fetch(
+      new Request(`http://localhost${path}`, {
+        method,
+        headers: { "Authorization": `Bearer ${token}` },
+      }),
+    );
+    const body = await response.json().catch(() => null);
+    return { status: response.status, body };
+  };
+  const payload = { sub: "admin", scope: "full", exp: Math.floor(Date.now() / 1000) + 60 };
+
+  const oldToken = await createJWT(dbContext, payload);
+  const rotated = await request(oldToken, "/jwt/rotate", "POST");
+  assertEquals(rotated.status, 200);
+  const newToken = await createJWT(dbContext, payload);
+
+  // both keys verify during the grace period
+  assertEquals((await request(oldToken)).status, 200);
+  assertEquals((await request(newToken)).status, 200);
+
+  const keys = (await request(newToken, "/jwt/keys")).body.keys;
+  assertEquals(keys.map((key: { status: string }) => key.status), ["active", "retiring"]);
+
+  // the signing key cannot be retired, an old key can
+  assertEquals((await request(newToken, `/jwt/keys/${keys[0].kid}`, "DELETE")).status, 400);
+  assertEquals((await request(newToken, `/jwt/keys/${keys[1].kid}`, "DELETE")).status, 200);
+
+  assertEquals((await request(oldToken)).status, 401);
+  assertEquals((await request(newToken)).status, 200);
+});
+
+Deno.test("setupAdminAPIRoutes - should require the full scope to choose the signing secret", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const adminRouter = setupAdminAPIRoutes(dbContext);
+  const rotate = async (scope: string, body: object) => {
+    const token = await createJWT(dbContext, {
+      sub: "admin",
+      scope,
+      exp: Math.floor(Date.now() / 1000) + 60,
+    });
+    const response = await adminRouter.fetch(
+      new Request("http://localhost/jwt/rotate", {
+        method: "POST",
+        headers: { "Authorization": `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }),
+    );
+    await response.body?.cancel();
+    return response.status;
+  };
+
+  assertEquals(await rotate("jwt:write", { secret: "chosen-by-the-caller" }), 403);
+  assertEquals(await rotate("jwt:write", {}), 200);
+  assertEquals(await rotate("full", { secret: "chosen-by-the-caller" }), 200);
+});
+
+Deno.test("rotateJWTKey - should retire old keys immediately without a grace period", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const payload = { sub: "admin", scope: "full", exp: Math.floor(Date.now() / 1000) + 60 };
+
+  const oldToken = await createJWT(dbContext, payload);
+  await rotateJWTKey(dbContext, { gracePeriod: 0 });
+
+  assertEquals(await verifyJWT(dbContext, oldToken), null);
+  assertExists(await verifyJWT(dbContext, await createJWT(dbContext, payload)));
+});
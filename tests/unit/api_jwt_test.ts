@@ -0,0 +1,88 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { setupJWTRoutes } from "../../src/api.jwt.ts";
+import { createDatabaseContext, updateConfig } from "../../database/config.ts";
+import { createIsolatedDb } from "../test_utils.ts";
+import { ipInCIDR } from "../../src/utils.ts";
+
+// What Deno.serve passes as the second handler argument
+function connInfo(hostname: string): Deno.ServeHandlerInfo {
+  return {
+    remoteAddr: { transport: "tcp", hostname, port: 51234 },
+    completed: Promise.resolve(),
+  };
+}
+
+async function create(
+  app: ReturnType<typeof setupJWTRoutes>,
+  peer?: string,
+  headers: Record<string, string> = {},
+) {
+  const response = await app.fetch(
+    new Request("http://localhost/create", { headers }),
+    peer ? connInfo(peer) : undefined,
+  );
+  await response.text();
+  return response.status;
+}
+
+Deno.test("ipInCIDR - should match IPv4, IPv6 and mapped addresses", () => {
+  assertEquals(ipInCIDR("127.0.0.1", "127.0.0.0/8"), true);
+  assertEquals(ipInCIDR("127.255.0.3", "127.0.0.0/8"), true);
+  assertEquals(ipInCIDR("::ffff:127.0.0.1", "127.0.0.0/8"), true);
+  assertEquals(ipInCIDR("10.1.2.3", "10.0.0.0/8"), true);
+  assertEquals(ipInCIDR("10.1.2.3", "10.1.2.3"), true);
+  assertEquals(ipInCIDR("::1", "::1/128"), true);
+  assertEquals(ipInCIDR("fd00::1234", "fd00::/8"), true);
+
+  assertEquals(ipInCIDR("11.0.0.1", "10.0.0.0/8"), false);
+  assertEquals(ipInCIDR("::2", "::1/128"), false);
+  assertEquals(ipInCIDR("127.0.0.1", "::1/128"), false);
+  assertEquals(ipInCIDR("localhost", "127.0.0.0/8"), false);
+  assertEquals(ipInCIDR("127.0.0.1", "127.0.0.0/33"), false);
+});
+
+Deno.test("setupJWTRoutes - should only allow loopback peers", async () => {
+  const dbContext = await createDatabaseContext(await createIsolatedDb());
+  const app = setupJWTRoutes(dbContext);
+
+  assertEquals(await create(app, "127.0.0.1"), 200);
+  assertEquals(await create(app, "::1"), 200);
+  assertEquals(await create(app, "203.0.113.7"), 403);
+  // no socket information means the caller cannot be verified
+  assertEquals(await create(app), 403);
+});
+
+Deno.test("setupJWTRoutes - should ignore spoofed forwarded headers from untrusted peers", async () => {
+  const dbContext = await createDatabaseContext(await createIsolatedDb());
+  const app = setupJWTRoutes(dbContext);
+
+  assertEquals(await create(app, "203.0.113.7", { "x-forwarded-for": "127.0.0.1" }), 403);
+  assertEquals(await create(app, "203.0.113.7", { "x-real-ip": "127.0.0.1" }), 403);
+  // a local peer cannot be turned into a remote one either, the header is simply not read
+  assertEquals(await create(app, "127.0.0.1", { "x-forwarded-for": "203.0.113.7" }), 200);
+});
+
+Deno.test("setupJWTRoutes - should honor forwarded headers from trusted proxies", async () => {
+  const dbContext = await createDatabaseContext(await createIsolatedDb());
+  await updateConfig(dbContext, "trusted_proxies", "10.0.0.0/8, 127.0.0.1");
+  const app = setupJWTRoutes(dbContext);
+
+  assertEquals(await create(app, "10.0.0.5", { "x-forwarded-for": "127.0.0.1" }), 200);
+  assertEquals(await create(app, "10.0.0.5", { "x-forwarded-for": "203.0.113.7" }), 403);
+  // the client cannot prepend a fake loopback hop, the rightmost untrusted hop wins
+  assertEquals(
+    await create(app, "10.0.0.5", { "x-forwarded-for": "127.0.0.1, 203.0.113.7, 10.0.0.9" }),
+    403,
+  );
+  assertEquals(await create(app, "10.0.0.5", { "x-real-ip": "203.0.113.7" }), 403);
+  // a proxy on the same host forwarding a remote client is not treated as localhost
+  assertEquals(await create(app, "127.0.0.1", { "x-forwarded-for": "203.0.113.7" }), 403);
+});
+
+Deno.test("setupJWTRoutes - should return 404 when token creation is disabled", async () => {
+  const dbContext = await createDatabaseContext(await createIsolatedDb());
+  await updateConfig(dbContext, "jwt_create_enabled", "false");
+  const app = setupJWTRoutes(dbContext);
+
+  assertEquals(await create(app, "127.0.0.1"), 404);
+});
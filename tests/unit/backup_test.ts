@@ -0,0 +1,165 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import JSZip from "jszip";
+import { createIsolatedDb, createTestService } from "../test_utils.ts";
+import { createDatabaseContext } from "../../database/config.ts";
+import { createService, getAllServices } from "../../database/tables/services.ts";
+import { createAPIKey, getAllAPIKeys } from "../../database/tables/api_keys.ts";
+import {
+  createFunction,
+  getFunction,
+  getFunctionRevisions,
+  updateFunction,
+} from "../../database/tables/functions.ts";
+import { exportArchive, importArchive, readArchive } from "../../database/backup.ts";
+import { createServiceManagerState } from "../../src/managers/service-manager.ts";
+
+async function createStaticRoot(files: Record<string, string>): Promise<URL> {
+  const root = new URL(`file://${await Deno.makeTempDir()}/`);
+  for (const [path, content] of Object.entries(files)) {
+    const file = new URL(path, root);
+    await Deno.mkdir(new URL("./", file), { recursive: true });
+    await Deno.writeTextFile(file, content);
+  }
+  return root;
+}
+
+Deno.test("importArchive - should merge, report conflicts of and replace another instance's state", async () => {
+  const source = await createDatabaseContext(await createIsolatedDb());
+  const target = await createDatabaseContext(await createIsolatedDb());
+  const sourceStatic = await createStaticRoot({ "site/index.html": "<h1>site</h1>" });
+  const targetStatic = await createStaticRoot({ "hello/index.html": "<h1>hello</h1>" });
+  try {
+    await createService(source, createTestService("site"));
+    await createAPIKey(source, { name: "worker", scope: "services:invoke" });
+    const archive = await exportArchive(source, sourceStatic);
+    const { manifest } = await readArchive(archive);
+    assertEquals([manifest.tables.services, manifest.tables.api_keys, manifest.static], [2, 1, [
+      "site",
+    ]]);
+
+    // both instances have the default hello service
+    const dryRun = await importArchive(target, archive, { dry_run: true }, targetStatic);
+    assertEquals(dryRun.tables.services, { inserted: 1, skipped: 1, conflicts: ["hello"] });
+    assertEquals(dryRun.static, { written: ["site"], skipped: [] });
+    assertEquals((await getAllServices(target)).map((service) => service.name), ["hello"]);
+
+    await importArchive(target, archive, { mode: "merge" }, targetStatic);
+    assertEquals(
+      (await getAllServices(target)).map((service) => service.name).sort(),
+      ["hello", "site"],
+    );
+    assertEquals(
+      await Deno.readTextFile(new URL("site/index.html", targetStatic)),
+      "<h1>site</h1>",
+    );
+    const merged = await importArchive(target, archive, { mode: "merge" }, targetStatic);
+    assertEquals(merged.tables.api_keys, { inserted: 0, skipped: 1, conflicts: ["worker"] });
+    assertEquals(merged.static, { written: [], skipped: ["site"] });
+
+    const replaced = await importArchive(target, archive, { mode: "replace" }, targetStatic);
+    assertEquals(replaced.tables.services.conflicts, []);
+    assertEquals((await getAllAPIKeys(target)).map((key) => key.name), ["worker"]);
+    const kids = async (context: typeof source) =>
+      (await context.dbInstance.selectFrom("jwt_keys").select("kid").execute())
+        .map((key) => key.kid);
+    assertEquals(await kids(target), await kids(source));
+    // static directories that are not in the archive are kept
+    assertEquals(
+      await Deno.readTextFile(new URL("hello/index.html", targetStatic)),
+      "<h1>hello</h1>",
+    );
+  } finally {
+    await source.dbInstance.destroy();
+    await target.dbInstance.destroy();
+    await Deno.remove(sourceStatic, { recursive: true });
+    await Deno.remove(targetStatic, { recursive: true });
+  }
+});
+
+Deno.test("importArchive - should keep the history of rows that conflict", async () => {
+  const source = await createDatabaseContext(await createIsolatedDb());
+  const target = await createDatabaseContext(await createIsolatedDb());
+  const sourceStatic = await createStaticRoot({});
+  const targetStatic = await createStaticRoot({});
+  const permissions = { read: [], write: [], env: [], run: [] };
+  try {
+    // the function has three revisions in the archive and one here
+    await createFunction(source, { name: "shared", code: "export default () => 1;", permissions });
+    await updateFunction(source, "shared", { code: "export default () => 2;" });
+    await updateFunction(source, "shared", { code: "export default () => 3;" });
+    await createFunction(target, {
+      name: "shared",
+      code: "export default () => 'a';",
+      permissions,
+    });
+    const archive = await exportArchive(source, sourceStatic);
+
+    const report = await importArchive(target, archive, { mode: "merge" }, targetStatic);
+    assertEquals(report.tables.functions.conflicts, ["shared"]);
+    assertEquals(report.tables.function_revisions, { inserted: 0, skipped: 3, conflicts: [] });
+    assertEquals((await getFunctionRevisions(target, "shared")).length, 1);
+
+    const updated = await updateFunction(target, "shared", { code: "export default () => 'b';" });
+    assertEquals(updated.revision, 2);
+    assertEquals((await getFunction(target, "shared"))?.code, "export default () => 'b';");
+  } finally {
+    await source.dbInstance.destroy();
+    await target.dbInstance.destroy();
+    await Deno.remove(sourceStatic, { recursive: true });
+    await Deno.remove(targetStatic, { recursive: true });
+  }
+});
+
+Deno.test("importArchive - should stop running services when replacing", async () => {
+  const source = await createDatabaseContext(await createIsolatedDb());
+  const target = await createDatabaseContext(await createIsolatedDb());
+  const sourceStatic = await createStaticRoot({});
+  const targetStatic = await createStaticRoot({});
+  try {
+    const archive = await exportArchive(source, sourceStatic);
+    const services = createServiceManagerState(target);
+    const [hello] = await getAllServices(target);
+    services.services.set("hello", { config: hello, port: 8001, status: "running", revision: 1 });
+
+    await importArchive(
+      target,
+      archive,
+      { mode: "replace", dry_run: true, services },
+      targetStatic,
+    );
+    assertEquals(services.services.size, 1);
+    await importArchive(target, archive, { mode: "replace", services }, targetStatic);
+    assertEquals(services.services.size, 0);
+  } finally {
+    await source.dbInstance.destroy();
+    await target.dbInstance.destroy();
+    await Deno.remove(sourceStatic, { recursive: true });
+    await Deno.remove(targetStatic, { recursive: true });
+  }
+});
+
+Deno.test("readArchive - should reject archives that are not backups or have invalid static paths", async () => {
+  await assertRejects(() => readArchive(new Uint8Array([1, 2, 3])), Error, "not a zip file");
+
+  const zip = new JSZip();
+  zip.file("manifest.json", JSON.stringify({ format: "nanoedge-backup", version: 1 }));
+  // static files belong to the directory of a service or function
+  zip.file("static/index.html", "<h1>stray</h1>");
+  await assertRejects(
+    async () => readArchive(await zip.generateAsync({ type: "uint8array" })),
+    Error,
+    "invalid static path",
+  );
+
+  // names are plain directory names and paths stay inside them
+  for (const path of ["static/x//etc/passwd", "static/%2e%2e/deno.json", "static/x/../../etc"]) {
+    const traversal = new JSZip();
+    traversal.file("manifest.json", JSON.stringify({ format: "nanoedge-backup", version: 1 }));
+    traversal.file(path, "x");
+    await assertRejects(
+      async () => readArchive(await traversal.generateAsync({ type: "uint8array" })),
+      Error,
+      "invalid static path",
+    );
+  }
+});
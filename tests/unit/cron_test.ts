@@ -0,0 +1,52 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { nextCronRun, parseCron } from "../../src/cron.ts";
+
+const next = (cron: string, after: string, timezone?: string) =>
+  nextCronRun(cron, new Date(after), timezone).toISOString();
+
+Deno.test("parseCron - should expand lists, ranges, steps and names", () => {
+  const cron = parseCron("*/15 9-17 1,15 JAN-MAR mon-fri");
+  assertEquals([...cron.minutes], [0, 15, 30, 45]);
+  assertEquals(cron.hours.size, 9);
+  assertEquals([...cron.days], [1, 15]);
+  assertEquals([...cron.months], [1, 2, 3]);
+  assertEquals([...cron.weekdays], [1, 2, 3, 4, 5]);
+  assertEquals([...parseCron("0 0 * * 7").weekdays], [0]);
+  assertEquals([...parseCron("5/20 * * * *").minutes], [5, 25, 45]);
+  assertEquals(parseCron("@daily"), parseCron("0 0 * * *"));
+
+  assertThrows(() => parseCron("* * * *"));
+  assertThrows(() => parseCron("60 * * * *"));
+  assertThrows(() => parseCron("* * * * * *"));
+  assertThrows(() => parseCron("*/0 * * * *"));
+  assertThrows(() => parseCron("5-1 * * * *"));
+});
+
+Deno.test("nextCronRun - should find the next matching minute", () => {
+  assertEquals(next("* * * * *", "2026-03-01T10:00:30Z"), "2026-03-01T10:01:00.000Z");
+  // strictly after, a matching start time is not returned again
+  assertEquals(next("0 * * * *", "2026-03-01T10:00:00Z"), "2026-03-01T11:00:00.000Z");
+  assertEquals(next("30 4 1 * *", "2026-01-15T00:00:00Z"), "2026-02-01T04:30:00.000Z");
+  assertEquals(next("0 0 29 2 *", "2026-01-01T00:00:00Z"), "2028-02-29T00:00:00.000Z");
+  // restricted day-of-month and day-of-week match when either does
+  assertEquals(next("0 0 13 * 5", "2026-03-01T00:00:00Z"), "2026-03-06T00:00:00.000Z");
+  assertThrows(() => next("0 0 30 2 *", "2026-01-01T00:00:00Z"));
+});
+
+Deno.test("nextCronRun - should evaluate schedules in the task timezone", () => {
+  assertEquals(next("0 9 * * *", "2026-01-10T12:00:00Z", "Asia/Tokyo"), "2026-01-11T00:00:00.000Z");
+  assertEquals(
+    next("0 9 * * *", "2026-01-10T12:00:00Z", "America/New_York"),
+    "2026-01-10T14:00:00.000Z",
+  );
+  // the day after the spring DST change still runs at local midnight
+  assertEquals(
+    next("0 0 * * 1", "2026-03-08T01:00:00-05:00", "America/New_York"),
+    "2026-03-09T04:00:00.000Z",
+  );
+  // 02:30 does not exist on the day clocks spring forward
+  assertEquals(
+    next("30 2 * * *", "2026-03-08T00:00:00-05:00", "America/New_York"),
+    "2026-03-09T06:30:00.000Z",
+  );
+});
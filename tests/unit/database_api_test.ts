@@ -3,6 +3,7 @@ import { Hono } from "hono";
 import { databaseMiddleware, setupAPIRoutes } from "../../database/api/api.service.ts";
 import { createDatabaseContext } from "../../database/config.ts";
 import { createIsolatedDb } from "../test_utils.ts";
+import type { JWTPayload } from "../../src/api/api.admin.ts";
 
 Deno.test("databaseMiddleware - should inject database context", async () => {
   const db = await createIsolatedDb();
@@ -294,6 +295,40 @@ Deno.test("updateConfigHandler - should update config value", async () => {
   assertExists(result.message);
 });
 
+Deno.test("config handlers - should redact secrets and require the full scope to write them", async () => {
+  const db = await createIsolatedDb();
+  const dbContext = await createDatabaseContext(db);
+  const app = new Hono();
+  let scope = "config:write";
+  app.use("*", databaseMiddleware(dbContext));
+  app.use("*", async (c, next) => {
+    c.set("jwtPayload", { sub: "admin", exp: 0, scope } as JWTPayload);
+    return await next();
+  });
+  app.route("", setupAPIRoutes());
+
+  const allConfig = await (await app.fetch(new Request("http://localhost/config"))).json();
+  assertEquals([allConfig.jwt_secret, allConfig.webhook_secret], ["[redacted]", "[redacted]"]);
+  const secret = await (await app.fetch(new Request("http://localhost/config/jwt_secret"))).json();
+  assertEquals(secret, { key: "jwt_secret", value: "[redacted]" });
+
+  const update = () =>
+    app.fetch(
+      new Request("http://localhost/config/webhook_secret", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ value: "new-secret" }),
+      }),
+    );
+  const forbidden = await update();
+  assertEquals(forbidden.status, 403);
+  await forbidden.text();
+  scope = "full";
+  const updated = await update();
+  assertEquals(updated.status, 200);
+  await updated.text();
+});
+
 Deno.test("updateConfigHandler - should require value", async () => {
   const db = await createIsolatedDb();
   const dbContext = await createDatabaseContext(db);
@@ -5,10 +5,16 @@ import { createIsolatedDb } from "../test_utils.ts";
 import {
   createService,
   deleteService,
+  deployServiceRevision,
   getAllServices,
+  getDeployedService,
   getService,
+  getServiceRevisions,
+  getTargetRevision,
+  rollbackService,
   updateService,
 } from "../../database/tables/services.ts";
+import { createAPIKey, getAPIKey, verifyAPIKey } from "../../database/tables/api_keys.ts";
 
 Deno.test("createDatabaseContext - should create valid context", async () => {
   const db = await createIsolatedDb();
@@ -217,6 +223,63 @@ Deno.test("updateService - should update existing service", async () => {
   assertExists((updatedService as any).schema);
 });
 
+Deno.test("updateService - should record a revision only for code, permission or schema changes", async () => {
+  const db = await createIsolatedDb();
+  const context = await createDatabaseContext(db);
+
+  const created = await createService(context, {
+    name: "revised-service",
+    code: "v1",
+    enabled: true,
+    jwt_check: false,
+    permissions: { read: [], write: [], env: [], run: [] },
+  });
+  assertEquals(created.revision, 1);
+
+  const updated = await updateService(context, { name: "revised-service", code: "v2" } as any);
+  assertEquals(updated.revision, 2);
+
+  // toggling flags does not produce a revision
+  await updateService(context, { name: "revised-service", jwt_check: true } as any);
+
+  const service = await getService(context, "revised-service");
+  assertEquals(service?.code, "v2");
+  assertEquals(service?.revision, 2);
+  assertEquals(service?.jwt_check, true);
+
+  const revisions = await getServiceRevisions(context, "revised-service");
+  assertEquals(revisions.map((r) => [r.revision, r.code]), [[2, "v2"], [1, "v1"]]);
+});
+
+Deno.test("deployServiceRevision and rollbackService - should change the served revision", async () => {
+  const db = await createIsolatedDb();
+  const context = await createDatabaseContext(db);
+
+  await createService(context, {
+    name: "deployed-service",
+    code: "v1",
+    enabled: true,
+    jwt_check: false,
+    permissions: { read: [], write: [], env: [], run: [] },
+  });
+  await updateService(context, { name: "deployed-service", code: "v2" } as any);
+  assertEquals(await getTargetRevision(context, "deployed-service"), 2);
+
+  await deployServiceRevision(context, "deployed-service", 1);
+  assertEquals(await getTargetRevision(context, "deployed-service"), 1);
+  const deployed = await getDeployedService(context, "deployed-service");
+  assertEquals(deployed?.code, "v1");
+  assertEquals(deployed?.revision, 1);
+
+  // rolling back records revision 1 as revision 3 and follows the latest again
+  const rolledBack = await rollbackService(context, "deployed-service", 1);
+  assertEquals(rolledBack.revision, 3);
+  assertEquals(rolledBack.code, "v1");
+  assertEquals(rolledBack.deployed_revision, undefined);
+  assertEquals(await getTargetRevision(context, "deployed-service"), 3);
+  assertEquals(await getTargetRevision(context, "nonexistent"), null);
+});
+
 Deno.test("deleteService - should remove service", async () => {
   const db = await createIsolatedDb();
   const context = await createDatabaseContext(db);
@@ -268,3 +331,27 @@ Deno.test("createService - should handle duplicate names", async () => {
     assertExists(error);
   }
 });
+
+Deno.test("verifyAPIKey - should accept stored keys and reject expired or unknown ones", async () => {
+  const db = await createIsolatedDb();
+  const context = await createDatabaseContext(db);
+
+  const { key } = await createAPIKey(context, { name: "worker", scope: "services:invoke" });
+  const verified = await verifyAPIKey(context, key);
+  assertEquals(verified?.name, "worker");
+  assertEquals(verified?.scope, "services:invoke");
+  assertExists((await getAPIKey(context, "worker"))?.last_used_at);
+
+  // only the hash is stored
+  const row = await db.selectFrom("api_keys").selectAll().executeTakeFirstOrThrow();
+  assertEquals(row.key_hash === key, false);
+
+  const expired = await createAPIKey(context, {
+    name: "old",
+    scope: "services:invoke",
+    expires_at: new Date(Date.now() - 1000).toISOString(),
+  });
+  assertEquals(await verifyAPIKey(context, expired.key), null);
+  assertEquals((await getAPIKey(context, "old"))?.expired, true);
+  assertEquals(await verifyAPIKey(context, key + "0"), null);
+});
@@ -4,6 +4,7 @@ import {
   assertRejects,
 } from "https://deno.land/std@0.208.0/assert/mod.ts";
 
+import { sql } from "kysely";
 import { createOrLoadDatabase } from "../../database/tables/index.ts";
 import { createIsolatedDb } from "../test_utils.ts";
 import {
@@ -43,6 +44,22 @@ Deno.test("createOrLoadDatabase - should initialize with default data", async ()
   assertEquals(ports.length >= 100, true); // Should have port range initialized
 });
 
+Deno.test("createOrLoadDatabase - should seed random secrets that are not configured", async () => {
+  const secrets = async () => {
+    const db = await createOrLoadDatabase(":memory:", { main_port: 8000 });
+    const config = await db.selectFrom("config").selectAll()
+      .where("key", "in", ["jwt_secret", "webhook_secret"]).orderBy("key").execute();
+    const key = await db.selectFrom("jwt_keys").select("secret").executeTakeFirstOrThrow();
+    await db.destroy();
+    assertEquals(config[0].value, key.secret);
+    return config.map((row) => row.value);
+  };
+
+  const [first, second] = [await secrets(), await secrets()];
+  assertEquals(first.length, 2);
+  assertEquals(first[0] !== second[0] && first[1] !== second[1], true);
+});
+
 Deno.test("createOrLoadDatabase - should handle file database path", async () => {
   const testDbPath = ":memory:"; // Use memory for test safety
   const db = await createOrLoadDatabase(testDbPath);
@@ -344,3 +361,46 @@ Deno.test("database initialization - should be idempotent", async () => {
   assertEquals(config.length, initialConfig.length);
   assertEquals(ports.length, initialPorts.length);
 });
+
+Deno.test("DenoSqliteDialect - should read committed data while a transaction is open", async () => {
+  const dir = await Deno.makeTempDir();
+  const db = await createOrLoadDatabase(`${dir}/nanoedge.db`);
+  try {
+    const { rows } = await sql<{ journal_mode: string }>`PRAGMA journal_mode`.execute(db);
+    assertEquals(rows[0].journal_mode, "wal");
+
+    const trx = await db.startTransaction().execute();
+    await trx.updateTable("config").set({ value: "9000" }).where("key", "=", "main_port").execute();
+    // a reader sees the last committed value instead of waiting for the transaction
+    const before = await db
+      .selectFrom("config")
+      .select("value")
+      .where("key", "=", "main_port")
+      .executeTakeFirstOrThrow();
+    assertEquals(before.value, "8000");
+
+    // writes wait for the transaction
+    const write = db.updateTable("config").set({ value: "9001" })
+      .where("key", "=", "main_port").execute();
+    await trx.commit().execute();
+    await write;
+    const after = await db
+      .selectFrom("config")
+      .select("value")
+      .where("key", "=", "main_port")
+      .executeTakeFirstOrThrow();
+    assertEquals(after.value, "9001");
+  } finally {
+    await db.destroy();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("DenoSqliteDialect - should introspect tables and columns", async () => {
+  const db = await createIsolatedDb();
+  const tables = await db.introspection.getTables();
+  const functions = tables.find((table) => table.name === "functions");
+  assertExists(functions);
+  assertEquals(functions.columns.some((column) => column.name === "auth_scope"), true);
+  assertEquals(tables.some((table) => table.name === "schema_migrations"), true);
+});
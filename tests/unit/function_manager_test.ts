@@ -1,8 +1,8 @@
 import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
 import { createIsolatedDb } from "../test_utils.ts";
 import { createDatabaseContext } from "../../database/config.ts";
-import { execFunction } from "../../src/managers/function-manager.ts";
-import { createFunction } from "../../database/tables/functions.ts";
+import { drainFunctionPools, execFunction } from "../../src/managers/function-manager.ts";
+import { createFunction, updateFunction } from "../../database/tables/functions.ts";
 
 Deno.test("execFunction - should execute simple function", async () => {
   const db = await createIsolatedDb();
@@ -25,13 +25,17 @@ Deno.test("execFunction - should execute simple function", async () => {
   };
   await createFunction(state, functionConfig);
 
-  const response = await execFunction(state, functionConfig.name, {});
+  try {
+    const response = await execFunction(state, functionConfig.name, {});
 
-  assertEquals(response.status, 200);
-  assertEquals(response.headers.get("Content-Type"), "application/json");
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get("Content-Type"), "application/json");
 
-  const body = await response.json();
-  assertEquals(body.message, "Hello from function!");
+    const body = await response.json();
+    assertEquals(body.message, "Hello from function!");
+  } finally {
+    drainFunctionPools(state);
+  }
 });
 
 Deno.test("execFunction - should handle function with parameters", async () => {
@@ -56,12 +60,16 @@ Deno.test("execFunction - should handle function with parameters", async () => {
   };
   await createFunction(state, functionConfig);
 
-  const response = await execFunction(state, functionConfig.name, { name: "Alice" });
+  try {
+    const response = await execFunction(state, functionConfig.name, { name: "Alice" });
 
-  assertEquals(response.status, 200);
+    assertEquals(response.status, 200);
 
-  const body = await response.json();
-  assertEquals(body.greeting, "Hello, Alice!");
+    const body = await response.json();
+    assertEquals(body.greeting, "Hello, Alice!");
+  } finally {
+    drainFunctionPools(state);
+  }
 });
 
 Deno.test("execFunction - should handle async function", async () => {
@@ -86,10 +94,14 @@ Deno.test("execFunction - should handle async function", async () => {
   };
   await createFunction(state, functionConfig);
 
-  const response = await execFunction(state, functionConfig.name, {});
-  assertEquals(response.status, 200);
-  const body = await response.json();
-  assertEquals(body, 1);
+  try {
+    const response = await execFunction(state, functionConfig.name, {});
+    assertEquals(response.status, 200);
+    const body = await response.json();
+    assertEquals(body, 1);
+  } finally {
+    drainFunctionPools(state);
+  }
 });
 
 Deno.test("execFunction - should handle function errors", async () => {
@@ -113,10 +125,14 @@ Deno.test("execFunction - should handle function errors", async () => {
   };
   await createFunction(state, functionConfig);
 
-  const response = await execFunction(state, functionConfig.name, {});
-  assertEquals(response.status, 500);
-  const body = await response.text();
-  assertEquals(body.includes("Function execution error: Function error"), true);
+  try {
+    const response = await execFunction(state, functionConfig.name, {});
+    assertEquals(response.status, 500);
+    const body = await response.text();
+    assertEquals(body.includes("Function execution error: Function error"), true);
+  } finally {
+    drainFunctionPools(state);
+  }
 });
 
 Deno.test("execFunction - should handle invalid function code", async () => {
@@ -136,10 +152,14 @@ Deno.test("execFunction - should handle invalid function code", async () => {
   };
   await createFunction(state, functionConfig);
 
-  const response = await execFunction(state, functionConfig.name, {});
-  assertEquals(response.status, 500);
-  const body = await response.text();
-  assertEquals(body.includes("invalid javascript syntax"), true);
+  try {
+    const response = await execFunction(state, functionConfig.name, {});
+    assertEquals(response.status, 500);
+    const body = await response.text();
+    assertEquals(body.includes("invalid javascript syntax"), true);
+  } finally {
+    drainFunctionPools(state);
+  }
 });
 
 Deno.test("execFunction - should handle function with no default export", async () => {
@@ -163,10 +183,14 @@ Deno.test("execFunction - should handle function with no default export", async
   };
   await createFunction(state, functionConfig);
 
-  const response = await execFunction(state, functionConfig.name, {});
-  assertEquals(response.status, 500);
-  const body = await response.text();
-  assertEquals(body.includes("No default export"), true);
+  try {
+    const response = await execFunction(state, functionConfig.name, {});
+    assertEquals(response.status, 500);
+    const body = await response.text();
+    assertEquals(body.includes("No default export"), true);
+  } finally {
+    drainFunctionPools(state);
+  }
 });
 
 Deno.test("execFunction - should handle complex function with multiple operations", async () => {
@@ -203,16 +227,20 @@ Deno.test("execFunction - should handle complex function with multiple operation
   };
   await createFunction(state, functionConfig);
 
-  const response = await execFunction(state, functionConfig.name, { numbers: [10, 20, 30] });
+  try {
+    const response = await execFunction(state, functionConfig.name, { numbers: [10, 20, 30] });
 
-  assertEquals(response.status, 200);
+    assertEquals(response.status, 200);
 
-  const body = await response.json();
-  assertEquals(body.sum, 60);
-  assertEquals(body.average, 20);
-  assertEquals(body.maximum, 30);
-  assertEquals(body.minimum, 10);
-  assertEquals(body.count, 3);
+    const body = await response.json();
+    assertEquals(body.sum, 60);
+    assertEquals(body.average, 20);
+    assertEquals(body.maximum, 30);
+    assertEquals(body.minimum, 10);
+    assertEquals(body.count, 3);
+  } finally {
+    drainFunctionPools(state);
+  }
 });
 
 Deno.test("execFunction - should handle generator functions", async () => {
@@ -238,27 +266,303 @@ Deno.test("execFunction - should handle generator functions", async () => {
   };
   await createFunction(state, functionConfig);
 
-  const response = await execFunction(state, functionConfig.name, {});
-  assertEquals(response.status, 200);
-  assertEquals(response.headers.get("Content-Type"), "text/event-stream");
-  const reader = response.body?.getReader();
-  const decoder = new TextDecoder();
-  let result = "";
-  if (reader) {
+  try {
+    const response = await execFunction(state, functionConfig.name, {});
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get("Content-Type"), "text/event-stream");
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+    let result = "";
+    if (reader) {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        if (value) {
+          result += value;
+        }
+      }
+      result += decoder.decode(); // flush
+    }
+    console.log("Generator function result:", result);
+    const expected = `data: "first"
+
+data: "second"
+
+data: [DONE]"done"`;
+    assertEquals(result.trim(), expected);
+  } finally {
+    drainFunctionPools(state);
+  }
+});
+
+Deno.test("execFunction - should time out long running functions with 504", async () => {
+  const db = await createIsolatedDb();
+  const state = await createDatabaseContext(db);
+
+  const functionConfig = {
+    name: "slow-function",
+    code: `
+      export default async function() {
+        await new Promise(resolve => setTimeout(resolve, 10000));
+        return "too late";
+      }
+    `,
+    enabled: true,
+    timeout: 200,
+    permissions: {
+      read: [],
+      write: [],
+      env: [],
+      run: [],
+    },
+  };
+  await createFunction(state, functionConfig);
+
+  try {
+    const response = await execFunction(state, functionConfig.name, {});
+    assertEquals(response.status, 504);
+    const body = await response.json();
+    assertEquals(body.error, "Function execution timed out");
+  } finally {
+    drainFunctionPools(state);
+  }
+});
+
+Deno.test("execFunction - should fall back to the configured execution timeout", async () => {
+  const db = await createIsolatedDb();
+  const state = await createDatabaseContext(db);
+  state.config!.function_execution_timeout = 200;
+
+  const functionConfig = {
+    name: "hanging-function",
+    code: `
+      export default function() {
+        return new Promise(() => {});
+      }
+    `,
+    enabled: true,
+    permissions: {
+      read: [],
+      write: [],
+      env: [],
+      run: [],
+    },
+  };
+  await createFunction(state, functionConfig);
+
+  try {
+    const response = await execFunction(state, functionConfig.name, {});
+    assertEquals(response.status, 504);
+    await response.body?.cancel();
+  } finally {
+    drainFunctionPools(state);
+  }
+});
+
+Deno.test("execFunction - should end timed out streams with an error event", async () => {
+  const db = await createIsolatedDb();
+  const state = await createDatabaseContext(db);
+
+  const functionConfig = {
+    name: "slow-generator-function",
+    code: `
+        export default async function* main() {
+            yield "first";
+            await new Promise(resolve => setTimeout(resolve, 10000));
+            return "done";
+        }
+        `,
+    enabled: true,
+    timeout: 300,
+    permissions: {
+      read: [],
+      write: [],
+      env: [],
+      run: [],
+    },
+  };
+  await createFunction(state, functionConfig);
+
+  try {
+    const response = await execFunction(state, functionConfig.name, {});
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get("Content-Type"), "text/event-stream");
+    let result = "";
+    const reader = response.body!.getReader();
     while (true) {
       const { value, done } = await reader.read();
       if (done) break;
-      if (value) {
-        result += value;
-      }
+      result += value;
     }
-    result += decoder.decode(); // flush
+    const events = result.trim().split("\n\n");
+    assertEquals(events[0], `data: "first"`);
+    assertEquals(events[events.length - 1].startsWith("event: error\n"), true);
+  } finally {
+    drainFunctionPools(state);
   }
-  console.log("Generator function result:", result);
-  const expected = `data: "first"
+});
 
-data: "second"
+Deno.test("execFunction - should end streams of generators that throw with an error event", async () => {
+  const db = await createIsolatedDb();
+  const state = await createDatabaseContext(db);
 
-data: [DONE]"done"`;
-  assertEquals(result.trim(), expected);
+  const functionConfig = {
+    name: "throwing-generator-function",
+    code: `
+        export default async function* main() {
+            yield "first";
+            throw new Error("broken");
+        }
+        `,
+    enabled: true,
+    permissions: {
+      read: [],
+      write: [],
+      env: [],
+      run: [],
+    },
+  };
+  await createFunction(state, functionConfig);
+
+  try {
+    const response = await execFunction(state, functionConfig.name, {});
+    assertEquals(response.headers.get("Content-Type"), "text/event-stream");
+    let result = "";
+    const reader = response.body!.getReader();
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      result += value;
+    }
+    const events = result.trim().split("\n\n");
+    assertEquals(events[0], `data: "first"`);
+    assertEquals(events[events.length - 1].startsWith("event: error\n"), true);
+    assertEquals(events[events.length - 1].includes("broken"), true);
+  } finally {
+    drainFunctionPools(state);
+  }
+});
+
+Deno.test("execFunction - should stop the worker when the client cancels a stream", async () => {
+  const db = await createIsolatedDb();
+  const state = await createDatabaseContext(db);
+
+  const functionConfig = {
+    name: "cancelled-generator-function",
+    code: `
+        export default async function* main() {
+            yield "first";
+            await new Promise(resolve => setTimeout(resolve, 10000));
+            yield "second";
+        }
+        `,
+    enabled: true,
+    timeout: 300,
+    permissions: {
+      read: [],
+      write: [],
+      env: [],
+      run: [],
+    },
+  };
+  await createFunction(state, functionConfig);
+
+  try {
+    const response = await execFunction(state, functionConfig.name, {});
+    const reader = response.body!.getReader();
+    assertEquals(String((await reader.read()).value), `data: "first"\n\n`);
+    await reader.cancel();
+    // the timeout must not write to the cancelled stream
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  } finally {
+    drainFunctionPools(state);
+  }
+});
+
+const counterFunction = {
+  name: "counter-function",
+  code: `
+    let calls = 0;
+    export default function() {
+      calls++;
+      return { calls };
+    }
+  `,
+  enabled: true,
+  permissions: {
+    read: [],
+    write: [],
+    env: [],
+    run: [],
+  },
+};
+
+Deno.test("execFunction - should reuse warm workers between calls", async () => {
+  const db = await createIsolatedDb();
+  const state = await createDatabaseContext(db);
+  await createFunction(state, counterFunction);
+
+  try {
+    const first = await (await execFunction(state, counterFunction.name, {})).json();
+    const second = await (await execFunction(state, counterFunction.name, {})).json();
+    assertEquals(first.calls, 1);
+    assertEquals(second.calls, 2);
+  } finally {
+    drainFunctionPools(state);
+  }
+});
+
+Deno.test("execFunction - should recycle workers after max invocations", async () => {
+  const db = await createIsolatedDb();
+  const state = await createDatabaseContext(db);
+  state.config!.function_pool_max_invocations = 2;
+  await createFunction(state, counterFunction);
+
+  try {
+    const calls = [];
+    for (let i = 0; i < 3; i++) {
+      calls.push((await (await execFunction(state, counterFunction.name, {})).json()).calls);
+    }
+    assertEquals(calls, [1, 2, 1]);
+  } finally {
+    drainFunctionPools(state);
+  }
+});
+
+Deno.test("execFunction - should invalidate warm workers when code changes", async () => {
+  const db = await createIsolatedDb();
+  const state = await createDatabaseContext(db);
+  await createFunction(state, counterFunction);
+
+  try {
+    await (await execFunction(state, counterFunction.name, {})).json();
+    await updateFunction(state, counterFunction.name, {
+      code: `export default function() { return { updated: true }; }`,
+    });
+    const body = await (await execFunction(state, counterFunction.name, {})).json();
+    assertEquals(body.updated, true);
+  } finally {
+    drainFunctionPools(state);
+  }
+});
+
+Deno.test("execFunction - should keep warm workers per revision", async () => {
+  const db = await createIsolatedDb();
+  const state = await createDatabaseContext(db);
+  await createFunction(state, counterFunction);
+  await updateFunction(state, counterFunction.name, {
+    code: counterFunction.code.replace("{ calls }", "{ calls, updated: true }"),
+  });
+
+  try {
+    const calls = [];
+    for (const revision of [1, 2, 1, 2]) {
+      calls.push(
+        (await (await execFunction(state, counterFunction.name, {}, revision)).json()).calls,
+      );
+    }
+    assertEquals(calls, [1, 1, 2, 2]);
+  } finally {
+    drainFunctionPools(state);
+  }
 });
@@ -0,0 +1,109 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { createIsolatedDb } from "../test_utils.ts";
+import { createDatabaseContext } from "../../database/config.ts";
+import { getAllServices, getService } from "../../database/tables/services.ts";
+import { getAllFunctions } from "../../database/tables/functions.ts";
+import { getAllTasks } from "../../database/tables/tasks.ts";
+import { verifyAPIKey } from "../../database/tables/api_keys.ts";
+import { applyManifest, Manifest, validateManifest } from "../../database/manifest.ts";
+
+const manifest: Manifest = {
+  config: { function_pool_size: 4 },
+  services: [
+    { name: "hello", code: "export default () => new Response('hi');" },
+    { name: "site", code: "export default () => new Response('site');", jwt_check: true },
+  ],
+  functions: [{ name: "add", code: "export default ({ a, b }) => a + b;", auth: "jwt" }],
+  tasks: [{
+    name: "nightly",
+    code: "export default () => 'done';",
+    cron: "0 3 * * *",
+    default_params: { full: true },
+    retry_count: 2,
+  }],
+  api_keys: [{ name: "worker", scope: "services:invoke" }],
+};
+
+Deno.test("applyManifest - should plan, apply and then find nothing left to change", async () => {
+  const context = await createDatabaseContext(await createIsolatedDb());
+  try {
+    const plan = await applyManifest(context, manifest, { dry_run: true });
+    assertEquals(plan.changes.map(({ action, section, name }) => `${action} ${section}.${name}`), [
+      "create config.function_pool_size",
+      "update services.hello",
+      "create services.site",
+      "create functions.add",
+      "create tasks.nightly",
+      "create api_keys.worker",
+    ]);
+    assertEquals(plan.changes[1].fields, ["code"]);
+    assertEquals((await getAllServices(context)).length, 1);
+
+    const applied = await applyManifest(context, manifest);
+    assertEquals(applied.changes, plan.changes);
+    assertEquals((await getService(context, "site"))?.jwt_check, true);
+    const [task] = await getAllTasks(context);
+    assertEquals([task.cron, task.default_params, task.retry_count], [
+      "0 3 * * *",
+      '{"full":true}',
+      2,
+    ]);
+    assertEquals((await verifyAPIKey(context, applied.api_keys.worker))?.name, "worker");
+
+    assertEquals((await applyManifest(context, manifest)).changes, []);
+  } finally {
+    await context.dbInstance.destroy();
+  }
+});
+
+Deno.test("applyManifest - should update changed fields, replace keys and prune", async () => {
+  const context = await createDatabaseContext(await createIsolatedDb());
+  try {
+    await applyManifest(context, manifest);
+    const changed: Manifest = {
+      services: [manifest.services![1]],
+      functions: [],
+      tasks: [{ ...manifest.tasks![0], retry_count: 5 }],
+      api_keys: [{ name: "worker", scope: "services:invoke functions:invoke" }],
+    };
+
+    // without prune, what the manifest does not name is kept
+    const kept = await applyManifest(context, changed, { dry_run: true });
+    assertEquals(kept.changes, [
+      { action: "update", section: "tasks", name: "nightly", fields: ["retry_count"] },
+      { action: "replace", section: "api_keys", name: "worker", fields: ["scope"] },
+    ]);
+
+    const pruned = await applyManifest(context, changed, { prune: true });
+    assertEquals(pruned.changes.slice(2), [
+      { action: "delete", section: "functions", name: "add" },
+      { action: "delete", section: "services", name: "hello" },
+    ]);
+    assertEquals((await getAllServices(context)).map((service) => service.name), ["site"]);
+    assertEquals((await getAllTasks(context))[0].retry_count, 5);
+    // the function of the task is managed through the task
+    assertEquals((await getAllFunctions(context)).length, 1);
+    assertEquals(Object.keys(pruned.api_keys), ["worker"]);
+  } finally {
+    await context.dbInstance.destroy();
+  }
+});
+
+Deno.test("validateManifest - should reject invalid manifests", () => {
+  assertEquals(validateManifest([]), "Manifest must be an object");
+  assertEquals(validateManifest({ routes: [] }), "Unknown manifest sections: routes");
+  assertEquals(
+    validateManifest({ services: [{ name: "a", code: "x" }, { name: "a", code: "x" }] }),
+    "services names a twice",
+  );
+  assertEquals(validateManifest({ functions: [{ name: "a" }] }), "a needs code");
+  assertEquals(
+    validateManifest({ tasks: [{ name: "t", code: "x", cron: "* *" }] })?.startsWith("t: "),
+    true,
+  );
+  assertEquals(
+    validateManifest({ api_keys: [{ name: "k", scope: "nope" }] }),
+    "k: invalid scope nope",
+  );
+  assertEquals(validateManifest(manifest), null);
+});
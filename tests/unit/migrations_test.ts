@@ -0,0 +1,79 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { sql } from "kysely";
+import { createIsolatedDb } from "../test_utils.ts";
+import { getMigrations } from "../../database/tables/index.ts";
+import { createQueueBase, QUEUE_MIGRATIONS } from "../../database/task_tables/queue.ts";
+import { getMigrationStatus, migrateDown, migrateToLatest } from "../../database/migrations.ts";
+
+Deno.test("migrateToLatest - should apply every migration to a new database once", async () => {
+  const db = await createIsolatedDb();
+  const migrations = getMigrations();
+  const status = await getMigrationStatus(db, migrations);
+  assertEquals(status.length, migrations.length);
+  assertEquals(status.every((migration) => migration.applied_at !== null), true);
+  assertEquals(await migrateToLatest(db, migrations), []);
+
+  const hello = await db.selectFrom("services").select("name").execute();
+  assertEquals(hello.map((service) => service.name), ["hello"]);
+  const revisions = await db.selectFrom("service_revisions").select("revision").execute();
+  assertEquals(revisions.map((revision) => revision.revision), [1]);
+});
+
+Deno.test("migrateToLatest - should upgrade a queue database created before migrations", async () => {
+  const queueBase = createQueueBase(":memory:");
+  // the queue table of the first release, with an item that ran out of retries
+  await sql`CREATE TABLE queue (
+    id text primary key, task_id text not null, params text not null, status text not null,
+    retries integer default 0 not null, max_retries integer default 3 not null,
+    retry_delay integer default 1000 not null, created_at text not null, updated_at text not null
+  )`.execute(queueBase);
+  await sql`INSERT INTO queue (id, task_id, params, status, created_at, updated_at)
+    VALUES ('old', 'task', '{}', 'failed', '2024-01-01', '2024-01-01')`.execute(queueBase);
+
+  const applied = await migrateToLatest(queueBase, QUEUE_MIGRATIONS);
+  assertEquals(applied.length, QUEUE_MIGRATIONS.length);
+  const item = await queueBase.selectFrom("queue").selectAll().executeTakeFirstOrThrow();
+  assertEquals([item.status, item.priority, item.retry_strategy], ["dead", 0, "fixed"]);
+  assertEquals(item.callback_url, null);
+});
+
+Deno.test("migrateDown - should revert the newest migrations of a module", async () => {
+  const queueBase = createQueueBase(":memory:");
+  await migrateToLatest(queueBase, QUEUE_MIGRATIONS);
+  const columns = async () =>
+    (await sql<{ name: string }>`PRAGMA table_info(queue)`.execute(queueBase)).rows
+      .map((row) => row.name);
+
+  const reverted = await migrateDown(queueBase, QUEUE_MIGRATIONS, { module: "queue", steps: 3 });
+  assertEquals(reverted.map((migration) => migration.version), [8, 7, 6]);
+  assertEquals((await columns()).includes("callback_url"), false);
+  assertEquals((await columns()).includes("result"), false);
+  const pending = (await getMigrationStatus(queueBase, QUEUE_MIGRATIONS))
+    .filter((migration) => migration.applied_at === null);
+  assertEquals(pending.map((migration) => migration.name), [
+    "add_queue_results",
+    "add_queue_callback_url",
+    "add_queue_dedupe_index",
+  ]);
+
+  await migrateToLatest(queueBase, QUEUE_MIGRATIONS);
+  assertEquals((await columns()).includes("callback_url"), true);
+
+  // a failed migration is rolled back and not recorded
+  await assertRejects(
+    () =>
+      migrateToLatest(queueBase, [...QUEUE_MIGRATIONS, {
+        module: "queue",
+        version: 9,
+        name: "broken",
+        async up(dbInstance) {
+          await dbInstance.schema.alterTable("queue").addColumn("broken", "text").execute();
+          throw new Error("boom");
+        },
+        async down() {},
+      }]),
+    Error,
+    "Migration queue@9 (broken) failed: boom",
+  );
+  assertEquals((await columns()).includes("broken"), false);
+});
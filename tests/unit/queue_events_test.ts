@@ -0,0 +1,104 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { createDatabaseContext } from "../../database/config.ts";
+import { createIsolatedDb } from "../test_utils.ts";
+import { createTask } from "../../database/tables/tasks.ts";
+import {
+  claimQueueItem,
+  clearExpiredResults,
+  createOrLoadQueuebase,
+  emitTrace,
+  enqueueTask,
+  getQueueItem,
+  updateQueueStatus,
+} from "../../database/task_tables/queue.ts";
+import { createQueueEventWaiter, publishQueueEvent } from "../../database/task_tables/events.ts";
+import {
+  subscribeToTraceByQueueId,
+  waitForQueueItem,
+} from "../../database/task_tables/subscriber.ts";
+
+async function setup() {
+  const dbContext = await createDatabaseContext(await createIsolatedDb());
+  const queueBase = await createOrLoadQueuebase(":memory:");
+  const task = await createTask(dbContext, {
+    name: "traced",
+    code: "export default function (input) { return input; }",
+    permissions: { read: [], write: [], env: [], run: [] },
+    retry_count: 0,
+    retry_delay: 1000,
+  });
+  const queueId = await enqueueTask(dbContext, queueBase, task.id!, "{}");
+  await claimQueueItem(queueBase, queueId, "executor", 30000);
+  return { queueBase, queueId };
+}
+
+Deno.test("createQueueEventWaiter - should keep events published while the caller is busy", async () => {
+  const { queueBase } = await setup();
+  const waiter = createQueueEventWaiter(queueBase, "ready");
+
+  publishQueueEvent(queueBase, "ready");
+  const start = Date.now();
+  await waiter.wait(5000);
+  assertEquals(Date.now() - start < 1000, true);
+
+  // without events the wait ends on its timeout or when aborted
+  await waiter.wait(10);
+  const ac = new AbortController();
+  setTimeout(() => ac.abort(), 10);
+  await waiter.wait(5000, ac.signal);
+  assertEquals(Date.now() - start < 1000, true);
+  waiter.close();
+});
+
+Deno.test("subscribeToTraceByQueueId - should push traces and resume after Last-Event-ID", async () => {
+  const { queueBase, queueId } = await setup();
+  await emitTrace(queueBase, queueId, "start", JSON.stringify({ n: 1 }));
+  await emitTrace(queueBase, queueId, "stream", JSON.stringify({ n: 2 }));
+
+  const ac = new AbortController();
+  const traces = subscribeToTraceByQueueId(queueBase, queueId, ac);
+  const first = (await traces.next()).value!;
+  assertEquals(first.status, "start");
+  assertEquals((await traces.next()).value!.status, "stream");
+
+  // a new trace reaches the waiting subscriber well before the fallback poll
+  const start = Date.now();
+  const next = traces.next();
+  setTimeout(() => emitTrace(queueBase, queueId, "end", JSON.stringify({ n: 3 })), 50);
+  assertEquals((await next).value!.status, "end");
+  assertEquals(Date.now() - start < 500, true);
+
+  // finishing the item ends the subscription
+  const done = traces.next();
+  setTimeout(() => updateQueueStatus(queueBase, queueId, "completed", "executor"), 50);
+  assertEquals((await done).done, true);
+
+  const resumed = [];
+  for await (const trace of subscribeToTraceByQueueId(queueBase, queueId, ac, first.id as number)) {
+    resumed.push(trace.status);
+  }
+  assertEquals(resumed, ["stream", "end"]);
+});
+
+Deno.test("waitForQueueItem - should return once the item finishes or the wait times out", async () => {
+  const { queueBase, queueId } = await setup();
+  const running = await waitForQueueItem(queueBase, queueId, 20);
+  assertEquals(running?.status, "running");
+
+  const start = Date.now();
+  setTimeout(() => {
+    updateQueueStatus(queueBase, queueId, "completed", "executor", {
+      result: JSON.stringify({ n: 1 }),
+      result_expires_at: new Date(Date.now() + 1000).toISOString(),
+    });
+  }, 50);
+  const completed = await waitForQueueItem(queueBase, queueId, 5000);
+  assertEquals(Date.now() - start < 500, true);
+  assertEquals([completed?.status, completed?.result], ["completed", '{"n":1}']);
+  assertEquals(await waitForQueueItem(queueBase, "unknown", 5000), undefined);
+
+  // results are cleared once their TTL ran out
+  assertEquals(await clearExpiredResults(queueBase), 0);
+  assertEquals(await clearExpiredResults(queueBase, new Date(Date.now() + 2000)), 1);
+  assertEquals((await getQueueItem(queueBase, queueId))?.result, null);
+});
@@ -0,0 +1,34 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { hasScope, isValidScope, parseScopes, uncoveredScopes } from "../../src/api/scopes.ts";
+
+Deno.test("hasScope - should match exact, resource wildcard and full scopes", () => {
+  assertEquals(hasScope("functions:write", "functions:write"), true);
+  assertEquals(hasScope("functions:read functions:write", "functions:write"), true);
+  assertEquals(hasScope("functions:*", "functions:read"), true);
+  assertEquals(hasScope("full", "config:write"), true);
+  assertEquals(hasScope("*", "services:invoke"), true);
+
+  assertEquals(hasScope("functions:read", "functions:write"), false);
+  assertEquals(hasScope("functions:*", "services:write"), false);
+  assertEquals(hasScope("", "functions:read"), false);
+  assertEquals(hasScope(undefined, "functions:read"), false);
+});
+
+Deno.test("isValidScope - should only accept known scopes and wildcards", () => {
+  assertEquals(isValidScope("tasks:enqueue"), true);
+  assertEquals(isValidScope("tasks:*"), true);
+  assertEquals(isValidScope("full"), true);
+  assertEquals(isValidScope("tasks:delete"), false);
+  assertEquals(isValidScope("unknown:*"), false);
+  assertEquals(parseScopes(" functions:read  tasks:enqueue "), ["functions:read", "tasks:enqueue"]);
+});
+
+Deno.test("uncoveredScopes - should return the requested scopes a token cannot hand out", () => {
+  assertEquals(uncoveredScopes("functions:*", ["functions:read", "functions:*"]), []);
+  assertEquals(uncoveredScopes("full", ["*", "tasks:enqueue"]), []);
+  assertEquals(
+    uncoveredScopes("functions:read functions:invoke", ["functions:invoke", "functions:*", "full"]),
+    ["functions:*", "full"],
+  );
+  assertEquals(uncoveredScopes(undefined, ["tasks:read"]), ["tasks:read"]);
+});
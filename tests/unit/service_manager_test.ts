@@ -6,6 +6,8 @@ import {
 } from "https://deno.land/std@0.208.0/assert/mod.ts";
 import {
   createServiceManagerState,
+  deployService,
+  followDeployedRevision,
   getAllServices,
   getService,
   startService,
@@ -14,6 +16,7 @@ import {
 } from "../../src/managers/service-manager.ts";
 import { createDatabaseContext } from "../../database/config.ts";
 import { createOrLoadDatabase } from "../../database/tables/index.ts";
+import { getService as getServiceConfig, updateService } from "../../database/tables/services.ts";
 
 Deno.test("createServiceManagerState - should create valid state", async () => {
   const db = await createOrLoadDatabase(":memory:");
@@ -194,6 +197,34 @@ Deno.test("startService - should create new service", async () => {
   }
 });
 
+Deno.test("deployService - should keep the running revision and back off from a failed one", async () => {
+  const db = await createOrLoadDatabase(":memory:");
+  const dbContext = await createDatabaseContext(db);
+  const state = createServiceManagerState(dbContext);
+
+  const config = (await getServiceConfig(dbContext, "hello"))!;
+  const running = { config, port: 8001, status: "running" as const, revision: 1 };
+  state.services.set("hello", running);
+
+  // revision 2 cannot start, revision 1 keeps serving
+  await assertRejects(
+    () => deployService(state, { ...config, code: "", revision: 2 }),
+    Error,
+    "Service code is required",
+  );
+  assertEquals(state.services.get("hello"), running);
+  assertEquals(state.failedRevisions.get("hello")?.revision, 2);
+  assertEquals(state.failedRevisions.get("hello")?.attempts, 1);
+  assertEquals((getAllServices(state)[0] as any).failed_revision.revision, 2);
+
+  // requests do not start the failed revision again before its retry_at
+  await updateService(dbContext, { ...config, code: "export default () => {}" });
+  await followDeployedRevision(state, running);
+  assertEquals(state.deployments.size, 0);
+  assertEquals(state.services.get("hello"), running);
+  assertExists(state.revisionCheckedAt.get("hello"));
+});
+
 Deno.test("stopService - should handle nonexistent service", async () => {
   const db = await createOrLoadDatabase(":memory:");
   const dbContext = await createDatabaseContext(db);
@@ -0,0 +1,78 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { createDatabaseContext } from "../../database/config.ts";
+import { createOrLoadDatabase } from "../../database/tables/index.ts";
+import { createTask } from "../../database/tables/tasks.ts";
+import { createOrLoadQueuebase, emitTrace, enqueueTask } from "../../database/task_tables/queue.ts";
+import { subscribeToTraceByQueueId } from "../../database/task_tables/subscriber.ts";
+import { describeStorage, parseStorage, readBoolean } from "../../database/storage.ts";
+
+// A Postgres to run the storage tests against, e.g. an embedded PGlite served with
+// `npx @electric-sql/pglite-socket` as postgres://postgres@localhost:5432/postgres
+const POSTGRES_URL = Deno.env.get("NANOEDGE_TEST_POSTGRES_URL");
+
+Deno.test("parseStorage - should tell SQLite paths from Postgres URLs", () => {
+  assertEquals(parseStorage(":memory:"), { kind: "sqlite", location: ":memory:" });
+  assertEquals(parseStorage("sqlite:./nanoedge.db"), { kind: "sqlite", location: "./nanoedge.db" });
+  assertEquals(parseStorage("sqlite:"), { kind: "sqlite", location: ":memory:" });
+  assertEquals(parseStorage("postgresql://db/nanoedge").kind, "postgres");
+  assertEquals(
+    describeStorage("postgres://nanoedge:secret@db:5432/nanoedge"),
+    "postgres://nanoedge:***@db:5432/nanoedge",
+  );
+  assertEquals([true, 1, "1", false, 0, null].map(readBoolean), [
+    true,
+    true,
+    true,
+    false,
+    false,
+    false,
+  ]);
+});
+
+Deno.test({
+  name: "createOrLoadDatabase - should share tasks and queue items through Postgres",
+  ignore: !POSTGRES_URL,
+  fn: async () => {
+    // a second node migrating the same database finds nothing left to do
+    const [first, second] = await Promise.all([
+      createOrLoadDatabase(POSTGRES_URL!),
+      createOrLoadDatabase(POSTGRES_URL!),
+    ]);
+    const [queueBase, otherQueueBase] = await Promise.all([
+      createOrLoadQueuebase(POSTGRES_URL!),
+      createOrLoadQueuebase(POSTGRES_URL!),
+    ]);
+    try {
+      const context = await createDatabaseContext(first);
+      const task = await createTask(context, {
+        name: `shared-${crypto.randomUUID()}`,
+        code: "export default function (input) { return input; }",
+        permissions: { read: [], write: [], env: [], run: [] },
+        retry_count: 0,
+        retry_delay: 1000,
+      });
+      const otherContext = await createDatabaseContext(second);
+      const queueId = await enqueueTask(otherContext, otherQueueBase, task.id!, '{"n":1}');
+
+      const item = await queueBase
+        .selectFrom("queue")
+        .selectAll()
+        .where("id", "=", queueId)
+        .executeTakeFirstOrThrow();
+      assertEquals([item.task_id, item.status, item.priority], [task.id, "queued", 0]);
+
+      await emitTrace(queueBase, queueId, "end", '{"n":1}');
+      await queueBase.updateTable("queue").set({ status: "completed" }).where("id", "=", queueId)
+        .execute();
+      const traces = [];
+      for await (
+        const trace of subscribeToTraceByQueueId(otherQueueBase, queueId, new AbortController())
+      ) {
+        traces.push(trace);
+      }
+      assertEquals(traces.map((trace) => [trace.status, typeof trace.ts]), [["end", "number"]]);
+    } finally {
+      await Promise.all([first, second, queueBase, otherQueueBase].map((db) => db.destroy()));
+    }
+  },
+});
@@ -0,0 +1,299 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { createDatabaseContext } from "../../database/config.ts";
+import { createIsolatedDb } from "../test_utils.ts";
+import {
+  cancelQueueItem,
+  claimQueueItem,
+  createOrLoadQueuebase,
+  enqueueTask,
+  getDeadLetterItems,
+  getQueuedTasks,
+  getQueueItem,
+  insertQueueItem,
+  listQueueItems,
+  purgeCompletedItems,
+  purgeDeadLetterItems,
+  renewQueueLease,
+  replayDeadLetterItems,
+  requeueExpiredLeases,
+  scheduleQueueRetry,
+  updateQueueStatus,
+} from "../../database/task_tables/queue.ts";
+import {
+  createTask,
+  getTaskById,
+  type RetryStrategy,
+  type TaskConfig,
+} from "../../database/tables/tasks.ts";
+import {
+  getExecutorStats,
+  retryDelay,
+  scheduleCronTasks,
+  startQueuedTasks,
+} from "../../src/managers/task-manager.ts";
+
+async function setup(overrides: Partial<TaskConfig>) {
+  const dbContext = await createDatabaseContext(await createIsolatedDb());
+  const queueBase = await createOrLoadQueuebase(":memory:");
+  const task = await createTask(dbContext, {
+    name: "report",
+    code: "export default function (input) { return input; }",
+    permissions: { read: [], write: [], env: [], run: [] },
+    retry_count: 0,
+    retry_delay: 1000,
+    cron: "0 * * * *",
+    default_params: JSON.stringify({ report: "hourly" }),
+    ...overrides,
+  });
+  // pretend the executor was last running at 09:00
+  await dbContext.dbInstance
+    .updateTable("tasks")
+    .set({ next_run: "2026-05-01T10:00:00.000Z" })
+    .where("id", "=", task.id!)
+    .execute();
+  const queued = () => queueBase.selectFrom("queue").selectAll().execute();
+  return { dbContext, queueBase, task, queued };
+}
+
+Deno.test("scheduleCronTasks - should enqueue due runs with default params", async () => {
+  const { dbContext, queueBase, task, queued } = await setup({});
+
+  const notDue = await scheduleCronTasks(dbContext, queueBase, new Date("2026-05-01T09:59:00Z"));
+  assertEquals(notDue, 0);
+
+  const onTime = await scheduleCronTasks(dbContext, queueBase, new Date("2026-05-01T10:00:01Z"));
+  assertEquals(onTime, 1);
+  const [run] = await queued();
+  assertEquals(JSON.parse(run.params), { report: "hourly" });
+
+  const updated = await getTaskById(dbContext, task.id!);
+  assertEquals(updated?.last_run, "2026-05-01T10:00:00.000Z");
+  assertEquals(updated?.next_run, "2026-05-01T11:00:00.000Z");
+
+  // the schedule already moved on, a second tick enqueues nothing
+  assertEquals(await scheduleCronTasks(dbContext, queueBase, new Date("2026-05-01T10:00:02Z")), 0);
+});
+
+Deno.test("scheduleCronTasks - should apply the catch-up policy after downtime", async () => {
+  // down from 09:00 to 13:00:10, missing the 10:00, 11:00 and 12:00 runs
+  const now = new Date("2026-05-01T13:00:10Z");
+  for (const [policy, expected] of [["skip", 1], ["once", 2], ["all", 4]] as const) {
+    const { dbContext, queueBase, task } = await setup({ catch_up: policy });
+    assertEquals(await scheduleCronTasks(dbContext, queueBase, now), expected, policy);
+    const updated = await getTaskById(dbContext, task.id!);
+    assertEquals(updated?.next_run, "2026-05-01T14:00:00.000Z");
+  }
+
+  // no on-time run, skip only moves the schedule forward
+  const { dbContext, queueBase, task } = await setup({ catch_up: "skip" });
+  const late = new Date("2026-05-01T12:30:00Z");
+  assertEquals(await scheduleCronTasks(dbContext, queueBase, late), 0);
+  assertEquals((await getTaskById(dbContext, task.id!))?.next_run, "2026-05-01T13:00:00.000Z");
+});
+
+Deno.test("scheduleCronTasks - should not enqueue disabled tasks", async () => {
+  const { dbContext, queueBase, task, queued } = await setup({ enabled: false });
+  assertEquals(await scheduleCronTasks(dbContext, queueBase, new Date("2026-05-01T10:00:01Z")), 0);
+  assertEquals((await queued()).length, 0);
+  assertEquals((await getTaskById(dbContext, task.id!))?.next_run, "2026-05-01T11:00:00.000Z");
+});
+
+Deno.test("startQueuedTasks - should keep items queued while task or executor slots are full", async () => {
+  const { dbContext, queueBase, task, queued } = await setup({ cron: null, concurrency_count: 2 });
+  for (const n of [1, 2, 3]) {
+    await enqueueTask(dbContext, queueBase, task.id!, JSON.stringify({ n }));
+  }
+
+  // both task slots are taken
+  await startQueuedTasks(dbContext, queueBase, new Map([[task.id!, 2]]), "executor");
+  assertEquals((await queued()).map((q) => q.status), ["queued", "queued", "queued"]);
+
+  // the executor-wide cap is reached by another task
+  dbContext.config = { ...dbContext.config!, queue_max_concurrency: 1 };
+  await startQueuedTasks(dbContext, queueBase, new Map([["other", 1]]), "executor");
+  assertEquals((await queued()).map((q) => q.status), ["queued", "queued", "queued"]);
+
+  const stats = await getExecutorStats(dbContext, queueBase);
+  assertEquals(stats.max_concurrency, 1);
+  assertEquals(stats.tasks, [{
+    task_id: task.id!,
+    name: "report",
+    concurrency_count: 2,
+    running: 0,
+    queued: 3,
+    completed: 0,
+    dead: 0,
+    cancelled: 0,
+  }]);
+});
+
+Deno.test("claimQueueItem - should hand an item to one executor until its lease expires", async () => {
+  const { dbContext, queueBase, task, queued } = await setup({ cron: null, retry_count: 1 });
+  const queueId = await enqueueTask(dbContext, queueBase, task.id!, "{}");
+
+  const claimed = await claimQueueItem(queueBase, queueId, "executor-a", 30000);
+  assertEquals(claimed?.status, "running");
+  assertEquals(claimed?.lease_owner, "executor-a");
+  assertEquals(await claimQueueItem(queueBase, queueId, "executor-b", 30000), undefined);
+
+  // only the lease owner can renew the lease or finish the item
+  assertEquals(await renewQueueLease(queueBase, queueId, "executor-b", 30000), false);
+  assertEquals(await renewQueueLease(queueBase, queueId, "executor-a", 30000), true);
+  await updateQueueStatus(queueBase, queueId, "completed", "executor-b");
+  assertEquals((await queued())[0].status, "running");
+
+  // executor-a crashed, the reaper re-queues the item once the lease runs out
+  const retryAt = new Date(Date.now() + 120000);
+  const reap = (now?: Date) => requeueExpiredLeases(queueBase, { retryAt: () => retryAt }, now);
+  assertEquals(await reap(), { requeued: [], dead: [] });
+  const later = new Date(Date.now() + 60000);
+  const reaped = await reap(later);
+  assertEquals(reaped.requeued.map((item) => item.id), [queueId]);
+  const [requeued] = await queued();
+  assertEquals(requeued.status, "queued");
+  assertEquals(requeued.lease_owner, null);
+  // the crashed run counts as an attempt
+  assertEquals(requeued.retries, 1);
+  assertEquals(requeued.error, "Lease expired");
+  assertEquals(requeued.next_attempt_at, retryAt.toISOString());
+
+  const reclaimed = await claimQueueItem(queueBase, queueId, "executor-b", 30000);
+  assertEquals(reclaimed?.lease_owner, "executor-b");
+  await updateQueueStatus(queueBase, queueId, "completed", "executor-a");
+  assertEquals((await queued())[0].status, "running");
+});
+
+Deno.test("requeueExpiredLeases - should move items with no retries left to dead letter", async () => {
+  const { dbContext, queueBase, task, queued } = await setup({ cron: null });
+  const queueId = await enqueueTask(dbContext, queueBase, task.id!, "{}");
+  await claimQueueItem(queueBase, queueId, "executor-a", 30000);
+
+  const later = new Date(Date.now() + 60000);
+  const reaped = await requeueExpiredLeases(queueBase, {
+    retryAt: () => later,
+    result_expires_at: "2026-06-01T00:00:00.000Z",
+  }, later);
+  assertEquals(reaped.requeued, []);
+  assertEquals(reaped.dead.map((item) => item.id), [queueId]);
+  const [dead] = await queued();
+  assertEquals(dead.status, "dead");
+  assertEquals(dead.error, "Lease expired");
+  assertEquals(dead.result_expires_at, "2026-06-01T00:00:00.000Z");
+  assertEquals(dead.lease_owner, null);
+
+  // the executor that held the lease can no longer finish the item
+  await updateQueueStatus(queueBase, queueId, "completed", "executor-a");
+  assertEquals((await queued())[0].status, "dead");
+});
+
+Deno.test("retryDelay - should grow the delay by strategy up to the max delay", () => {
+  const queue = { retry_delay: 1000, retry_max_delay: 5000 };
+  const delays = (retry_strategy: RetryStrategy, random = () => 1) =>
+    [1, 2, 3, 4].map((attempt) => retryDelay({ ...queue, retry_strategy }, attempt, random));
+
+  assertEquals(delays("fixed"), [1000, 1000, 1000, 1000]);
+  assertEquals(delays("linear"), [1000, 2000, 3000, 4000]);
+  assertEquals(delays("exponential"), [1000, 2000, 4000, 5000]);
+  // jitter picks a point in the upper half of the exponential delay
+  assertEquals(delays("exponential", () => 0), [500, 1000, 2000, 2500]);
+});
+
+Deno.test("scheduleQueueRetry - should count retries up and hold the item until it is due", async () => {
+  const { dbContext, queueBase, task, queued } = await setup({ cron: null, retry_count: 2 });
+  const queueId = await enqueueTask(dbContext, queueBase, task.id!, "{}");
+  await claimQueueItem(queueBase, queueId, "executor", 30000);
+
+  const nextAttempt = new Date(Date.now() + 60000);
+  await scheduleQueueRetry(queueBase, queueId, "executor", nextAttempt);
+  const [retry] = await queued();
+  assertEquals(retry.status, "queued");
+  assertEquals(retry.retries, 1);
+  assertEquals(retry.max_retries, 2);
+  assertEquals(await getQueuedTasks(queueBase), []);
+  assertEquals((await getQueuedTasks(queueBase, nextAttempt)).length, 1);
+
+  // dead items can be replayed with fresh retries, or purged
+  await claimQueueItem(queueBase, queueId, "executor", 30000);
+  await updateQueueStatus(queueBase, queueId, "dead", "executor");
+  assertEquals((await getDeadLetterItems(queueBase, task.id!)).length, 1);
+  assertEquals(await replayDeadLetterItems(queueBase, { task_id: task.id! }), [queueId]);
+  assertEquals((await queued())[0].retries, 0);
+  assertEquals(await purgeDeadLetterItems(queueBase, { id: queueId }), []);
+});
+
+Deno.test("listQueueItems - should filter and paginate, purgeCompletedItems drops old items", async () => {
+  const { dbContext, queueBase, task } = await setup({ cron: null });
+  const ids = [];
+  for (const n of [1, 2, 3]) {
+    ids.push(await enqueueTask(dbContext, queueBase, task.id!, JSON.stringify({ n })));
+  }
+  await claimQueueItem(queueBase, ids[0], "executor", 30000);
+  await updateQueueStatus(queueBase, ids[0], "completed", "executor");
+  assertEquals(await cancelQueueItem(queueBase, ids[1]), true);
+  assertEquals(await cancelQueueItem(queueBase, ids[0]), false);
+
+  const page = await listQueueItems(queueBase, { task_id: task.id!, limit: 2, offset: 0 });
+  assertEquals(page.total, 3);
+  assertEquals(page.items.length, 2);
+  const cancelled = await listQueueItems(queueBase, { status: "cancelled", limit: 10, offset: 0 });
+  assertEquals(cancelled.items.map((item) => item.id), [ids[1]]);
+  const future = await listQueueItems(queueBase, {
+    from: new Date(Date.now() + 60000).toISOString(),
+    limit: 10,
+    offset: 0,
+  });
+  assertEquals(future.total, 0);
+
+  assertEquals(await purgeCompletedItems(queueBase, new Date(Date.now() - 60000)), 0);
+  assertEquals(await purgeCompletedItems(queueBase, new Date(Date.now() + 60000)), 1);
+  assertEquals(await getQueueItem(queueBase, ids[0]), undefined);
+});
+
+Deno.test("enqueueTask - should order by priority, hold delayed items and dedupe pending ones", async () => {
+  const { dbContext, queueBase, task } = await setup({ cron: null });
+  const enqueue = (name: string, options = {}) =>
+    enqueueTask(dbContext, queueBase, task.id!, JSON.stringify({ name }), options);
+  const now = new Date();
+
+  await enqueue("normal");
+  await enqueue("urgent", { priority: 10 });
+  await enqueue("later", { run_at: new Date(now.getTime() + 60000), priority: 100 });
+  const order = async (at: Date) =>
+    (await getQueuedTasks(queueBase, at)).map((item) => JSON.parse(item.params).name);
+  assertEquals(await order(now), ["urgent", "normal"]);
+  assertEquals(await order(new Date(now.getTime() + 60000)), ["later", "urgent", "normal"]);
+  // the executor reads only as many items as it has free slots, of tasks that can start one
+  assertEquals((await getQueuedTasks(queueBase, now, { limit: 1 })).length, 1);
+  assertEquals(await getQueuedTasks(queueBase, now, { exclude_task_ids: [task.id!] }), []);
+
+  const first = await enqueue("report", { dedupe_key: "daily" });
+  assertEquals(await enqueue("report", { dedupe_key: "daily" }), first);
+  // finished items no longer block their key
+  await claimQueueItem(queueBase, first, "executor", 30000);
+  await updateQueueStatus(queueBase, first, "completed", "executor");
+  const second = await enqueue("report", { dedupe_key: "daily" });
+  assertEquals(second !== first, true);
+
+  // nodes enqueueing at once both get the item the unique index let through
+  const [a, b] = await Promise.all([
+    insertQueueItem(queueBase, task, "{}", { dedupe_key: "hourly" }),
+    insertQueueItem(queueBase, task, "{}", { dedupe_key: "hourly" }),
+  ]);
+  assertEquals(a, b);
+  await assertRejects(() =>
+    queueBase.insertInto("queue").values({
+      id: crypto.randomUUID(),
+      task_id: task.id!,
+      params: "{}",
+      status: "queued",
+      retries: 0,
+      max_retries: 0,
+      retry_delay: 0,
+      retry_strategy: "fixed",
+      priority: 0,
+      dedupe_key: "hourly",
+      created_at: "2026-05-01T10:00:00.000Z",
+      updated_at: "2026-05-01T10:00:00.000Z",
+    }).execute()
+  );
+});
@@ -0,0 +1,110 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { createDatabaseContext, updateConfig } from "../../database/config.ts";
+import { createIsolatedDb } from "../test_utils.ts";
+import { createOrLoadQueuebase } from "../../database/task_tables/queue.ts";
+import {
+  createWebhookDeliveries,
+  getWebhookDelivery,
+  replayWebhookDelivery,
+} from "../../database/task_tables/webhooks.ts";
+import {
+  checkWebhookTarget,
+  sendDueWebhooks,
+  SIGNATURE_HEADER,
+  signWebhook,
+  TIMESTAMP_HEADER,
+  webhookRetryDelay,
+} from "../../src/managers/webhook-manager.ts";
+
+Deno.test("signWebhook - should sign the timestamp and body with HMAC-SHA256", async () => {
+  assertEquals(
+    await signWebhook("secret", "1700000000", '{"queue_id":"q"}'),
+    "76337bfc296c9d11342596a45ad42acde4c3437aaa0dcebeae192d8b33a06a1d",
+  );
+  assertEquals([1, 2, 3, 20].map(webhookRetryDelay), [1000, 2000, 4000, 60 * 60 * 1000]);
+});
+
+Deno.test("sendDueWebhooks - should retry failed attempts and fail after max_attempts", async () => {
+  const dbContext = await createDatabaseContext(await createIsolatedDb());
+  await updateConfig(dbContext, "webhook_secret", "secret");
+  await updateConfig(dbContext, "webhook_allowed_hosts", "localhost");
+  const queueBase = await createOrLoadQueuebase(":memory:");
+
+  const received: { signature: string | null; body: string }[] = [];
+  let status = 500;
+  const server = Deno.serve({ port: 0, onListen: () => {} }, async (request) => {
+    const body = await request.text();
+    const timestamp = request.headers.get(TIMESTAMP_HEADER)!;
+    const expected = `sha256=${await signWebhook("secret", timestamp, body)}`;
+    received.push({ signature: request.headers.get(SIGNATURE_HEADER), body });
+    return new Response(null, {
+      status: request.headers.get(SIGNATURE_HEADER) === expected ? status : 401,
+    });
+  });
+  const url = `http://localhost:${server.addr.port}/hook`;
+
+  try {
+    const [id] = await createWebhookDeliveries(queueBase, "queue-id", [url], '{"n":1}', 2);
+    assertEquals(await sendDueWebhooks(dbContext, queueBase), 1);
+    let delivery = await getWebhookDelivery(queueBase, id);
+    assertEquals([delivery?.status, delivery?.attempts], ["pending", 1]);
+    assertEquals(delivery?.response_status, 500);
+    // the retry is not due yet
+    assertEquals(await sendDueWebhooks(dbContext, queueBase), 0);
+
+    await queueBase.updateTable("webhook_delivery").set({
+      next_attempt_at: new Date().toISOString(),
+    }).execute();
+    assertEquals(await sendDueWebhooks(dbContext, queueBase), 1);
+    delivery = await getWebhookDelivery(queueBase, id);
+    assertEquals([delivery?.status, delivery?.attempts], ["failed", 2]);
+
+    status = 204;
+    assertEquals(await replayWebhookDelivery(queueBase, id), true);
+    assertEquals(await sendDueWebhooks(dbContext, queueBase), 1);
+    delivery = await getWebhookDelivery(queueBase, id);
+    assertEquals([delivery?.status, delivery?.attempts], ["delivered", 1]);
+    assertEquals(received.map((request) => request.body), ['{"n":1}', '{"n":1}', '{"n":1}']);
+  } finally {
+    await server.shutdown();
+  }
+});
+
+Deno.test("checkWebhookTarget - should refuse private addresses unless their host is allowed", async () => {
+  const dbContext = await createDatabaseContext(await createIsolatedDb());
+  const queueBase = await createOrLoadQueuebase(":memory:");
+
+  assertEquals(await checkWebhookTarget(dbContext, "https://93.184.215.14/hook"), null);
+  assertEquals(
+    await checkWebhookTarget(dbContext, "http://169.254.169.254/latest/meta-data"),
+    "169.254.169.254 is a private address",
+  );
+  for (const url of ["http://[::1]:8000/", "http://0x7f000001/", "http://[::ffff:10.0.0.1]/"]) {
+    assertEquals(
+      (await checkWebhookTarget(dbContext, url))?.endsWith("is a private address"),
+      true,
+    );
+  }
+  assertEquals(
+    await checkWebhookTarget(dbContext, "http://api.localhost/"),
+    "api.localhost resolves to the private address 127.0.0.1",
+  );
+
+  // refused deliveries fail their attempt without a request
+  const [id] = await createWebhookDeliveries(
+    queueBase,
+    "queue-id",
+    ["http://127.0.0.1:1/"],
+    "{}",
+    1,
+  );
+  assertEquals(await sendDueWebhooks(dbContext, queueBase), 1);
+  const delivery = await getWebhookDelivery(queueBase, id);
+  assertEquals([delivery?.status, delivery?.error], [
+    "failed",
+    "Refused, 127.0.0.1 is a private address",
+  ]);
+
+  await updateConfig(dbContext, "webhook_allowed_hosts", "127.0.0.1, hooks.internal");
+  assertEquals(await checkWebhookTarget(dbContext, "http://127.0.0.1:1/"), null);
+});
@@ -0,0 +1,131 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { createDatabaseContext } from "../../database/config.ts";
+import { createIsolatedDb } from "../test_utils.ts";
+import {
+  createOrLoadQueuebase,
+  emitTrace,
+  updateQueueStatus,
+} from "../../database/task_tables/queue.ts";
+import { getWorkflowRun } from "../../database/task_tables/workflow_runs.ts";
+import { createTask } from "../../database/tables/tasks.ts";
+import { createWorkflow, type WorkflowStep } from "../../database/tables/workflows.ts";
+import { validateWorkflowSteps } from "../../database/api/api.workflow.ts";
+import { advanceWorkflowRun, startWorkflowRun } from "../../src/managers/workflow-manager.ts";
+
+async function setup(steps: (taskId: string) => WorkflowStep[]) {
+  const dbContext = await createDatabaseContext(await createIsolatedDb());
+  const queueBase = await createOrLoadQueuebase(":memory:");
+  const task = await createTask(dbContext, {
+    name: "step",
+    code: "export default function (input) { return input; }",
+    permissions: { read: [], write: [], env: [], run: [] },
+    retry_count: 0,
+    retry_delay: 1000,
+  });
+  const workflow = await createWorkflow(dbContext, { name: "pipeline", steps: steps(task.id!) });
+
+  const items = () => queueBase.selectFrom("queue").selectAll().orderBy("workflow_index").execute();
+  // what the executor does when a step's item finishes
+  const finish = async (queueId: string, runId: string, output: unknown) => {
+    await emitTrace(queueBase, queueId, "end", JSON.stringify(output));
+    await updateQueueStatus(queueBase, queueId, "completed");
+    await advanceWorkflowRun(dbContext, queueBase, runId);
+  };
+  return { dbContext, queueBase, task, workflow, items, finish };
+}
+
+Deno.test("advanceWorkflowRun - should chain, fan out and join steps", async () => {
+  const { dbContext, queueBase, workflow, items, finish } = await setup((taskId) => [
+    { id: "fetch", task_id: taskId },
+    { id: "transform", task_id: taskId, depends_on: ["fetch"], for_each: true },
+    { id: "count", task_id: taskId, depends_on: ["fetch"] },
+    { id: "aggregate", task_id: taskId, depends_on: ["transform", "count"] },
+  ]);
+
+  const runId = await startWorkflowRun(dbContext, queueBase, workflow.id!, '{"page":1}');
+  const [fetch] = await items();
+  assertEquals([fetch.workflow_step, JSON.parse(fetch.params)], ["fetch", { page: 1 }]);
+
+  await finish(fetch.id, runId, [1, 2, 3]);
+  const started = (await items()).filter((item) => item.status === "queued");
+  const transforms = started.filter((item) => item.workflow_step === "transform");
+  assertEquals(transforms.map((item) => [item.workflow_index, JSON.parse(item.params)]), [
+    [0, 1],
+    [1, 2],
+    [2, 3],
+  ]);
+  const count = started.find((item) => item.workflow_step === "count")!;
+  assertEquals(JSON.parse(count.params), [1, 2, 3]);
+
+  // fan-out outputs keep the order of the array, whatever order the items finish in
+  for (const item of [...transforms].reverse()) {
+    await finish(item.id, runId, JSON.parse(item.params) * 10);
+  }
+  assertEquals((await items()).some((item) => item.workflow_step === "aggregate"), false);
+  await finish(count.id, runId, 3);
+
+  const aggregate = (await items()).find((item) => item.workflow_step === "aggregate")!;
+  assertEquals(JSON.parse(aggregate.params), { transform: [10, 20, 30], count: 3 });
+  await finish(aggregate.id, runId, { total: 60 });
+
+  const run = await getWorkflowRun(queueBase, runId);
+  assertEquals(run?.status, "completed");
+  assertEquals(JSON.parse(run!.output!), { total: 60 });
+});
+
+Deno.test("advanceWorkflowRun - should skip empty fan-outs and fail on a dead step", async () => {
+  const { dbContext, queueBase, workflow, items, finish } = await setup((taskId) => [
+    { id: "list", task_id: taskId },
+    { id: "each", task_id: taskId, depends_on: ["list"], for_each: true },
+    { id: "notify", task_id: taskId, depends_on: ["list"] },
+    { id: "report", task_id: taskId, depends_on: ["each"] },
+  ]);
+
+  const emptyRun = await startWorkflowRun(dbContext, queueBase, workflow.id!, "{}");
+  await finish((await items())[0].id, emptyRun, []);
+  const report = (await items()).find((item) => item.workflow_step === "report")!;
+  assertEquals(JSON.parse(report.params), []);
+
+  await queueBase.deleteFrom("queue").execute();
+  const failedRun = await startWorkflowRun(dbContext, queueBase, workflow.id!, "{}");
+  await finish((await items())[0].id, failedRun, ["a", "b"]);
+  const [first] = (await items()).filter((item) => item.workflow_step === "each");
+  await updateQueueStatus(queueBase, first.id, "dead");
+  await advanceWorkflowRun(dbContext, queueBase, failedRun);
+
+  const run = await getWorkflowRun(queueBase, failedRun);
+  assertEquals([run?.status, run?.error], ["failed", "Step each failed"]);
+  // the steps still pending are cancelled
+  const pending = (await items()).filter((item) => item.status !== "completed");
+  assertEquals(pending.map((item) => item.status).sort(), ["cancelled", "cancelled", "dead"]);
+});
+
+Deno.test("validateWorkflowSteps - should reject unknown tasks, dependencies and cycles", async () => {
+  const { dbContext, task } = await setup((taskId) => [{ id: "only", task_id: taskId }]);
+  const taskId = task.id!;
+
+  assertEquals(await validateWorkflowSteps(dbContext, []), "steps must be a non-empty array");
+  assertEquals(
+    await validateWorkflowSteps(dbContext, [{ id: "a", task_id: taskId, depends_on: ["b"] }]),
+    "Step a depends on unknown step b",
+  );
+  assertEquals(
+    await validateWorkflowSteps(dbContext, [
+      { id: "a", task_id: taskId },
+      { id: "b", task_id: taskId, depends_on: ["a", "c"] },
+      { id: "c", task_id: taskId, depends_on: ["b"] },
+    ]),
+    "Steps b, c form a cycle",
+  );
+  assertEquals(
+    await validateWorkflowSteps(dbContext, [{ id: "a", task_id: "missing" }]),
+    "Task missing not found",
+  );
+  assertEquals(
+    await validateWorkflowSteps(dbContext, [
+      { id: "a", task_id: taskId },
+      { id: "b", task_id: taskId, depends_on: ["a"], for_each: true },
+    ]),
+    null,
+  );
+});